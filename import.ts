@@ -0,0 +1,133 @@
+// =============================================================================
+// OFFLINE NDJSON IMPORT
+// =============================================================================
+// Backfills the queue from an NDJSON file (see src/backfill.ts), e.g. the
+// events a sender could not deliver during an outage:
+//
+//   npm run import -- outage.ndjson [--source <id>] [--dry-run]
+//
+// Files ending in .gz, such as compressed archive files, are gunzipped.
+//
+// Reads the same configuration as the server (CONFIG_FILE, environment),
+// including its sources, event schemas and routes, and writes to its
+// journal. The journal has a single writer, so run this while the gateway
+// is stopped; the imported events are delivered once it starts.
+// =============================================================================
+
+import { readFileSync } from "node:fs"
+import { gunzipSync } from "node:zlib"
+import { importNdjson } from "./src/backfill.js"
+import { loadConfig } from "./src/config.js"
+import { initEventLog } from "./src/event-log.js"
+import { loadEventSchemas } from "./src/event-schemas.js"
+import { loadRoutes } from "./src/forwarder.js"
+import { createJournalStorage } from "./src/journal-storage.js"
+import {
+  DEFAULT_SOURCE_ID,
+  IDEMPOTENCY_KEY_HEADER,
+  getSource,
+  loadSources,
+} from "./src/sources.js"
+
+const USAGE =
+  "Usage: npm run import -- <file.ndjson[.gz]> [--source <id>] [--dry-run]"
+
+/**
+ * Command-line arguments
+ * @property file - NDJSON file to import
+ * @property source - Source of lines that do not name one
+ * @property dryRun - Only check the file
+ */
+interface ImportArgs {
+  file: string
+  source: string
+  dryRun: boolean
+}
+
+/**
+ * Reads the command-line arguments
+ * @throws Error with the usage if they are malformed
+ */
+const parseArgs = (argv: string[]): ImportArgs => {
+  let file: string | undefined
+  let source = DEFAULT_SOURCE_ID
+  let dryRun = false
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!
+    if (arg === "--dry-run") {
+      dryRun = true
+    } else if (arg === "--source") {
+      const value = argv[++i]
+      if (!value) throw new Error(`--source needs a source ID\n${USAGE}`)
+      source = value
+    } else if (!arg.startsWith("--") && file === undefined) {
+      file = arg
+    } else {
+      throw new Error(`Unexpected argument: ${arg}\n${USAGE}`)
+    }
+  }
+  if (!file) throw new Error(USAGE)
+  return { file, source, dryRun }
+}
+
+try {
+  const args = parseArgs(process.argv.slice(2))
+  const config = loadConfig(process.env.CONFIG_FILE || "gateway.config.yaml")
+  if (config.storageDriver === "memory") {
+    throw new Error(
+      "STORAGE_DRIVER is memory; imported events would be lost. Import into the journal instead."
+    )
+  }
+
+  // Lines are checked against the server's sources and schemas
+  loadSources(config.sourcesFile, {
+    id: DEFAULT_SOURCE_ID,
+    keys: [
+      { kid: "primary", secret: config.webhookSecret, status: "active", createdAt: Date.now() },
+    ],
+    scheme: config.signatureScheme,
+    signatureHeader: "x-signature",
+    keyIdHeader: "x-signature-kid",
+    idempotencyKeyHeader: IDEMPOTENCY_KEY_HEADER,
+  })
+  if (!getSource(args.source)) {
+    throw new Error(`Unknown source: ${args.source}`)
+  }
+  loadEventSchemas(config.eventSchemasFile)
+
+  // Routing tags, ordering keys and drop rules come from the current rules
+  loadRoutes(config.routesFile, {
+    timeoutMs: config.forwardTimeoutMs,
+    secret: config.forwardSecret ?? config.webhookSecret,
+  })
+
+  const storage = createJournalStorage({
+    path: config.storagePath,
+    historyLimit: config.historyLimit,
+    eventLimit: config.eventLogLimit,
+  })
+  initEventLog(storage)
+
+  const raw = readFileSync(args.file)
+  const bytes = args.file.endsWith(".gz") ? gunzipSync(raw) : raw
+  const summary = importNdjson(bytes.toString("utf8"), {
+    storage,
+    source: args.source,
+    dryRun: args.dryRun,
+  })
+  storage.close()
+
+  const skipped = [...summary.invalid, ...summary.skipped].sort(
+    (a, b) => a.index - b.index
+  )
+  skipped.forEach(({ index, error }) =>
+    console.warn(`[IMPORT] Line ${index} skipped: ${error}`)
+  )
+  console.log(
+    `[IMPORT] ${args.dryRun ? "Would queue" : "Queued"} ${summary.imported} events from ${args.file} into ${config.storagePath} (${summary.duplicate} duplicate, ${summary.invalid.length} invalid, ${summary.skipped.length} refused)`
+  )
+} catch (err) {
+  console.error(`[IMPORT] ${(err as Error).message}`)
+  process.exitCode = 1
+}
@@ -3,206 +3,882 @@
 // =============================================================================
 // A lightweight webhook receiving and processing gateway built with Elysia.js
 // Features:
-//   - JWT signature validation for secure webhook authentication
-//   - In-memory queue with automatic retry mechanism
+//   - HMAC-SHA256 (or JWT) signature validation over the raw request bytes
+//   - Replay protection via timestamp tolerance and delivery-ID dedup
+//   - Batch ingestion (JSON array or NDJSON) and an offline NDJSON import
+//   - Multi-source registry with per-source secrets, schemes and routes
+//   - Key rotation with key IDs, validity windows and an admin API
+//   - Role-based admin authentication via API keys and dashboard sessions
+//   - Outbound forwarding to downstream HTTP targets via route rules
+//   - Per-route payload transforms with a dry-run endpoint
+//   - In-memory queue drained by a background worker with backoff retries
+//   - Dead-letter queue with inspect, replay and purge endpoints
+//   - Pluggable storage (memory or file journal) with crash recovery
+//   - Searchable event log with payloads, headers and attempt history
+//   - Event export (NDJSON or CSV) and a rotating NDJSON event archive
+//   - Event replay by ID, range or filter, with edits, a target and a rate
+//   - Per-event JSON Schema validation with an unknown-event policy
+//   - Prometheus metrics for throughput, backlog and latency
+//   - Live dashboard updates over Server-Sent Events
 //   - Real-time monitoring dashboard with Tailwind CSS
 //   - RESTful API endpoints for integration
 //
 // Technology Stack:
 //   - Runtime: Node.js (via @elysiajs/node adapter)
 //   - Framework: Elysia.js (Bun-first, but Node.js compatible)
-//   - Authentication: JWT (jsonwebtoken)
+//   - Authentication: HMAC-SHA256 (node:crypto) or JWT (jsonwebtoken)
 //   - Frontend: Tailwind CSS (CDN)
 // =============================================================================
 
-import { Elysia, t } from "elysia"
+import { Elysia, t, type Context } from "elysia"
 import { node } from "@elysiajs/node"
 import { html } from "@elysiajs/html"
 import jwt from "jsonwebtoken"
+import { randomBytes, randomUUID } from "node:crypto"
+import { describeConfig, loadConfig, reloadConfig } from "./src/config.js"
+import {
+  PayloadTooLargeError,
+  captureRawBody,
+  getRawBody,
+} from "./src/raw-body.js"
+import {
+  signHmac,
+  validateSignature,
+} from "./src/signature.js"
+import { checkTimestamp, claimDelivery } from "./src/replay.js"
+import {
+  getProvider,
+  verifyProviderSignature,
+  type NormalizedWebhook,
+  type ProviderRequest,
+} from "./src/providers.js"
+import {
+  DEFAULT_SOURCE_ID,
+  IDEMPOTENCY_KEY_HEADER,
+  addKey,
+  currentSigningKey,
+  getSource,
+  isEventAllowed,
+  listSources,
+  loadSources,
+  parseKey,
+  parseTime,
+  toPublicKey,
+  updateKey,
+  verificationKeys,
+  type WebhookSource,
+} from "./src/sources.js"
+import {
+  deliver,
+  getRoute,
+  getTarget,
+  listRoutes,
+  loadRoutes,
+  evaluateRoutes,
+  routeEvent,
+  transformFor,
+  watchRoutes,
+  type DeliveryResult,
+  type ForwardDefaults,
+  type ForwardTarget,
+  type RoutingDecision,
+} from "./src/forwarder.js"
+import { applyTransform, getPath, parseTransform } from "./src/transform.js"
+import { computeBackoff, createWorker } from "./src/worker.js"
+import { createRateLimiter, type RateDecision } from "./src/rate-limit.js"
+import { createCircuitBreakers } from "./src/circuit-breaker.js"
+import { lookupResponse, storeResponse } from "./src/idempotency.js"
+import { outcomeOf, parseBatch, type BatchOutcome } from "./src/batch.js"
+import {
+  createSubscription,
+  deleteSubscription,
+  getSubscription,
+  initSubscriptions,
+  listSubscriptions,
+  recordSubscriptionDelivery,
+  subscriptionDeliveries,
+  subscriptionTarget,
+  subscriptionsFor,
+  toPublicSubscription,
+  updateSubscription,
+} from "./src/subscriptions.js"
+import {
+  addDeadLetter,
+  deadLetterCount,
+  getDeadLetter,
+  initDeadLetters,
+  listDeadLetters,
+  takeDeadLetters,
+  type DeadLetter,
+} from "./src/dead-letter.js"
+import {
+  archiveEvents,
+  exportEvents,
+  getEvent,
+  initEventLog,
+  queryEvents,
+  recordEvent,
+  redactHeaders,
+  replaysOf,
+  selectReplays,
+  updateEvent,
+  type EventRecord,
+} from "./src/event-log.js"
+import {
+  checkEventData,
+  listEventSchemas,
+  loadEventSchemas,
+} from "./src/event-schemas.js"
+import {
+  SESSION_COOKIE,
+  createSession,
+  endSession,
+  getSession,
+  hasAdminKeys,
+  hasRole,
+  loadAdminKeys,
+  verifyApiKey,
+  type Principal,
+  type Role,
+} from "./src/admin-auth.js"
+import {
+  openEventStream,
+  publish,
+  subscriberCount,
+  type LiveEventType,
+} from "./src/live.js"
+import {
+  METRICS_CONTENT_TYPE,
+  createCounter,
+  createGauge,
+  createHistogram,
+  renderMetrics,
+} from "./src/metrics.js"
+import {
+  createMemoryStorage,
+  nextDueItem,
+  releaseInterrupted,
+  type Storage,
+} from "./src/storage.js"
+import { createJournalStorage } from "./src/journal-storage.js"
+import { createArchiver } from "./src/archive.js"
+import { EXPORT_CONTENT_TYPES, exportStream } from "./src/event-export.js"
+import type {
+  DeliveryAttempt,
+  ProcessedEvent,
+  WebhookPayload,
+  WebhookQueueItem,
+} from "./src/types.js"
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
-// Secret key for JWT signing and verification
-// In production, this should be loaded from environment variables:
-//   const SECRET = process.env.JWT_SECRET || 'fallback-secret'
-const SECRET = "super-secret-signature"
+// All settings come from src/config.ts: environment variables, then the
+// optional config file, then defaults. Invalid values abort startup with a
+// list of every problem. SIGHUP re-reads them (see CONFIG RELOAD below).
+
+/**
+ * Config file with settings (YAML, or JSON if it ends in .json)
+ */
+const CONFIG_FILE = process.env.CONFIG_FILE || "gateway.config.yaml"
+
+/**
+ * Effective settings; reloadable ones are updated in place on SIGHUP, so
+ * they are read from here at the time of use
+ */
+const config = loadConfig(CONFIG_FILE)
+
+if (describeConfig(config).settings.webhookSecret?.origin === "default") {
+  console.warn(
+    "[CONFIG] WEBHOOK_SECRET is not set; the default source uses the " +
+      "built-in development secret"
+  )
+}
+
+/**
+ * Header carrying the sender's unique delivery ID
+ */
+const DELIVERY_ID_HEADER = "x-webhook-id"
+
+/**
+ * Response header marking a stored response returned for a repeated
+ * idempotency key
+ */
+const IDEMPOTENT_REPLAYED_HEADER = "idempotent-replayed"
+
+/**
+ * Longest idempotency key accepted
+ */
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255
+
+/**
+ * Most events one POST /events/replay may resend
+ */
+const MAX_REPLAY_EVENTS = 1000
 
 // =============================================================================
-// TYPE DEFINITIONS
+// DATA STORES
 // =============================================================================
+// Queue, history and DLQ live in the configured Storage backend (see
+// src/storage.ts). For multi-instance deployments, consider Redis or a
+// proper message queue (e.g., RabbitMQ, AWS SQS) instead.
 
 /**
- * Webhook payload structure
- * @property event - Event type identifier (e.g., "user.created", "order.completed")
- * @property data - Arbitrary event data payload
+ * Storage backend for the queue, processed-event history, event log and DLQ
+ * Queue items are owned by the background worker; see claimNextItem and
+ * processItem. Claimed items stay in the queue (so they show in stats) with
+ * `claimedAt` set until their attempt completes.
  */
-interface WebhookPayload {
-  event: string
-  data: any
+const storageLimits = {
+  historyLimit: config.historyLimit,
+  eventLimit: config.eventLogLimit,
 }
+const storage: Storage =
+  config.storageDriver === "memory"
+    ? createMemoryStorage(storageLimits)
+    : createJournalStorage({ path: config.storagePath, ...storageLimits })
+initEventLog(storage)
+initDeadLetters(storage)
+initSubscriptions(storage)
 
 /**
- * Queue item wrapper for webhook processing
- * @property payload - The original webhook payload
- * @property retries - Number of processing attempts made
- * @property addedAt - Timestamp when item was added to queue (Unix ms)
+ * Long-term copy of the event log in rotating NDJSON files, if ARCHIVE_DIR
+ * is set (see src/archive.ts)
  */
-interface WebhookQueueItem {
-  payload: WebhookPayload
-  retries: number
-  addedAt: number
-}
+const archiver =
+  config.archiveDir !== undefined
+    ? createArchiver({
+        dir: config.archiveDir,
+        maxFileBytes: config.archiveMaxFileBytes,
+        gzip: config.archiveGzip,
+        retentionDays: config.archiveRetentionDays,
+      })
+    : undefined
+if (archiver) archiveEvents(archiver.write)
+
+// =============================================================================
+// METRICS
+// =============================================================================
+// Exposed at GET /metrics. Counters and histograms are in memory and reset on
+// restart, as Prometheus expects; gauges read the current state on scrape.
 
 /**
- * Processed event record for history tracking
- * @property event - Event type that was processed
- * @property status - Processing result ('success' | 'failed')
- * @property timestamp - When the event was processed (Unix ms)
+ * Webhooks addressed to a known source whose signature checked out, before
+ * the content checks
  */
-interface ProcessedEvent {
-  event: string
-  status: "success" | "failed"
-  timestamp: number
-}
+const receivedCounter = createCounter(
+  "webhook_gateway_received_total",
+  "Authenticated webhooks received for a registered source",
+  ["event", "source"]
+)
+
+/**
+ * Webhooks refused at ingress
+ * reason: signature | timestamp | event_not_allowed | schema | unknown_event |
+ *   duplicate | payload_too_large | rate_limit_ip | rate_limit_source |
+ *   backpressure | idempotency_conflict
+ */
+const rejectedCounter = createCounter(
+  "webhook_gateway_rejected_total",
+  "Webhooks rejected at ingress",
+  ["event", "source", "reason"]
+)
+
+/**
+ * Repeated idempotency keys answered with the stored response
+ */
+const idempotentReplayCounter = createCounter(
+  "webhook_gateway_idempotent_replays_total",
+  "Repeated requests answered with the response stored for their key",
+  ["event", "source"]
+)
+
+/**
+ * Queue item outcomes
+ */
+const deliveredCounter = createCounter(
+  "webhook_gateway_delivered_total",
+  "Webhooks delivered to every target",
+  ["event", "source"]
+)
+const retriedCounter = createCounter(
+  "webhook_gateway_retried_total",
+  "Failed delivery attempts scheduled for a retry",
+  ["event", "source"]
+)
+const deadLetteredCounter = createCounter(
+  "webhook_gateway_dead_lettered_total",
+  "Webhooks moved to the dead-letter queue",
+  ["event", "source"]
+)
+
+/**
+ * Attempts postponed because every remaining target's breaker was open
+ */
+const pausedCounter = createCounter(
+  "webhook_gateway_paused_total",
+  "Delivery attempts postponed by an open circuit breaker",
+  ["event", "source"]
+)
+
+/**
+ * Circuit breaker state changes
+ * state: the new state (closed | open | half-open)
+ */
+const breakerTransitionsCounter = createCounter(
+  "webhook_gateway_breaker_transitions_total",
+  "Circuit breaker state changes per forwarding target",
+  ["target", "state"]
+)
+
+/**
+ * Webhooks discarded by a drop routing rule
+ */
+const droppedCounter = createCounter(
+  "webhook_gateway_dropped_total",
+  "Webhooks discarded by a drop routing rule",
+  ["event", "source", "route"]
+)
+
+/**
+ * Webhooks without a schema held back by the quarantine policy
+ */
+const quarantinedCounter = createCounter(
+  "webhook_gateway_quarantined_total",
+  "Webhooks accepted but not delivered because no schema is registered",
+  ["event", "source"]
+)
+
+/**
+ * Logged webhooks sent again through POST /events/replay
+ */
+const replayedCounter = createCounter(
+  "webhook_gateway_replayed_total",
+  "Logged webhooks queued again as replays",
+  ["event", "source"]
+)
+
+/**
+ * Time from enqueue to successful delivery, including retries
+ */
+const endToEndHistogram = createHistogram(
+  "webhook_gateway_end_to_end_seconds",
+  "Time from enqueue to delivery to every target",
+  ["event", "source"],
+  [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 300, 900, 3600]
+)
+
+/**
+ * Duration of each downstream HTTP call
+ * outcome: success (2xx) | failure
+ */
+const downstreamHistogram = createHistogram(
+  "webhook_gateway_downstream_duration_seconds",
+  "Duration of forwarding requests to downstream targets",
+  ["target", "outcome"]
+)
+
+createGauge(
+  "webhook_gateway_queue_depth",
+  "Items waiting in the queue, including in-flight ones",
+  () => storage.queueItems().length
+)
+createGauge(
+  "webhook_gateway_queue_in_flight",
+  "Items currently being delivered",
+  () => worker.inFlight()
+)
+createGauge(
+  "webhook_gateway_queue_oldest_age_seconds",
+  "Age of the oldest queued item (0 when the queue is empty)",
+  () => {
+    // Queue order is not age order: retries, scheduled replays and ordering
+    // partitions move items around, so look at every one
+    const oldest = storage
+      .queueItems()
+      .reduce((min, item) => Math.min(min, item.addedAt), Infinity)
+    return oldest === Infinity ? 0 : (Date.now() - oldest) / 1000
+  }
+)
+createGauge(
+  "webhook_gateway_dead_letters",
+  "Entries in the dead-letter queue",
+  () => deadLetterCount()
+)
+createGauge(
+  "webhook_gateway_breakers_open",
+  "Forwarding targets whose circuit breaker is not closed",
+  () => breakerStatuses().filter(({ state }) => state !== "closed").length
+)
+
+/**
+ * Metric labels identifying a webhook
+ */
+const eventLabels = ({ payload }: { payload: WebhookPayload }) => ({
+  event: payload.event,
+  source: payload.source,
+})
 
 // =============================================================================
-// IN-MEMORY DATA STORES
+// CIRCUIT BREAKERS
 // =============================================================================
-// Note: In production, consider using Redis or a proper message queue
-// (e.g., RabbitMQ, AWS SQS) for persistence and scalability
+// One breaker per delivery target (see src/circuit-breaker.ts). While a
+// target's breaker is open, queue items waiting on it are put back without
+// using up a retry; when it closes they become due again at once.
 
 /**
- * Webhook processing queue
- * Items are added when webhooks are received and removed after processing
+ * Makes the paused queue items waiting on a target due now
+ *
+ * @param target - Target whose breaker closed
+ * @sideeffect Writes the items to storage and wakes the worker
  */
-const queue: WebhookQueueItem[] = []
+const resumePausedItems = (target: string): void => {
+  const now = Date.now()
+  const resumed = storage
+    .queueItems()
+    .filter((item) => item.paused && item.pendingTargets?.includes(target))
+  resumed.forEach((item) => {
+    item.nextAttemptAt = Math.min(item.nextAttemptAt, now)
+    storage.putQueueItem(item)
+  })
+  if (resumed.length > 0) {
+    console.log(`[BREAKER] Resuming ${resumed.length} paused items for ${target}`)
+    worker.wake()
+  }
+}
 
 /**
- * History of processed events for monitoring dashboard
- * Maintains a rolling window of recent events (max 20)
+ * Breakers for every forwarding target
+ * Thresholds are read from the config on each call, so SIGHUP applies them
  */
-const processedEvents: ProcessedEvent[] = []
+const breakers = createCircuitBreakers(
+  () => ({
+    failureThreshold: config.breakerFailureThreshold,
+    cooldownMs: config.breakerCooldownMs,
+  }),
+  (target, from, to, reason) => {
+    const log = to === "open" ? console.warn : console.log
+    log(`[BREAKER] ${target}: ${from} -> ${to} (${reason})`)
+    breakerTransitionsCounter.inc({ target, state: to })
+    publish("breaker", breakers.status(target))
+    if (to === "closed") resumePausedItems(target)
+  }
+)
 
 /**
- * Maximum retry attempts before dropping a failed webhook
- * After MAX_RETRIES failures, the webhook is logged and discarded
+ * Breaker status of every configured forwarding target and subscription
  */
-const MAX_RETRIES = 3
+const breakerStatuses = () =>
+  [...listRoutes().targets, ...listSubscriptions()].map(({ id }) =>
+    breakers.status(id)
+  )
 
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
 
 /**
- * Validates the JWT signature from incoming webhook requests
+ * Adds an entry to the processed-events history
+ * Newest entries first; the oldest is dropped beyond HISTORY_LIMIT (rolling
+ * window) to prevent unbounded growth in long-running processes
+ *
+ * @sideeffect Writes to storage
+ */
+const recordProcessedEvent = (entry: ProcessedEvent): void => {
+  storage.addHistory(entry)
+}
+
+/**
+ * Publishes queue activity to live dashboard clients
+ * Every message carries the global counters, so clients need not poll
  *
- * Security Flow:
- * 1. Check if signature header exists
- * 2. Verify JWT token against secret key
- * 3. Token must be valid and not expired
+ * @param type - What happened
+ * @param eventId - Event log ID of the webhook
+ * @param payload - The webhook
+ * @param details - Extra fields for this event type
+ */
+const broadcast = (
+  type: LiveEventType,
+  eventId: string,
+  payload: WebhookPayload,
+  details: object = {}
+): void => {
+  if (subscriberCount() === 0) return
+  publish(type, {
+    eventId,
+    event: payload.event,
+    source: payload.source,
+    at: Date.now(),
+    ...details,
+    stats: {
+      queueLength: storage.queueItems().length,
+      inFlight: worker.inFlight(),
+      processedCount: storage.history().length,
+      deadLetterCount: deadLetterCount(),
+    },
+  })
+}
+
+/**
+ * Looks up a delivery target: a route target or a subscription
+ * Subscriptions use the default forwarding timeout.
+ */
+const resolveTarget = (id: string): ForwardTarget | undefined =>
+  getTarget(id) ?? subscriptionTarget(id, config.forwardTimeoutMs)
+
+/**
+ * Delivers a queue item to its pending forwarding targets
  *
- * @param payload - Raw JSON string of request body (used for HMAC in future)
- * @param signature - JWT token from 'x-signature' header
- * @returns boolean - True if signature is valid, false otherwise
+ * Targets are chosen by the routing rules when the webhook is accepted
+ * (items queued without them, e.g. by the offline import, are routed, with
+ * their matching subscriptions, on their first attempt); each attempt only
+ * retries targets that have not yet returned 2xx. An item with no targets
+ * is complete immediately. Each target receives the payload as reshaped by
+ * its rule's transform (per the current rules), with the event's routing
+ * tags; replays also name the event they replay.
  *
- * @example
- * // Valid token generated with same SECRET
- * validateSignature('{"event":"test"}', 'eyJhbGciOiJI...') // true
+ * Targets whose circuit breaker is open are skipped and stay pending; the
+ * outcome of every delivery made is recorded on the target's breaker, and
+ * in the delivery history of subscription targets.
  *
- * // Invalid or expired token
- * validateSignature('{"event":"test"}', 'invalid-token') // false
+ * @param item - Queue item to deliver (pendingTargets is updated in place)
+ * @returns string[] - Targets skipped because their breaker is open
+ * @throws Error summarising the failed targets if any delivery failed
  */
-const validateSignature = (_payload: string, signature: string): boolean => {
-  // Early return if no signature provided
-  if (!signature) return false
+const forwardToTargets = async (item: WebhookQueueItem): Promise<string[]> => {
+  const decision = evaluateRoutes(item.payload, item.headers)
+  const pendingTargets = (item.pendingTargets ??= [
+    ...decision.targets,
+    ...subscriptionsFor(item.payload.event),
+  ])
+  if (pendingTargets.length === 0) {
+    console.log(`[QUEUE] No route for ${item.payload.event}, nothing to forward`)
+    return []
+  }
 
-  try {
-    // Verify JWT token using the shared secret
-    // This checks: valid format, correct signature, not expired
-    jwt.verify(signature, SECRET)
-    return true
-  } catch {
-    // Token is invalid, expired, or malformed
-    return false
+  // Asked once per target, as a half-open breaker hands out a single trial
+  const paused = pendingTargets.filter(
+    (id) => resolveTarget(id) && !breakers.allow(id)
+  )
+  const attempted = pendingTargets.filter((id) => !paused.includes(id))
+
+  const event = getEvent(item.eventId)
+  const meta = {
+    eventId: item.eventId,
+    deliveryId: item.deliveryId,
+    receivedAt: event?.receivedAt ?? item.addedAt,
+  }
+  const results = await Promise.all(
+    attempted.map((id): Promise<DeliveryResult> => {
+      const target = resolveTarget(id)
+      // A target removed from the config (or a deleted subscription) since
+      // routing is treated as done
+      if (!target) {
+        return Promise.resolve({ target: id, ok: true, durationMs: 0 })
+      }
+
+      const steps = transformFor(decision, id)
+      return deliver(target, item.payload, {
+        deliveryId: item.deliveryId,
+        replayOf: item.replayOf,
+        ...(event?.tags && { tags: event.tags }),
+        ...(steps && { content: applyTransform(steps, item.payload, meta) }),
+      }).then((result) => {
+        // A request that was never sent says nothing about the target
+        if (result.ok) breakers.success(id)
+        else if (result.unsent) breakers.release(id)
+        else breakers.failure(id, result.error ?? `HTTP ${result.status}`)
+        if (getSubscription(id)) {
+          const { target: _target, ...outcome } = result
+          recordSubscriptionDelivery(id, {
+            ...outcome,
+            eventId: item.eventId,
+            event: item.payload.event,
+            at: Date.now(),
+            ...(item.deliveryId && { deliveryId: item.deliveryId }),
+          })
+        }
+        return result
+      })
+    })
+  )
+
+  results.forEach((result) => {
+    console.log(
+      `[FORWARD] ${item.payload.event} -> ${result.target}: ` +
+        (result.ok ? `${result.status} in ${result.durationMs}ms` : result.error)
+    )
+    downstreamHistogram.observe(
+      { target: result.target, outcome: result.ok ? "success" : "failure" },
+      result.durationMs / 1000
+    )
+  })
+
+  const failed = results.filter((result) => !result.ok)
+  item.pendingTargets = [...failed.map((result) => result.target), ...paused]
+  if (failed.length > 0) {
+    throw new Error(
+      failed.map((result) => `${result.target}: ${result.error}`).join("; ")
+    )
+  }
+  return paused
+}
+
+/**
+ * Claims the next queue item that is due for an attempt (see nextDueItem)
+ *
+ * @returns WebhookQueueItem or undefined if nothing is due
+ */
+const claimNextItem = (): WebhookQueueItem | undefined => {
+  const now = Date.now()
+  const item = nextDueItem(storage.queueItems(), now)
+  if (item) {
+    // Persisted so a crash mid-attempt is detected on the next startup
+    item.claimedAt = now
+    storage.putQueueItem(item)
   }
+  return item
+}
+
+/**
+ * Puts a queue item back until a breaker of its remaining targets may let
+ * a delivery through
+ * Unlike a failed attempt this uses no retry and adds no attempt record.
+ *
+ * @param item - Item whose remaining targets all have open breakers
+ * @param targets - Those targets
+ * @sideeffect Writes the queue item to storage
+ */
+const pauseItem = (item: WebhookQueueItem, targets: string[]): void => {
+  item.paused = true
+  item.nextAttemptAt = Math.min(...targets.map(breakers.retryAt))
+  delete item.claimedAt
+  storage.putQueueItem(item)
+  pausedCounter.inc(eventLabels(item))
+  broadcast("paused", item.eventId, item.payload, {
+    targets,
+    nextAttemptAt: item.nextAttemptAt,
+  })
+  console.log(
+    `[QUEUE] Paused ${item.payload.event}, waiting on breaker: ${targets.join(", ")}`
+  )
 }
 
 /**
- * Processes all items currently in the webhook queue
+ * Makes one delivery attempt for a queue item
  *
  * Processing Logic:
- * 1. Iterate through queue items
- * 2. Attempt to process each webhook
- * 3. On success: remove from queue, add to history
- * 4. On failure: increment retry counter
- * 5. If max retries exceeded: drop item and log failure
- *
- * Note: In production, this would typically:
- * - Forward webhooks to downstream services
- * - Store in database for audit trail
- * - Trigger async workers for heavy processing
- *
- * @sideeffect Modifies queue[] and processedEvents[] arrays
- */
-const processQueue = (): void => {
-  // Process each item in the queue
-  // Using forEach with index for in-place removal
-  queue.forEach((item, index) => {
-    try {
-      // Log processing attempt (replace with actual webhook forwarding logic)
-      console.log(`[QUEUE] Processing event: ${item.payload.event}`)
+ * 1. Forward the webhook to its downstream targets
+ * 2. On success: remove from queue, add to history
+ * 3. On failure: increment retry counter and schedule the next attempt
+ *    with exponential backoff and jitter
+ * 4. If max retries exceeded: move item to the dead-letter queue
+ * 5. If only targets with an open circuit breaker remain: pause the item
+ *    until a breaker may let it through, without counting an attempt
+ * Every attempt is also appended to the item's event log record.
+ *
+ * @sideeffect Writes the queue item, history, event log and DLQ to storage
+ */
+const processItem = async (item: WebhookQueueItem): Promise<void> => {
+  try {
+    console.log(`[QUEUE] Processing event: ${item.payload.event}`)
+    broadcast("attempt", item.eventId, item.payload, {
+      attempt: item.retries + 1,
+    })
+    delete item.paused
+    const paused = await forwardToTargets(item)
+    if (paused.length > 0) {
+      pauseItem(item, paused)
+      return
+    }
+    const attempt: DeliveryAttempt = { at: Date.now(), ok: true }
+    item.attempts.push(attempt)
+    updateEvent(item.eventId, "delivered", attempt)
+    deliveredCounter.inc(eventLabels(item))
+    endToEndHistogram.observe(
+      eventLabels(item),
+      (attempt.at - item.addedAt) / 1000
+    )
+
+    // Record successful processing in history
+    recordProcessedEvent({
+      event: item.payload.event,
+      source: item.payload.source,
+      status: "success",
+      timestamp: Date.now(),
+      ...(item.deliveryId && { deliveryId: item.deliveryId }),
+    })
+
+    // Remove processed item from queue
+    storage.removeQueueItem(item.id)
+    broadcast("success", item.eventId, item.payload, {
+      attempt: item.retries + 1,
+    })
+  } catch (err) {
+    // Processing failed - increment retry counter
+    item.retries++
+    item.lastError = (err as Error).message
+    const attempt: DeliveryAttempt = {
+      at: Date.now(),
+      ok: false,
+      error: item.lastError,
+    }
+    item.attempts.push(attempt)
+    console.error(
+      `[QUEUE] Failed to process ${item.payload.event}, attempt ${item.retries}/${config.maxRetries}`
+    )
 
-      // Simulate successful processing
-      // In production: await forwardToService(item.payload)
+    // Check if max retries exceeded
+    if (item.retries >= config.maxRetries) {
+      const entry = addDeadLetter(item)
+      updateEvent(item.eventId, "dead-lettered", attempt)
+      deadLetteredCounter.inc(eventLabels(item))
+      console.error(
+        `[QUEUE] Dead-lettered ${item.payload.event} after ${config.maxRetries} attempts (${entry.id})`
+      )
 
-      // Record successful processing in history
-      processedEvents.unshift({
+      // Record failure in history
+      recordProcessedEvent({
         event: item.payload.event,
-        status: "success",
+        source: item.payload.source,
+        status: "failed",
         timestamp: Date.now(),
+        error: item.lastError,
+        ...(item.deliveryId && { deliveryId: item.deliveryId }),
       })
 
-      // Maintain history size limit (rolling window)
-      // Prevents memory growth in long-running processes
-      if (processedEvents.length > 20) {
-        processedEvents.pop()
-      }
-
-      // Remove processed item from queue
-      queue.splice(index, 1)
-    } catch (err) {
-      // Processing failed - increment retry counter
-      item.retries++
-      console.error(
-        `[QUEUE] Failed to process ${item.payload.event}, attempt ${item.retries}/${MAX_RETRIES}`
+      // Remove failed item from queue; the DLQ now holds it
+      storage.removeQueueItem(item.id)
+      broadcast("dead-letter", item.eventId, item.payload, {
+        error: item.lastError,
+        deadLetterId: entry.id,
+      })
+    } else {
+      // Retries remaining: wait out the backoff before the next attempt
+      const delay = computeBackoff(
+        item.retries,
+        config.retryBaseDelayMs,
+        config.retryMaxDelayMs
       )
+      item.nextAttemptAt = Date.now() + delay
+      delete item.claimedAt
+      storage.putQueueItem(item)
+      updateEvent(item.eventId, "queued", attempt)
+      retriedCounter.inc(eventLabels(item))
+      broadcast("failure", item.eventId, item.payload, {
+        attempt: item.retries,
+        error: item.lastError,
+        nextAttemptAt: item.nextAttemptAt,
+      })
+      console.log(`[QUEUE] Retrying ${item.payload.event} in ${delay}ms`)
+    }
+  }
+}
 
-      // Check if max retries exceeded
-      if (item.retries >= MAX_RETRIES) {
-        console.error(
-          `[QUEUE] Dropping failed webhook after ${MAX_RETRIES} attempts:`,
-          item.payload
-        )
+/**
+ * Background worker that owns the queue
+ * Started once the HTTP server is listening; drained on shutdown
+ */
+const worker = createWorker({
+  concurrency: config.workerConcurrency,
+  pollIntervalMs: config.workerPollIntervalMs,
+  claim: claimNextItem,
+  run: processItem,
+})
 
-        // Record failure in history
-        processedEvents.unshift({
-          event: item.payload.event,
-          status: "failed",
-          timestamp: Date.now(),
-        })
+/**
+ * Adds a logged webhook to the processing queue
+ *
+ * @param event - Event log record to deliver
+ * @param pendingTargets - Fixed target list; omit to resolve from routes
+ * @param orderingKey - Ordering partition (optional)
+ * @param dueAt - Earliest first attempt (Unix ms; default now)
+ * @returns WebhookQueueItem - The queued item
+ * @sideeffect Writes the item to storage and wakes the worker
+ */
+const enqueue = (
+  event: EventRecord,
+  pendingTargets?: string[],
+  orderingKey?: string,
+  dueAt?: number
+): WebhookQueueItem => {
+  const now = Date.now()
+  const item: WebhookQueueItem = {
+    id: randomUUID(),
+    eventId: event.id,
+    payload: event.payload,
+    headers: event.headers,
+    attempts: [],
+    retries: 0,
+    addedAt: now,
+    nextAttemptAt: dueAt ?? now,
+    ...(event.deliveryId && { deliveryId: event.deliveryId }),
+    ...(pendingTargets && { pendingTargets }),
+    ...(orderingKey !== undefined && { orderingKey }),
+    ...(event.replayOf && { replayOf: event.replayOf }),
+  }
+  storage.putQueueItem(item)
+  broadcast("enqueue", event.id, event.payload)
 
-        // Remove failed item from queue
-        queue.splice(index, 1)
-      }
-      // If retries remaining, item stays in queue for next processing cycle
-    }
-  })
+  // Nudge the worker; delivery happens after the response is sent
+  worker.wake()
+  return item
 }
 
 // =============================================================================
 // APPLICATION INITIALIZATION
 // =============================================================================
+// Load the source registry before serving; a malformed file aborts startup
+// with a message naming the offending entry
+loadSources(config.sourcesFile, {
+  id: DEFAULT_SOURCE_ID,
+  keys: [
+    { kid: "primary", secret: config.webhookSecret, status: "active", createdAt: Date.now() },
+  ],
+  scheme: config.signatureScheme,
+  signatureHeader: "x-signature",
+  keyIdHeader: "x-signature-kid",
+  idempotencyKeyHeader: IDEMPOTENCY_KEY_HEADER,
+})
+
+// Load forwarding routes; targets without their own secret sign with
+// FORWARD_SECRET (default: WEBHOOK_SECRET). Later edits to the file are
+// picked up while running, and SIGHUP applies a new default timeout.
+const routeDefaults: ForwardDefaults = {
+  timeoutMs: config.forwardTimeoutMs,
+  secret: config.forwardSecret ?? config.webhookSecret,
+}
+loadRoutes(config.routesFile, routeDefaults)
+watchRoutes(config.routesFile, routeDefaults)
+
+// Load per-event data schemas; an unsupported keyword aborts startup rather
+// than silently skipping a constraint
+loadEventSchemas(config.eventSchemasFile)
+
+// Load admin credentials. Without any key the admin API stays locked,
+// unless DEV_MODE opens it for local development.
+if (loadAdminKeys(config.adminKeysFile, config.adminApiKey) === 0) {
+  console.warn(
+    config.devMode
+      ? "[AUTH] No admin keys and DEV_MODE=true: admin API and dashboard are open"
+      : "[AUTH] No admin keys: admin API and dashboard are locked " +
+          "(set ADMIN_API_KEY or ADMIN_KEYS_FILE)"
+  )
+}
+
+// Recover queue items left by a previous run; those interrupted
+// mid-delivery are due again (see releaseInterrupted)
+const recovered = storage.queueItems().length
+const interrupted = releaseInterrupted(storage)
+interrupted.forEach(({ item, attempt }) =>
+  updateEvent(item.eventId, "queued", attempt)
+)
+if (recovered > 0) {
+  console.log(
+    `[STORAGE] Recovered ${recovered} queued items (${interrupted.length} interrupted mid-delivery)`
+  )
+}
+
 // Create Elysia app instance with Node.js adapter
 // The adapter allows Elysia (originally Bun-first) to run on Node.js runtime
 
@@ -210,6 +886,224 @@ const app = new Elysia({
   adapter: node(), // Enable Node.js compatibility layer
 }).use(html()) // Enable HTML response support for dashboard
 
+// =============================================================================
+// ACCESS CONTROL
+// =============================================================================
+// Every route needs an admin credential with at least the role listed here;
+// webhook senders authenticate with their own signatures instead. Routes
+// missing from the table require the admin role, so a new endpoint is never
+// public by accident.
+
+/**
+ * Minimum role per route ("METHOD /pattern"), or "public" for no login
+ */
+const ROUTE_ACCESS = new Map<string, Role | "public">([
+  ["POST /webhook", "public"],
+  ["POST /webhook/:source", "public"],
+  ["POST /webhook/:source/batch", "public"],
+  ["GET /health", "public"],
+  ["POST /auth/login", "public"],
+  ["POST /auth/logout", "public"],
+  ["GET /auth/me", "viewer"],
+  ["GET /", "viewer"],
+  ["GET /queue-status", "viewer"],
+  ["GET /sources", "viewer"],
+  ["GET /event-schemas", "viewer"],
+  ["GET /routes", "viewer"],
+  ["GET /breakers", "viewer"],
+  ["GET /subscriptions", "viewer"],
+  ["GET /subscriptions/:id", "viewer"],
+  ["GET /subscriptions/:id/deliveries", "viewer"],
+  ["POST /transform/dry-run", "viewer"],
+  ["GET /events", "viewer"],
+  ["GET /events/stream", "viewer"],
+  ["GET /events/export", "viewer"],
+  ["GET /events/:id", "viewer"],
+  ["GET /dead-letters", "viewer"],
+  ["GET /dead-letters/:id", "viewer"],
+  ["GET /metrics", "viewer"],
+  ["POST /routes/reload", "operator"],
+  ["POST /breakers/:target/open", "operator"],
+  ["POST /breakers/:target/close", "operator"],
+  ["POST /publish", "operator"],
+  ["POST /events/replay", "operator"],
+  ["POST /dead-letters/:id/replay", "operator"],
+  ["POST /dead-letters/replay", "operator"],
+  ["DELETE /dead-letters/:id", "operator"],
+  ["DELETE /dead-letters", "operator"],
+  ["GET /generate-test-token", "operator"],
+  ["POST /generate-test-signature", "operator"],
+])
+
+/**
+ * Identifies the caller from an API key or the dashboard session cookie
+ *
+ * Keys are read from `Authorization: Bearer <key>` or `x-api-key`. With no
+ * keys configured, DEV_MODE lets everyone in as admin.
+ *
+ * @returns Principal or undefined if unauthenticated
+ */
+const authenticate = ({
+  headers,
+  cookie,
+}: Pick<Context, "headers" | "cookie">): Principal | undefined => {
+  if (!hasAdminKeys()) {
+    return config.devMode
+      ? { id: "dev", role: "admin", via: "dev-mode" }
+      : undefined
+  }
+
+  const bearer = headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1]
+  const apiKey = bearer ?? headers["x-api-key"]
+  if (apiKey) return verifyApiKey(apiKey)
+
+  const session = cookie[SESSION_COOKIE]?.value
+  return typeof session === "string" ? getSession(session) : undefined
+}
+
+/**
+ * Login form served at / to visitors without a session
+ */
+const loginPage = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Webhook Gateway - Sign in</title>
+  <script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="bg-slate-950 text-slate-200 min-h-screen flex items-center justify-center">
+  <form id="loginForm" class="w-full max-w-sm p-6 bg-slate-900 border border-slate-800 rounded-xl space-y-4">
+    <div class="flex items-center gap-3">
+      <span class="text-3xl">📬</span>
+      <h1 class="text-xl font-bold text-white">Webhook Gateway</h1>
+    </div>
+    <label class="block text-sm text-slate-400">
+      Admin API key
+      <input id="key" type="password" autocomplete="current-password" required
+        class="mt-1 w-full px-3 py-2 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 focus:outline-none focus:border-indigo-500">
+    </label>
+    <p id="loginError" class="hidden text-sm text-red-400"></p>
+    <button class="w-full py-2 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white font-medium">Sign in</button>
+  </form>
+  <script>
+    document.getElementById('loginForm').addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const res = await fetch('/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: document.getElementById('key').value })
+      });
+      if (res.ok) return location.reload();
+      const error = document.getElementById('loginError');
+      error.textContent = (await res.json()).error;
+      error.classList.remove('hidden');
+    });
+  </script>
+</body>
+</html>
+`
+
+// Checked before every handler. Unauthenticated callers get 401 (the
+// dashboard shows the login form instead); a role below the route's
+// requirement gets 403.
+app.onBeforeHandle(({ request, route, headers, cookie, set }) => {
+  const required = ROUTE_ACCESS.get(`${request.method} ${route}`) ?? "admin"
+  if (required === "public") return
+
+  const principal = authenticate({ headers, cookie })
+  if (!principal) {
+    if (route === "/" && request.method === "GET") {
+      return new Response(loginPage, {
+        status: 401,
+        headers: { "content-type": "text/html; charset=utf-8" },
+      })
+    }
+    set.status = 401
+    set.headers["www-authenticate"] = "Bearer"
+    return {
+      error: hasAdminKeys()
+        ? "Authentication required"
+        : "Admin access is disabled: set ADMIN_API_KEY or ADMIN_KEYS_FILE",
+    }
+  }
+
+  if (!hasRole(principal.role, required)) {
+    set.status = 403
+    return { error: `Requires the ${required} role (you are ${principal.role})` }
+  }
+})
+
+/**
+ * POST /auth/login
+ *
+ * Exchanges an admin API key for a dashboard session cookie
+ * (HttpOnly, SameSite=Strict; Secure when served over HTTPS)
+ *
+ * Request Body:
+ *   - key: string - Admin API key
+ *
+ * Responses:
+ *   - 200: { id, role } - Session started
+ *   - 401: Unknown key
+ */
+app.post(
+  "/auth/login",
+  ({ body, cookie, request, headers, set }) => {
+    const principal = verifyApiKey(body.key)
+    if (!principal) {
+      set.status = 401
+      return { error: "Invalid API key" }
+    }
+
+    const ttlMs = config.adminSessionTtlSeconds * 1000
+    const secure =
+      new URL(request.url).protocol === "https:" ||
+      headers["x-forwarded-proto"] === "https"
+    cookie[SESSION_COOKIE]!.set({
+      value: createSession(principal, ttlMs),
+      httpOnly: true,
+      sameSite: "strict",
+      path: "/",
+      maxAge: config.adminSessionTtlSeconds,
+      secure,
+    })
+
+    console.log(`[AUTH] ${principal.id} (${principal.role}) logged in`)
+    return { id: principal.id, role: principal.role }
+  },
+  { body: t.Object({ key: t.String() }) }
+)
+
+/**
+ * POST /auth/logout
+ *
+ * Ends the dashboard session and clears its cookie
+ */
+app.post("/auth/logout", ({ cookie }) => {
+  const session = cookie[SESSION_COOKIE]!
+  if (typeof session.value === "string") endSession(session.value)
+  session.remove()
+  return { ok: true }
+})
+
+/**
+ * GET /auth/me
+ *
+ * Returns the authenticated caller
+ *
+ * Response:
+ *   - id: string - Key holder
+ *   - role: string - viewer, operator or admin
+ *   - via: string - api-key, session or dev-mode
+ *   - devMode: boolean - Whether test endpoints are enabled
+ */
+app.get("/auth/me", (context) => ({
+  ...authenticate(context)!,
+  devMode: config.devMode,
+}))
+
 // =============================================================================
 // DASHBOARD UI ROUTE
 // =============================================================================
@@ -290,6 +1184,11 @@ app.get(
           <span class="w-2 h-2 bg-emerald-400 rounded-full animate-pulse"></span>
           Online
         </span>
+        <!-- Signed-in key holder and role, filled from /auth/me -->
+        <span id="whoami" class="px-3 py-1.5 bg-slate-800 text-slate-400 rounded-full text-sm"></span>
+        <button id="logoutBtn" onclick="logout()" class="hidden px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-full text-sm text-slate-300">
+          Log out
+        </button>
       </div>
     </div>
   </header>
@@ -305,11 +1204,12 @@ app.get(
       <div class="flex flex-wrap items-center gap-4 text-sm">
         <div class="flex items-center gap-2">
           <span class="px-2 py-1 bg-indigo-500 text-white rounded font-mono font-bold text-xs">POST</span>
-          <code class="text-indigo-300">/webhook</code>
+          <code class="text-indigo-300">/webhook/:source</code>
         </div>
         <div class="text-slate-500">|</div>
         <div class="text-slate-400">
-          Header: <code class="text-indigo-300 bg-slate-800/50 px-2 py-0.5 rounded">x-signature: &lt;JWT&gt;</code>
+          Header: <code class="text-indigo-300 bg-slate-800/50 px-2 py-0.5 rounded">x-signature: ${config.signatureScheme === "jwt" ? "&lt;JWT&gt;" : "sha256=&lt;HMAC of raw body&gt;"}</code>
+          <span class="text-slate-500">(header and scheme configurable per source)</span>
         </div>
       </div>
     </div>
@@ -352,8 +1252,45 @@ app.get(
             </div>
           </div>
 
+          <!-- Provider Samples -->
+          <!-- Real provider payloads, signed the way the provider signs -->
+          <div class="mb-4">
+            <label class="block text-sm text-slate-500 mb-2">Provider Samples</label>
+            <div class="flex flex-wrap gap-2">
+              <button onclick="loadProviderSample('github')"
+                class="px-3 py-1.5 text-sm bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg transition-colors">
+                GitHub
+              </button>
+              <button onclick="loadProviderSample('stripe')"
+                class="px-3 py-1.5 text-sm bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg transition-colors">
+                Stripe
+              </button>
+              <button onclick="loadProviderSample('slack')"
+                class="px-3 py-1.5 text-sm bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg transition-colors">
+                Slack
+              </button>
+              <button onclick="loadProviderSample('shopify')"
+                class="px-3 py-1.5 text-sm bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg transition-colors">
+                Shopify
+              </button>
+              <button onclick="loadProviderSample('twilio')"
+                class="px-3 py-1.5 text-sm bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg transition-colors">
+                Twilio
+              </button>
+            </div>
+          </div>
+
           <!-- Form Input Fields -->
-          <div class="grid md:grid-cols-2 gap-4 mb-4">
+          <div class="grid md:grid-cols-3 gap-4 mb-4">
+            <!-- Source Selector -->
+            <!-- Populated from GET /sources; decides route, secret and header -->
+            <div>
+              <label class="block text-sm text-slate-500 mb-2">Source</label>
+              <select id="sourceSelect"
+                class="w-full px-4 py-2.5 bg-slate-900/50 border border-slate-700 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all">
+                <option value="default">default</option>
+              </select>
+            </div>
             <!-- Event Name Input -->
             <div>
               <label class="block text-sm text-slate-500 mb-2">Event Name</label>
@@ -366,7 +1303,7 @@ app.get(
               <label class="block text-sm text-slate-500 mb-2">Signature Mode</label>
               <select id="signatureMode"
                 class="w-full px-4 py-2.5 bg-slate-900/50 border border-slate-700 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all">
-                <option value="valid">✓ Valid JWT</option>
+                <option value="valid">✓ Valid Signature</option>
                 <option value="invalid">✗ Invalid Signature</option>
                 <option value="none">○ No Signature</option>
               </select>
@@ -425,8 +1362,10 @@ app.get(
         <div class="glass rounded-2xl border border-slate-800 p-6">
           <h2 class="text-lg font-semibold text-white mb-4 flex items-center gap-2">
             <span>📊</span> Stats
+            <!-- Live stream connection indicator -->
+            <span id="liveStatus" class="ml-auto text-xs font-normal text-slate-500">○ Connecting…</span>
           </h2>
-          <div class="grid grid-cols-2 gap-4">
+          <div class="grid grid-cols-3 gap-4">
             <!-- Queue Counter -->
             <div class="p-4 bg-slate-900/50 rounded-xl text-center">
               <div id="queueCount" class="text-3xl font-bold text-indigo-400">0</div>
@@ -437,6 +1376,11 @@ app.get(
               <div id="processedCount" class="text-3xl font-bold text-emerald-400">0</div>
               <div class="text-sm text-slate-500">Processed</div>
             </div>
+            <!-- Dead-Letter Counter -->
+            <div class="p-4 bg-slate-900/50 rounded-xl text-center">
+              <div id="deadLetterCount" class="text-3xl font-bold text-red-400">0</div>
+              <div class="text-sm text-slate-500">Dead Letters</div>
+            </div>
           </div>
           <button onclick="refreshStats()" 
             class="w-full mt-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm transition-colors">
@@ -449,9 +1393,46 @@ app.get(
         <div class="glass rounded-2xl border border-slate-800 p-6">
           <h2 class="text-lg font-semibold text-white mb-4 flex items-center gap-2">
             <span>📋</span> Recent Events
+            <!-- Source Filter -->
+            <select id="sourceFilter" onchange="refreshStats()"
+              class="ml-auto px-2 py-1 bg-slate-900/50 border border-slate-700 rounded-lg text-xs font-normal text-slate-300 focus:outline-none">
+              <option value="">All sources</option>
+            </select>
           </h2>
           <div id="eventsList" class="space-y-2 max-h-64 overflow-y-auto">
-            <div class="text-slate-500 text-sm text-center py-4">No events yet</div>
+            <div data-placeholder class="text-slate-500 text-sm text-center py-4">No events yet</div>
+          </div>
+        </div>
+
+        <!-- Dead-Letter Queue -->
+        <!-- Webhooks that exhausted their retries, with replay/delete actions -->
+        <div class="glass rounded-2xl border border-slate-800 p-6">
+          <h2 class="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            <span>🪦</span> Dead Letters
+            <span class="ml-auto flex gap-1">
+              <button onclick="replayAllDeadLetters()"
+                class="px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded-lg text-xs font-normal text-slate-300 transition-colors">
+                ↻ Replay all
+              </button>
+              <button onclick="purgeDeadLetters()"
+                class="px-2 py-1 bg-slate-800 hover:bg-red-900/60 rounded-lg text-xs font-normal text-slate-300 transition-colors">
+                🗑 Purge all
+              </button>
+            </span>
+          </h2>
+          <div id="deadLettersList" class="space-y-2 max-h-64 overflow-y-auto">
+            <div class="text-slate-500 text-sm text-center py-4">No dead letters</div>
+          </div>
+        </div>
+
+        <!-- Circuit Breakers -->
+        <!-- One per forwarding target; operators can open or close them -->
+        <div class="glass rounded-2xl border border-slate-800 p-6">
+          <h2 class="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            <span>🔌</span> Circuit Breakers
+          </h2>
+          <div id="breakersList" class="space-y-2 max-h-64 overflow-y-auto">
+            <div class="text-slate-500 text-sm text-center py-4">No forwarding targets</div>
           </div>
         </div>
 
@@ -470,7 +1451,7 @@ app.get(
               <!-- Refresh Token Button -->
               <button id="refreshTokenBtn" onclick="refreshToken()" 
                 class="p-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white transition-colors"
-                title="Refresh JWT Token">
+                title="Re-sign Payload">
                 🔄
               </button>
               <!-- Copy Button -->
@@ -484,9 +1465,139 @@ app.get(
           
           <!-- Token Info -->
           <div class="mt-3 text-xs text-slate-500">
-            💡 Token auto-refreshes every 30 min • Click 🔄 to refresh manually
+            💡 Signature is recomputed whenever the payload changes • Click 🔄 to re-sign manually (new delivery ID)
+          </div>
+        </div>
+      </div>
+    </div>
+
+    <!-- ================================================================= -->
+    <!-- EVENT LOG: SEARCHABLE TABLE OF EVERY RECEIVED WEBHOOK -->
+    <!-- ================================================================= -->
+    <div class="glass rounded-2xl border border-slate-800 p-6 mt-6">
+      <div class="flex items-center justify-between mb-4">
+        <h2 class="text-lg font-semibold text-white flex items-center gap-2">
+          <span>🗂️</span> Event Log
+        </h2>
+        <div class="flex gap-2 text-xs">
+          <button onclick="exportEventLog('csv')" title="Download the matching events"
+            class="px-3 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg transition-colors">
+            ⬇️ CSV
+          </button>
+          <button onclick="exportEventLog('ndjson')" title="Download the matching events in full"
+            class="px-3 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg transition-colors">
+            ⬇️ NDJSON
+          </button>
+        </div>
+      </div>
+
+      <!-- Search Filters -->
+      <div class="grid md:grid-cols-6 gap-3 mb-4 text-sm">
+        <input type="text" id="logEvent" placeholder="Event (e.g. order.*)"
+          class="px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500">
+        <select id="logStatus"
+          class="px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-300 focus:outline-none">
+          <option value="">Any status</option>
+          <option value="queued">queued</option>
+          <option value="delivered">delivered</option>
+          <option value="dead-lettered">dead-lettered</option>
+          <option value="duplicate">duplicate</option>
+          <option value="rejected">rejected</option>
+          <option value="quarantined">quarantined</option>
+          <option value="dropped">dropped</option>
+        </select>
+        <select id="logSource"
+          class="px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-300 focus:outline-none">
+          <option value="">All sources</option>
+        </select>
+        <input type="datetime-local" id="logSince" title="Received after"
+          class="px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-300 focus:outline-none">
+        <input type="datetime-local" id="logUntil" title="Received before"
+          class="px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-300 focus:outline-none">
+        <button onclick="searchEvents()"
+          class="py-2 bg-indigo-500 hover:bg-indigo-600 text-white rounded-lg transition-colors">
+          Search
+        </button>
+      </div>
+
+      <!-- Results Table -->
+      <div class="overflow-x-auto">
+        <table class="w-full text-sm text-left">
+          <thead class="text-xs text-slate-500 uppercase border-b border-slate-800">
+            <tr>
+              <th class="py-2 pr-4">Received</th>
+              <th class="py-2 pr-4">Event</th>
+              <th class="py-2 pr-4">Source</th>
+              <th class="py-2 pr-4">Status</th>
+              <th class="py-2 pr-4">Attempts</th>
+              <th class="py-2">Last Error</th>
+            </tr>
+          </thead>
+          <tbody id="eventLogRows" class="text-slate-300"></tbody>
+        </table>
+      </div>
+      <button id="loadMoreEvents" onclick="loadMoreEvents()"
+        class="hidden w-full mt-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm transition-colors">
+        Load more
+      </button>
+
+      <!-- Selected Event Detail -->
+      <pre id="eventDetail" class="hidden mt-4 p-4 bg-slate-900/70 rounded-xl text-xs font-mono overflow-x-auto text-slate-300 max-h-96"></pre>
+
+      <!-- Replay: resend logged webhooks, e.g. after a downstream fix -->
+      <div class="mt-6 pt-4 border-t border-slate-800 text-sm">
+        <h3 class="font-semibold text-white mb-3 flex items-center gap-2">
+          <span>⏪</span> Replay
+        </h3>
+        <div class="grid md:grid-cols-4 gap-3 mb-3">
+          <select id="replayMode" onchange="updateReplayForm()"
+            class="px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-300 focus:outline-none">
+            <option value="search">Events matching the search</option>
+            <option value="selected">Selected event</option>
+            <option value="range">Event ID range</option>
+          </select>
+          <select id="replayTarget"
+            class="px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-300 focus:outline-none">
+            <option value="">Current routes and subscriptions</option>
+          </select>
+          <input type="number" id="replayRate" min="0" step="any" placeholder="Events per second (blank = all at once)"
+            class="px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none">
+          <div class="grid grid-cols-2 gap-2">
+            <button onclick="replayEvents(true)"
+              class="py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg transition-colors">
+              Preview
+            </button>
+            <button onclick="replayEvents(false)"
+              class="py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg transition-colors">
+              Replay
+            </button>
+          </div>
+        </div>
+
+        <!-- Range bounds: event IDs, or the selected row -->
+        <div id="replayRange" class="hidden grid md:grid-cols-2 gap-3 mb-3">
+          <div class="flex gap-2">
+            <input type="text" id="replayFrom" placeholder="From event ID (oldest)"
+              class="flex-1 px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white placeholder-slate-500 font-mono text-xs focus:outline-none">
+            <button onclick="useSelectedAs('replayFrom')" title="Use the selected event"
+              class="px-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs">Selected</button>
+          </div>
+          <div class="flex gap-2">
+            <input type="text" id="replayTo" placeholder="To event ID (newest)"
+              class="flex-1 px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white placeholder-slate-500 font-mono text-xs focus:outline-none">
+            <button onclick="useSelectedAs('replayTo')" title="Use the selected event"
+              class="px-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs">Selected</button>
           </div>
         </div>
+
+        <!-- Payload editor for a single selected event -->
+        <div id="replayEditor" class="hidden mb-3">
+          <label class="block text-xs text-slate-500 mb-1">Data sent with the replay (edit before replaying)</label>
+          <textarea id="replayData" rows="6" spellcheck="false"
+            class="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-300 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-amber-500"></textarea>
+        </div>
+
+        <div id="replayResult" class="text-xs text-slate-400"></div>
       </div>
     </div>
   </main>
@@ -508,9 +1619,12 @@ app.get(
     // STATE MANAGEMENT
     // =========================================================================
     
-    // Cached JWT token for cURL example
-    // Fetched on page load and refreshed periodically
-    let cachedToken = 'YOUR_JWT_TOKEN';
+    // Cached signature for the cURL example payload
+    // Re-signed whenever the payload changes (and periodically for JWT expiry)
+    let cachedSignature = unsignedHeaders();
+
+    // Provider of each source that has one, keyed by source ID
+    let sourceProviders = {};
 
     // Base URL for API requests
     // Automatically resolves to:
@@ -548,61 +1662,239 @@ app.get(
       }
     };
 
+    /**
+     * Short random suffix for provider IDs, so each sample is a new delivery
+     */
+    function sampleId() {
+      return crypto.randomUUID().replaceAll('-', '').slice(0, 16);
+    }
+
+    // Sample provider bodies; the event name is sent as a header by GitHub
+    // and Shopify and read from the body for the others
+    const providerSamples = {
+      github: () => ({
+        event: 'push',
+        body: {
+          ref: 'refs/heads/main',
+          after: sampleId(),
+          repository: { id: 1296269, full_name: 'octocat/Hello-World' },
+          pusher: { name: 'octocat' }
+        }
+      }),
+      stripe: () => ({
+        event: 'payment_intent.succeeded',
+        body: {
+          id: 'evt_' + sampleId(),
+          object: 'event',
+          type: 'payment_intent.succeeded',
+          created: Math.floor(Date.now() / 1000),
+          data: { object: { id: 'pi_' + sampleId(), amount: 2000, currency: 'usd', status: 'succeeded' } }
+        }
+      }),
+      slack: () => ({
+        event: 'app_mention',
+        body: {
+          type: 'event_callback',
+          team_id: 'T0001',
+          api_app_id: 'A0001',
+          event_id: 'Ev' + sampleId(),
+          event_time: Math.floor(Date.now() / 1000),
+          event: { type: 'app_mention', user: 'U0001', text: '<@U0002> status?', channel: 'C0001' }
+        }
+      }),
+      shopify: () => ({
+        event: 'orders.create',
+        body: {
+          id: 820982911946154500,
+          email: 'jon@example.com',
+          total_price: '199.00',
+          currency: 'USD',
+          line_items: [{ title: 'IPod Nano - 8gb', quantity: 1, price: '199.00' }]
+        }
+      }),
+      twilio: () => ({
+        event: 'message.delivered',
+        body: {
+          MessageSid: 'SM' + sampleId(),
+          AccountSid: 'AC' + sampleId(),
+          MessageStatus: 'delivered',
+          From: '+15017122661',
+          To: '+15558675310'
+        }
+      })
+    };
+
+    // =========================================================================
+    // SESSION
+    // =========================================================================
+
+    /**
+     * Shows who is signed in; dev mode without keys has nothing to log out of
+     */
+    async function loadSession() {
+      const res = await fetch('/auth/me');
+      if (!res.ok) return;
+      const me = await res.json();
+      document.getElementById('whoami').textContent = me.id + ' · ' + me.role;
+      if (me.via === 'session') document.getElementById('logoutBtn').classList.remove('hidden');
+    }
+
+    /**
+     * Ends the session and returns to the login form
+     */
+    async function logout() {
+      await fetch('/auth/logout', { method: 'POST' });
+      location.reload();
+    }
+
+    /**
+     * Tells the user when their role does not allow an action
+     * @param {Response} res - Response of the action's request
+     */
+    async function checkPermitted(res) {
+      if (res.status === 403) alert((await res.json()).error);
+    }
+
     // =========================================================================
-    // TOKEN MANAGEMENT
+    // SIGNATURE MANAGEMENT
     // =========================================================================
     
     /**
-     * Fetches a fresh JWT token from the server
-     * Updates cachedToken and refreshes cURL example
+     * Placeholder headers for when the server cannot sign
+     * @returns {{header: string, signature: string, headers: object}}
+     */
+    function unsignedHeaders() {
+      return {
+        header: 'x-signature',
+        signature: 'YOUR_SIGNATURE',
+        headers: { 'content-type': 'application/json', 'x-signature': 'YOUR_SIGNATURE' }
+      };
+    }
+
+    /**
+     * Asks the server to sign a raw body for the selected source
+     * HMAC signatures cover the exact bytes, so the same string must be sent
+     * @param {string} rawBody - Exact request body that will be sent
+     * @returns {Promise<{header: string, signature: string, headers: object}>}
+     *   Signature header, and every header to send (provider headers included)
      */
-    async function fetchToken() {
+    async function fetchSignature(rawBody) {
       try {
-        const res = await fetch('/generate-test-token');
-        const { token } = await res.json();
-        cachedToken = token;
-        updateCurlExample();
-        console.log('[TOKEN] Fresh token fetched');
+        const query = '?source=' + encodeURIComponent(selectedSource()) +
+          '&event=' + encodeURIComponent(document.getElementById('eventName').value);
+        const res = await fetch('/generate-test-signature' + query, {
+          method: 'POST',
+          headers: { 'Content-Type': 'text/plain' },
+          body: rawBody
+        });
+        // Disabled outside DEV_MODE; keep a placeholder in the cURL example
+        if (!res.ok) return unsignedHeaders();
+        const { header, signature, headers } = await res.json();
+        return { header, signature, headers };
       } catch (err) {
-        console.error('[TOKEN] Failed to fetch:', err);
+        console.error('[SIGNATURE] Failed to sign:', err);
+        return unsignedHeaders();
       }
     }
 
     // =========================================================================
-    // CURL EXAMPLE GENERATOR
+    // SOURCES
     // =========================================================================
-    
+
     /**
-     * Updates the cURL example based on current form values
-     * Includes real JWT token and formatted JSON payload
+     * Currently selected source in the send form
+     * @returns {string} Source ID
      */
-    function updateCurlExample() {
+    function selectedSource() {
+      return document.getElementById('sourceSelect').value;
+    }
+
+    /**
+     * Loads registered sources into the form selector and the events filter
+     */
+    async function loadSources() {
+      try {
+        const res = await fetch('/sources');
+        const { sources } = await res.json();
+        sourceProviders = Object.fromEntries(
+          sources.filter(s => s.provider).map(s => [s.id, s.provider])
+        );
+        const options = sources.map(s => \`<option value="\${s.id}">\${s.id}</option>\`).join('');
+        document.getElementById('sourceSelect').innerHTML = options;
+        document.getElementById('sourceFilter').innerHTML = '<option value="">All sources</option>' + options;
+        document.getElementById('logSource').innerHTML = '<option value="">All sources</option>' + options;
+        updateCurlExample();
+      } catch (err) {
+        console.error('[UI] Failed to load sources:', err);
+      }
+    }
+
+    /**
+     * Serialises a request body for the selected source
+     * Provider sources get the payload as the provider would send it (JSON,
+     * or form fields for Twilio); all others get { event, data }
+     * @param {object} payloadData - Parsed payload editor contents
+     * @returns {string} Serialised webhook body
+     */
+    function serialiseBody(payloadData) {
+      const provider = sourceProviders[selectedSource()];
+      if (provider === 'twilio') return new URLSearchParams(payloadData).toString();
+      if (provider) return JSON.stringify(payloadData);
       const eventName = document.getElementById('eventName').value;
+      return JSON.stringify({ event: eventName, data: payloadData });
+    }
+
+    /**
+     * Builds the compact request body from the current form values
+     * Falls back to an empty data object if the payload is not valid JSON
+     * @returns {string} Serialised webhook body
+     */
+    function currentRawBody() {
       let payloadData;
-      
-      // Try to parse current payload, fallback to empty object
       try {
         payloadData = JSON.parse(document.getElementById('payload').value);
       } catch {
         payloadData = {};
       }
-      
-      // Construct the webhook body
-      const body = { event: eventName, data: payloadData };
-      
+      return serialiseBody(payloadData);
+    }
+
+    // =========================================================================
+    // CURL EXAMPLE GENERATOR
+    // =========================================================================
+    
+    /**
+     * Updates the cURL example based on current form values
+     * Signs the compact JSON payload so the command works as-is
+     */
+    async function updateCurlExample() {
       // Format JSON for cURL (compact, single line)
-      const jsonPayload = JSON.stringify(body);
+      const jsonPayload = currentRawBody();
+      cachedSignature = await fetchSignature(jsonPayload);
       
-      // Build cURL command with real token
-      const curlCommand = \`curl -X POST \${baseUrl}/webhook \\
-      -H "Content-Type: application/json" \\
-      -H "x-signature: \${cachedToken}" \\
+      // Build cURL command with real signature (and any provider headers)
+      const headerLines = Object.entries(cachedSignature.headers)
+        .map(([name, value]) => \`      -H "\${name}: \${value}" \\\\\`)
+        .join('\\n');
+      const curlCommand = \`curl -X POST \${baseUrl}/webhook/\${selectedSource()} \\
+\${headerLines}
+      -H "x-webhook-id: \${crypto.randomUUID()}" \\
       -d '\${jsonPayload}'\`;
       
       // Update the cURL display
       document.getElementById('curlExample').textContent = curlCommand;
     }
 
+    /**
+     * Debounced cURL refresh for keystroke-driven updates
+     * Avoids a signing request per character typed
+     */
+    let curlTimer;
+    function scheduleCurlUpdate() {
+      clearTimeout(curlTimer);
+      curlTimer = setTimeout(updateCurlExample, 300);
+    }
+
     /**
      * Loads a preset configuration into the form
      * Also updates the cURL example automatically
@@ -618,16 +1910,32 @@ app.get(
       updateCurlExample();
     }
 
+    /**
+     * Loads a provider's sample payload and selects a source using it
+     * @param {string} provider - Key of providerSamples
+     */
+    function loadProviderSample(provider) {
+      const sourceId = Object.keys(sourceProviders).find(id => sourceProviders[id] === provider);
+      if (!sourceId) {
+        alert('No source uses provider "' + provider + '"; add one to the sources file first');
+        return;
+      }
+      const { event, body } = providerSamples[provider]();
+      document.getElementById('sourceSelect').value = sourceId;
+      document.getElementById('eventName').value = event;
+      document.getElementById('payload').value = JSON.stringify(body, null, 2);
+      updateCurlExample();
+    }
+
     // =========================================================================
     // WEBHOOK SENDING LOGIC
     // =========================================================================
     
     /**
      * Sends a webhook request to the server
-     * Handles JWT token generation based on selected signature mode
+     * Signs the exact serialised body based on selected signature mode
      */
     async function sendWebhook() {
-      const eventName = document.getElementById('eventName').value;
       const signatureMode = document.getElementById('signatureMode').value;
       let payloadData;
 
@@ -639,34 +1947,36 @@ app.get(
         return;
       }
 
-      // Construct request body
-      const body = { event: eventName, data: payloadData };
-      const headers = { 'Content-Type': 'application/json' };
+      // Construct request body (serialised once so the signature matches)
+      const rawBody = serialiseBody(payloadData);
 
-      // Handle signature mode
-      if (signatureMode === 'valid') {
-        // Use cached token or fetch fresh one
-        if (cachedToken === 'YOUR_JWT_TOKEN') {
-          await fetchToken();
-        }
-        headers['x-signature'] = cachedToken;
-      } else if (signatureMode === 'invalid') {
-        // Use an intentionally invalid token to test 401 response
-        headers['x-signature'] = 'invalid-token-xyz';
+      // Handle signature mode; provider headers (event, timestamp) are kept
+      const { header, headers: signedHeaders } = await fetchSignature(rawBody);
+      const headers = {
+        ...signedHeaders,
+        // Fresh delivery ID per send; re-running the cURL example reuses
+        // its ID and demonstrates duplicate detection
+        'x-webhook-id': crypto.randomUUID()
+      };
+      if (signatureMode === 'invalid') {
+        // Use an intentionally invalid signature to test 401 response
+        headers[header] = 'sha256=' + '0'.repeat(64);
+      } else if (signatureMode === 'none') {
+        delete headers[header];
       }
-      // 'none' mode: no x-signature header added
 
-      // Send the webhook request
+      // Send the webhook request to the selected source's route
       try {
-        const response = await fetch('/webhook', {
+        const response = await fetch('/webhook/' + encodeURIComponent(selectedSource()), {
           method: 'POST',
           headers,
-          body: JSON.stringify(body)
+          body: rawBody
         });
         const result = await response.json();
         showResponse(response.status, result, response.ok);
-        // Refresh stats after successful send
-        setTimeout(refreshStats, 500);
+        // Refresh the event log (and stats, unless they are pushed live)
+        if (!liveConnected) setTimeout(refreshStats, 500);
+        setTimeout(searchEvents, 500);
       } catch (err) {
         showResponse(500, { error: err.message }, false);
       }
@@ -699,6 +2009,19 @@ app.get(
       body.textContent = JSON.stringify(data, null, 2);
     }
 
+    /**
+     * Escapes text for use inside markup and attribute values
+     * Event names, sources and errors come from senders and targets, so
+     * every value interpolated into innerHTML goes through this.
+     * @param {*} value - Text to escape (undefined and null become '')
+     * @returns {string} Escaped text
+     */
+    function escapeHtml(value) {
+      return String(value ?? '').replace(/[&<>"']/g, c => ({
+        '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+      })[c]);
+    }
+
     /**
      * Clears the response panel and resets form to default
      */
@@ -712,39 +2035,375 @@ app.get(
     // STATS & MONITORING
     // =========================================================================
 
+    // Badge colours per processed-event status
+    const statusClasses = {
+      success: 'bg-emerald-500/20 text-emerald-400',
+      duplicate: 'bg-amber-500/20 text-amber-400',
+      failed: 'bg-red-500/20 text-red-400',
+      queued: 'bg-indigo-500/20 text-indigo-400',
+      delivered: 'bg-emerald-500/20 text-emerald-400',
+      'dead-lettered': 'bg-red-500/20 text-red-400',
+      rejected: 'bg-orange-500/20 text-orange-400',
+      quarantined: 'bg-purple-500/20 text-purple-400',
+      dropped: 'bg-slate-500/20 text-slate-400'
+    };
+
+    /**
+     * Cursor for the next event log page (undefined when there is none)
+     */
+    let eventLogCursor;
+
+    /**
+     * Builds the /events query string from the search filters
+     * @param {string} [cursor] - Page cursor
+     * @returns {string} Query string including the leading '?'
+     */
+    function eventLogQuery(cursor) {
+      const params = new URLSearchParams();
+      const fields = { event: 'logEvent', status: 'logStatus', source: 'logSource' };
+      for (const [name, id] of Object.entries(fields)) {
+        const value = document.getElementById(id).value.trim();
+        if (value) params.set(name, value);
+      }
+      // datetime-local values are local time; send them as Unix ms
+      for (const [name, id] of [['since', 'logSince'], ['until', 'logUntil']]) {
+        const value = document.getElementById(id).value;
+        if (value) params.set(name, String(new Date(value).getTime()));
+      }
+      if (cursor) params.set('cursor', cursor);
+      return '?' + params.toString();
+    }
+
+    /**
+     * Downloads every event matching the search filters
+     * @param {'csv'|'ndjson'} format - File format
+     */
+    function exportEventLog(format) {
+      window.location.href = '/events/export' + eventLogQuery() + '&format=' + format;
+    }
+
+    /**
+     * Fetches one page of the event log and renders it
+     * @param {boolean} append - Add rows below the current ones
+     */
+    async function fetchEventLog(append) {
+      try {
+        const res = await fetch('/events' + eventLogQuery(append ? eventLogCursor : undefined));
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+
+        const rows = data.events.map(e => \`
+          <tr onclick="showEventDetail('\${escapeHtml(e.id)}')" class="border-b border-slate-800/60 hover:bg-slate-800/40 cursor-pointer">
+            <td class="py-2 pr-4 whitespace-nowrap text-slate-400">\${new Date(e.receivedAt).toLocaleString()}</td>
+            <td class="py-2 pr-4">\${escapeHtml(e.event)}\${e.replayOf ? ' <span class="text-xs text-amber-400" title="Replay of ' + escapeHtml(e.replayOf) + '">⏪ replay</span>' : ''}</td>
+            <td class="py-2 pr-4 text-slate-400">\${escapeHtml(e.source)}</td>
+            <td class="py-2 pr-4"><span class="text-xs px-2 py-0.5 rounded \${statusClasses[e.status] || statusClasses.failed}">\${escapeHtml(e.status)}</span></td>
+            <td class="py-2 pr-4">\${escapeHtml(e.attempts)}</td>
+            <td class="py-2 text-xs text-red-400/80 break-all">\${escapeHtml(e.error)}</td>
+          </tr>
+        \`).join('');
+
+        const body = document.getElementById('eventLogRows');
+        if (append) {
+          body.insertAdjacentHTML('beforeend', rows);
+        } else {
+          body.innerHTML = rows || '<tr><td colspan="6" class="py-4 text-center text-slate-500">No matching events</td></tr>';
+        }
+
+        eventLogCursor = data.nextCursor;
+        document.getElementById('loadMoreEvents').classList.toggle('hidden', !eventLogCursor);
+      } catch (err) {
+        console.error('[UI] Failed to load event log:', err);
+      }
+    }
+
+    /**
+     * Runs a new search from the first page
+     */
+    function searchEvents() {
+      fetchEventLog(false);
+    }
+
+    /**
+     * Appends the next page of results
+     */
+    function loadMoreEvents() {
+      fetchEventLog(true);
+    }
+
+    /**
+     * Shows one event in full (payload, headers, attempts)
+     */
+    async function showEventDetail(id) {
+      const res = await fetch('/events/' + id);
+      const record = await res.json();
+      const detail = document.getElementById('eventDetail');
+      detail.textContent = JSON.stringify(record, null, 2);
+      detail.classList.remove('hidden');
+      if (res.ok) {
+        selectedEvent = record;
+        updateReplayForm();
+      }
+    }
+
+    /**
+     * Renders one entry of the Recent Events list
+     * @param {{event: string, source: string, status: string}} e
+     */
+    function recentEventHtml(e) {
+      return \`
+        <div class="flex items-center justify-between p-2 bg-slate-900/50 rounded-lg">
+          <span class="text-sm text-slate-300">\${escapeHtml(e.event)} <span class="text-xs text-slate-500">· \${escapeHtml(e.source)}</span></span>
+          <span class="text-xs px-2 py-0.5 rounded \${statusClasses[e.status] || statusClasses.failed}">
+            \${escapeHtml(e.status)}
+          </span>
+        </div>
+      \`;
+    }
+
     /**
      * Fetches current queue status from server and updates UI
-     * Called on page load and periodically via setInterval
+     * Called on page load, on live-stream reconnects, and by the polling
+     * fallback while the stream is down
      */
     async function refreshStats() {
       try {
-        const res = await fetch('/queue-status');
+        // Narrow to the source picked in the Recent Events filter
+        const source = document.getElementById('sourceFilter').value;
+        const res = await fetch('/queue-status' + (source ? '?source=' + encodeURIComponent(source) : ''));
+        // Session expired or logged out elsewhere: show the login form
+        if (res.status === 401) return location.reload();
         const data = await res.json();
         
         // Update counters
         document.getElementById('queueCount').textContent = data.queueLength;
         document.getElementById('processedCount').textContent = data.processedCount;
+        document.getElementById('deadLetterCount').textContent = data.deadLetterCount;
 
         // Update recent events list
         const list = document.getElementById('eventsList');
         if (data.recentEvents.length === 0) {
-          list.innerHTML = '<div class="text-slate-500 text-sm text-center py-4">No events yet</div>';
+          list.innerHTML = '<div data-placeholder class="text-slate-500 text-sm text-center py-4">No events yet</div>';
         } else {
           // Render event list with status badges
-          list.innerHTML = data.recentEvents.map(e => \`
-            <div class="flex items-center justify-between p-2 bg-slate-900/50 rounded-lg">
-              <span class="text-sm text-slate-300">\${e.event}</span>
-              <span class="text-xs px-2 py-0.5 rounded \${e.status === 'success' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'}">
-                \${e.status}
-              </span>
-            </div>
-          \`).join('');
+          list.innerHTML = data.recentEvents.map(recentEventHtml).join('');
         }
+
+        await refreshDeadLetters(source);
+        await refreshBreakers();
       } catch (err) {
         console.error('[UI] Failed to refresh stats:', err);
       }
     }
 
+    // =========================================================================
+    // LIVE UPDATES (SERVER-SENT EVENTS)
+    // =========================================================================
+
+    /**
+     * True while the /events/stream connection is open
+     */
+    let liveConnected = false;
+
+    /**
+     * Pending debounced refresh (used while a source filter is active)
+     */
+    let statsRefreshTimer;
+
+    /**
+     * History status shown in Recent Events for each live event type
+     */
+    const liveHistoryStatus = {
+      success: 'success',
+      'dead-letter': 'failed',
+      duplicate: 'duplicate'
+    };
+
+    /**
+     * Updates the connection indicator in the Stats card
+     */
+    function setLiveStatus(connected) {
+      liveConnected = connected;
+      const badge = document.getElementById('liveStatus');
+      badge.textContent = connected ? '● Live' : '○ Reconnecting…';
+      badge.className = 'ml-auto text-xs font-normal ' + (connected ? 'text-emerald-400' : 'text-amber-400');
+    }
+
+    /**
+     * Applies one pushed event to the counters and lists
+     * @param {string} type - SSE event name
+     * @param {object} data - Event payload including global stats
+     */
+    function handleLiveEvent(type, data) {
+      const source = document.getElementById('sourceFilter').value;
+
+      if (source) {
+        // Pushed counters are global; re-query the filtered ones, at most
+        // once per burst of events
+        clearTimeout(statsRefreshTimer);
+        statsRefreshTimer = setTimeout(refreshStats, 300);
+        if (data.source !== source) return;
+      } else {
+        document.getElementById('queueCount').textContent = data.stats.queueLength;
+        document.getElementById('processedCount').textContent = data.stats.processedCount;
+        document.getElementById('deadLetterCount').textContent = data.stats.deadLetterCount;
+      }
+
+      const status = liveHistoryStatus[type];
+      if (status) {
+        const list = document.getElementById('eventsList');
+        list.querySelector('[data-placeholder]')?.remove();
+        list.insertAdjacentHTML('afterbegin', recentEventHtml({ ...data, status }));
+        // Keep the same 10 entries /queue-status returns
+        while (list.children.length > 10) list.lastElementChild.remove();
+      }
+
+      if (type === 'dead-letter') refreshDeadLetters(source);
+    }
+
+    /**
+     * Subscribes to /events/stream
+     * EventSource retries dropped connections by itself; if it gives up
+     * (e.g. the server answered with an error), start a fresh one
+     */
+    function connectLive() {
+      const stream = new EventSource('/events/stream');
+
+      stream.onopen = () => {
+        setLiveStatus(true);
+        // Catch up on anything missed while disconnected
+        refreshStats();
+      };
+      stream.onerror = () => {
+        setLiveStatus(false);
+        if (stream.readyState === EventSource.CLOSED) {
+          stream.close();
+          setTimeout(connectLive, 3000);
+        }
+      };
+
+      ['enqueue', 'attempt', 'success', 'failure', 'dead-letter', 'duplicate', 'paused'].forEach(type =>
+        stream.addEventListener(type, e => handleLiveEvent(type, JSON.parse(e.data)))
+      );
+      stream.addEventListener('breaker', refreshBreakers);
+    }
+
+    /**
+     * Renders the dead-letter list, honouring the source filter
+     */
+    async function refreshDeadLetters(source) {
+      const res = await fetch('/dead-letters' + (source ? '?source=' + encodeURIComponent(source) : ''));
+      const data = await res.json();
+
+      const list = document.getElementById('deadLettersList');
+      if (data.entries.length === 0) {
+        list.innerHTML = '<div class="text-slate-500 text-sm text-center py-4">No dead letters</div>';
+        return;
+      }
+      list.innerHTML = data.entries.map(d => \`
+        <div class="p-2 bg-slate-900/50 rounded-lg">
+          <div class="flex items-center justify-between gap-2">
+            <span class="text-sm text-slate-300">\${escapeHtml(d.event)} <span class="text-xs text-slate-500">· \${escapeHtml(d.source)} · \${new Date(d.deadLetteredAt).toLocaleTimeString()}</span></span>
+            <span class="flex gap-1 shrink-0">
+              <button onclick="replayDeadLetter('\${escapeHtml(d.id)}')" title="Replay"
+                class="px-2 py-0.5 bg-slate-800 hover:bg-slate-700 rounded text-xs text-slate-300">↻</button>
+              <button onclick="deleteDeadLetter('\${escapeHtml(d.id)}')" title="Delete"
+                class="px-2 py-0.5 bg-slate-800 hover:bg-red-900/60 rounded text-xs text-slate-300">✕</button>
+            </span>
+          </div>
+          <div class="text-xs text-red-400/80 mt-1 break-all">\${escapeHtml(d.lastError || 'Unknown error')}</div>
+        </div>
+      \`).join('');
+    }
+
+    /**
+     * Re-enqueues one dead-lettered webhook
+     */
+    async function replayDeadLetter(id) {
+      await checkPermitted(await fetch('/dead-letters/' + id + '/replay', { method: 'POST' }));
+      refreshStats();
+    }
+
+    /**
+     * Permanently deletes one dead-lettered webhook
+     */
+    async function deleteDeadLetter(id) {
+      await checkPermitted(await fetch('/dead-letters/' + id, { method: 'DELETE' }));
+      refreshStats();
+    }
+
+    /**
+     * Re-enqueues every dead letter for the selected source (or all)
+     */
+    async function replayAllDeadLetters() {
+      const source = document.getElementById('sourceFilter').value;
+      await checkPermitted(await fetch('/dead-letters/replay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(source ? { source } : {})
+      }));
+      refreshStats();
+    }
+
+    /**
+     * Deletes every dead letter for the selected source (or all)
+     */
+    async function purgeDeadLetters() {
+      const source = document.getElementById('sourceFilter').value;
+      if (!confirm('Permanently delete ' + (source ? source + ' ' : 'all ') + 'dead letters?')) return;
+      await checkPermitted(await fetch('/dead-letters' + (source ? '?source=' + encodeURIComponent(source) : ''), { method: 'DELETE' }));
+      refreshStats();
+    }
+
+    // Badge colours per breaker state
+    const breakerClasses = {
+      closed: 'bg-emerald-500/20 text-emerald-400',
+      'half-open': 'bg-amber-500/20 text-amber-400',
+      open: 'bg-red-500/20 text-red-400'
+    };
+
+    /**
+     * Renders the circuit breaker of every forwarding target
+     */
+    async function refreshBreakers() {
+      const res = await fetch('/breakers');
+      const data = await res.json();
+
+      const list = document.getElementById('breakersList');
+      if (data.breakers.length === 0) {
+        list.innerHTML = '<div class="text-slate-500 text-sm text-center py-4">No forwarding targets</div>';
+        return;
+      }
+      list.innerHTML = data.breakers.map(b => \`
+        <div class="p-2 bg-slate-900/50 rounded-lg">
+          <div class="flex items-center justify-between gap-2">
+            <span class="text-sm text-slate-300 break-all">\${escapeHtml(b.target)}</span>
+            <span class="flex items-center gap-1 shrink-0">
+              <span class="text-xs px-2 py-0.5 rounded \${breakerClasses[b.state]}">\${b.state}\${b.manual ? ' (manual)' : ''}</span>
+              <button onclick="setBreaker('\${encodeURIComponent(b.target).replaceAll("'", '%27')}', '\${b.state === 'closed' ? 'open' : 'close'}')"
+                title="\${b.state === 'closed' ? 'Open' : 'Close'}"
+                class="px-2 py-0.5 bg-slate-800 hover:bg-slate-700 rounded text-xs text-slate-300">\${b.state === 'closed' ? '⏸' : '▶'}</button>
+            </span>
+          </div>
+          \${b.state !== 'closed' ? \`
+            <div class="text-xs text-slate-500 mt-1">
+              \${b.consecutiveFailures} failures\${b.retryAt ? ' · trial at ' + new Date(b.retryAt).toLocaleTimeString() : ''}
+            </div>\` : ''}
+          \${b.lastError && b.state !== 'closed' ? \`<div class="text-xs text-red-400/80 mt-1 break-all">\${escapeHtml(b.lastError)}</div>\` : ''}
+        </div>
+      \`).join('');
+    }
+
+    /**
+     * Opens or closes a target's breaker by hand
+     * @param {string} target - URL-encoded target ID
+     * @param {'open'|'close'} action
+     */
+    async function setBreaker(target, action) {
+      await checkPermitted(await fetch('/breakers/' + target + '/' + action, { method: 'POST' }));
+      refreshBreakers();
+    }
+
     /**
      * Copies the current cURL example to clipboard
      * Uses modern Clipboard API with visual feedback
@@ -765,41 +2424,170 @@ app.get(
     }
 
     /**
-     * Refreshes the JWT token and updates cURL example
+     * Re-signs the current payload and updates cURL example
      * Triggered by the refresh button next to cURL
      */
     async function refreshToken() {
       const btn = document.getElementById('refreshTokenBtn');
       btn.classList.add('animate-spin');
-      await fetchToken();
+      await updateCurlExample();
       btn.classList.remove('animate-spin');
     }
 
     // =========================================================================
-    // EVENT LISTENERS FOR LIVE CURL UPDATE
+    // REPLAY
     // =========================================================================
-    
-    // Update cURL when event name changes
-    document.getElementById('eventName').addEventListener('input', updateCurlExample);
-    
-    // Update cURL when payload changes
-    document.getElementById('payload').addEventListener('input', updateCurlExample);
+
+    /**
+     * Event shown in the detail panel; the one "Selected event" replays
+     */
+    let selectedEvent;
+
+    /**
+     * Lists every delivery target and subscription as a replay destination
+     */
+    async function loadReplayTargets() {
+      const res = await fetch('/breakers');
+      if (!res.ok) return;
+      const data = await res.json();
+      const select = document.getElementById('replayTarget');
+      select.innerHTML = '<option value="">Current routes and subscriptions</option>' +
+        data.breakers.map(b => \`<option value="\${escapeHtml(b.target)}">Only \${escapeHtml(b.target)}</option>\`).join('');
+    }
+
+    /**
+     * Shows the range bounds or the payload editor for the chosen mode
+     */
+    function updateReplayForm() {
+      const mode = document.getElementById('replayMode').value;
+      document.getElementById('replayRange').classList.toggle('hidden', mode !== 'range');
+      document.getElementById('replayEditor').classList.toggle('hidden', mode !== 'selected' || !selectedEvent);
+      if (mode === 'selected' && selectedEvent) {
+        document.getElementById('replayData').value = JSON.stringify(selectedEvent.payload.data, null, 2);
+      }
+    }
+
+    /**
+     * Copies the selected event's ID into a range bound
+     * @param {string} id - Input to fill
+     */
+    function useSelectedAs(id) {
+      if (selectedEvent) document.getElementById(id).value = selectedEvent.id;
+    }
+
+    /**
+     * Builds the POST /events/replay body from the form
+     * @param {boolean} dryRun - Only list the events
+     * @returns {object} Request body
+     * @throws {Error} If the form is incomplete or the edited data is not JSON
+     */
+    function replayRequest(dryRun) {
+      const mode = document.getElementById('replayMode').value;
+      const body = { dryRun };
+
+      if (mode === 'selected') {
+        if (!selectedEvent) throw new Error('Click an event in the log first');
+        if (!['delivered', 'dead-lettered'].includes(selectedEvent.status)) {
+          throw new Error('Only delivered and dead-lettered events can be replayed');
+        }
+        body.ids = [selectedEvent.id];
+        const edited = document.getElementById('replayData').value;
+        if (edited.trim() !== JSON.stringify(selectedEvent.payload.data, null, 2)) {
+          body.data = JSON.parse(edited);
+        }
+      } else if (mode === 'range') {
+        const from = document.getElementById('replayFrom').value.trim();
+        const to = document.getElementById('replayTo').value.trim();
+        if (!from && !to) throw new Error('Enter at least one end of the range');
+        if (from) body.fromId = from;
+        if (to) body.toId = to;
+      } else {
+        const params = new URLSearchParams(eventLogQuery());
+        if ([...params.keys()].length === 0) throw new Error('Set at least one search filter');
+        for (const [name, value] of params) body[name] = value;
+      }
+
+      const target = document.getElementById('replayTarget').value;
+      if (target) body.target = target;
+      const rate = Number(document.getElementById('replayRate').value);
+      if (rate > 0) body.ratePerSecond = rate;
+      return body;
+    }
+
+    /**
+     * Previews or queues a replay and reports the outcome
+     * @param {boolean} dryRun - Only list the events that would be replayed
+     */
+    async function replayEvents(dryRun) {
+      const result = document.getElementById('replayResult');
+      let body;
+      try {
+        body = replayRequest(dryRun);
+      } catch (err) {
+        result.textContent = '⚠️ ' + err.message;
+        return;
+      }
+      if (!dryRun && !confirm('Send these events again?')) return;
+
+      const res = await fetch('/events/replay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        result.textContent = '⚠️ ' + (data.error || data.message || res.status);
+        return;
+      }
+      if (dryRun) {
+        result.textContent = \`\${data.count} events would be replayed\` +
+          (data.count > 0 ? ': ' + data.events.slice(0, 10).map(e => e.event).join(', ') + (data.count > 10 ? ', …' : '') : '');
+        return;
+      }
+      result.textContent = \`✅ \${data.replayed} replays queued\` +
+        (data.finishesAt ? ', last one at ' + new Date(data.finishesAt).toLocaleTimeString() : '');
+      searchEvents();
+    }
+
+    // =========================================================================
+    // EVENT LISTENERS FOR LIVE CURL UPDATE
+    // =========================================================================
+    
+    // Update cURL when event name changes
+    document.getElementById('eventName').addEventListener('input', scheduleCurlUpdate);
+    
+    // Update cURL when payload changes
+    document.getElementById('payload').addEventListener('input', scheduleCurlUpdate);
+
+    // Re-sign for the new source's secret and header when it changes
+    document.getElementById('sourceSelect').addEventListener('change', updateCurlExample);
 
     // =========================================================================
-    // INITIALIZATION
-    // =========================================================================
+    // INITIALIZATION
+    // =========================================================================
     
-    // Fetch initial token for cURL example
-    fetchToken();
+    // Show the signed-in user
+    loadSession();
+
+    // Load sources, then sign initial payload for cURL example
+    loadSources();
     
-    // Initial stats load on page ready
+    // Initial stats and event log load on page ready
     refreshStats();
+    searchEvents();
+    loadReplayTargets();
     
-    // Auto-refresh stats every 5 seconds for real-time monitoring
-    setInterval(refreshStats, 5000);
+    // Live updates; counters and lists are pushed as they change
+    connectLive();
+
+    // Fall back to polling every 5 seconds while the live stream is down
+    setInterval(() => {
+      if (!liveConnected) refreshStats();
+    }, 5000);
     
-    // Refresh token every 30 minutes to prevent expiration
-    setInterval(fetchToken, 30 * 60 * 1000);
+    // Re-sign every minute so timestamped signatures (JWT iat) stay
+    // inside the server's replay tolerance window
+    setInterval(updateCurlExample, 60 * 1000);
   </script>
 </body>
 </html>
@@ -807,106 +2595,2311 @@ app.get(
 )
 
 // =============================================================================
-// API ENDPOINTS
+// INGRESS LIMITS
+// =============================================================================
+// Keeps one sender from flooding the queue: token buckets per client IP
+// (checked before the signature) and per source (after it), a body size cap
+// enforced while reading, and a queue depth beyond which new webhooks are
+// refused until the worker catches up. Every refusal is counted in metrics
+// and logged; rate-limit refusals only once per throttling episode, so a
+// flood cannot push real events out of the event log.
+
+/**
+ * Token buckets per client IP and per source
+ */
+const ipLimiter = createRateLimiter()
+const sourceLimiter = createRateLimiter()
+
+/**
+ * Retry-After sent while the queue is over MAX_QUEUE_DEPTH (seconds)
+ */
+const BACKPRESSURE_RETRY_AFTER_SECONDS = 30
+
+/**
+ * Parse hook for the webhook routes: raw bytes, capped at MAX_PAYLOAD_BYTES
+ */
+const parseWebhookBody = captureRawBody(() => config.maxPayloadBytes)
+
+/**
+ * Address of the client that sent a request
+ * With TRUST_PROXY, the first X-Forwarded-For entry (set by the proxy)
+ */
+const clientIp = (
+  request: Request,
+  headers: Record<string, string | undefined>
+): string => {
+  const forwarded = config.trustProxy
+    ? headers["x-forwarded-for"]?.split(",")[0]?.trim()
+    : undefined
+  return forwarded || (request as Request & { ip?: string }).ip || "unknown"
+}
+
+/**
+ * URL a request was sent to, as the sender saw it
+ * With TRUST_PROXY, the scheme and host reported by the proxy
+ * (X-Forwarded-Proto, X-Forwarded-Host) replace the local ones
+ */
+const publicUrl = (
+  request: Request,
+  headers: Record<string, string | undefined>
+): URL => {
+  const url = new URL(request.url)
+  if (config.trustProxy) {
+    const proto = headers["x-forwarded-proto"]?.split(",")[0]?.trim()
+    const host = headers["x-forwarded-host"]?.split(",")[0]?.trim()
+    if (proto) url.protocol = `${proto}:`
+    if (host) url.host = host
+  }
+  return url
+}
+
+/**
+ * Answers a throttled webhook with 429 and Retry-After
+ * The first refusal of a burst is logged. Per-IP refusals happen before
+ * the signature is checked, so they are logged as event "unknown" with no
+ * data, headers or delivery ID: only the source and the reason (which names
+ * the client IP). Unsigned senders cannot write into the event log.
+ */
+const refuseThrottled = (
+  decision: Extract<RateDecision, { allowed: false }>,
+  reason: "rate_limit_ip" | "rate_limit_source",
+  error: string,
+  payload: WebhookPayload,
+  { headers, set }: Pick<Context, "headers" | "set">
+) => {
+  const authenticated = reason === "rate_limit_source"
+  const logged = authenticated
+    ? payload
+    : { event: "unknown", data: null, source: payload.source }
+  rejectedCounter.inc({ ...eventLabels({ payload: logged }), reason })
+  if (decision.firstRefusal) {
+    recordEvent(
+      logged,
+      authenticated ? (headers as Record<string, string>) : {},
+      "rejected",
+      {
+        deliveryId: authenticated ? headers[DELIVERY_ID_HEADER] : undefined,
+        error,
+      }
+    )
+  }
+
+  set.status = 429
+  set.headers["retry-after"] = String(decision.retryAfterSeconds)
+  return { error, retryAfter: decision.retryAfterSeconds }
+}
+
+// Oversized bodies fail in the parse hook; Elysia reports them as parse
+// errors with the PayloadTooLargeError as cause. The body was never parsed
+// nor its signature checked, so the event is logged as "unknown" without
+// the request's headers.
+app.onError(({ error, request, set }) => {
+  const tooLarge = (error as { cause?: unknown }).cause
+  if (!(tooLarge instanceof PayloadTooLargeError)) return
+
+  const [, route, sourceId] = new URL(request.url).pathname.split("/")
+  const source =
+    route === "webhook" ? getSource(sourceId ?? DEFAULT_SOURCE_ID) : undefined
+  const payload = {
+    event: "unknown",
+    data: null,
+    source: source?.id ?? "unknown",
+  }
+  rejectedCounter.inc({
+    ...eventLabels({ payload }),
+    reason: "payload_too_large",
+  })
+  if (source) {
+    recordEvent(payload, {}, "rejected", { error: tooLarge.message })
+  }
+
+  set.status = 413
+  return { error: tooLarge.message, limit: tooLarge.limit }
+})
+
+// =============================================================================
+// API ENDPOINTS
+// =============================================================================
+
+/**
+ * Body of a webhook from a source without a provider adapter
+ * Provider sources send their own formats, so the routes cannot declare a
+ * body schema; this one is checked in the handler.
+ */
+const webhookBody = t.Object({
+  event: t.String(),
+  data: t.Any(),
+})
+
+/**
+ * Checks a generic source's body: { event: string, data?: any }
+ */
+const isWebhookBody = (body: unknown): body is typeof webhookBody.static =>
+  typeof (body as { event?: unknown } | null)?.event === "string"
+
+/**
+ * Idempotency key of a webhook: the source's header, or else the value at
+ * its body path
+ *
+ * @returns string or undefined if the request has none
+ */
+const idempotencyKeyOf = (
+  source: WebhookSource,
+  headers: Record<string, string | undefined>,
+  body: unknown
+): string | undefined => {
+  const header = headers[source.idempotencyKeyHeader]
+  if (header) return header
+  if (!source.idempotencyKeyField) return undefined
+
+  const value = getPath(body, source.idempotencyKeyField)
+  return typeof value === "string" || typeof value === "number"
+    ? String(value)
+    : undefined
+}
+
+/**
+ * Takes one token from a source's rate limit
+ * Only for authenticated requests, so unsigned traffic cannot use up a real
+ * sender's budget. A batch is charged once, like a single webhook.
+ *
+ * @param source - Source the request was verified against
+ * @param payload - The webhook, or a stand-in for a batch
+ * @param context - Headers and response settings of the request
+ * @returns 429 response, or undefined if the request may proceed
+ */
+const throttleSource = (
+  source: WebhookSource,
+  payload: WebhookPayload,
+  { headers, set }: Pick<Context, "headers" | "set">
+) => {
+  const decision = sourceLimiter.take(
+    source.id,
+    source.rateLimit ?? {
+      perSecond: config.sourceRateLimit,
+      burst: config.sourceRateBurst,
+    }
+  )
+  if (decision.allowed) return undefined
+
+  return refuseThrottled(
+    decision,
+    "rate_limit_source",
+    `Rate limit exceeded for source ${source.id}`,
+    payload,
+    {
+      headers: redactHeaders(
+        headers as Record<string, string>,
+        source.signatureHeader
+      ),
+      set,
+    }
+  )
+}
+
+/**
+ * Applies the content checks to an authenticated webhook and enqueues it
+ * The caller has charged the source's rate limit (see throttleSource).
+ *
+ * Flow:
+ * 1. Check the source's event allow-list
+ * 2. Validate `data` against the event's schema
+ * 3. Refuse new work while the queue is full
+ * 4. Enforce delivery-ID dedup
+ * 5. Apply the routing rules (targets, tags or drop)
+ * 6. Log the event, then enqueue it for its route targets and matching
+ *    subscriptions (unless quarantined or dropped)
+ *
+ * Content checks run before the delivery ID is claimed, so a sender can fix
+ * a refused payload and resend it under the same ID.
+ *
+ * @param source - Source the webhook was verified against
+ * @param payload - The webhook
+ * @param deliveryId - Sender's delivery ID, used for dedup (optional)
+ * @param context - Headers and response settings of the request
+ */
+const admitWebhook = (
+  source: WebhookSource,
+  payload: WebhookPayload,
+  deliveryId: string | undefined,
+  { headers, set }: Pick<Context, "headers" | "set">
+) => {
+  const labels = eventLabels({ payload })
+  const stored = redactHeaders(
+    headers as Record<string, string>,
+    source.signatureHeader
+  )
+
+  // Enforce the source's event allow-list
+  if (!isEventAllowed(source, payload.event)) {
+    rejectedCounter.inc({ ...labels, reason: "event_not_allowed" })
+    set.status = 403
+    return {
+      error: `Event "${payload.event}" is not allowed for source ${source.id}`,
+    }
+  }
+
+  // Validate the event's data; refusals are logged so senders' mistakes can
+  // be inspected later. Quarantine is applied once the delivery is claimed.
+  const verdict = checkEventData(payload)
+  if (
+    verdict.outcome === "invalid" ||
+    (verdict.outcome === "unknown" && verdict.policy === "reject")
+  ) {
+    const schemaError =
+      verdict.outcome === "invalid"
+        ? "Event data does not match its schema"
+        : `No schema registered for event "${payload.event}"`
+    rejectedCounter.inc({
+      ...labels,
+      reason: verdict.outcome === "invalid" ? "schema" : "unknown_event",
+    })
+    const rejected = recordEvent(
+      payload,
+      stored,
+      "rejected",
+      {
+        deliveryId,
+        error: schemaError,
+        ...(verdict.outcome === "invalid" && {
+          validationErrors: verdict.errors,
+        }),
+      }
+    )
+
+    set.status = 422
+    return {
+      error: schemaError,
+      eventId: rejected.id,
+      ...(verdict.outcome === "invalid" && { errors: verdict.errors }),
+    }
+  }
+
+  // Refuse new work while the queue is backed up. Checked before dedup, so
+  // the sender's retry is not mistaken for a duplicate.
+  const queueDepth = storage.queueItems().length
+  if (config.maxQueueDepth > 0 && queueDepth >= config.maxQueueDepth) {
+    const error = `Queue is full (${queueDepth} items); retry later`
+    rejectedCounter.inc({ ...labels, reason: "backpressure" })
+    recordEvent(payload, stored, "rejected", {
+      deliveryId,
+      error,
+    })
+
+    set.status = 503
+    set.headers["retry-after"] = String(BACKPRESSURE_RETRY_AFTER_SECONDS)
+    return { error, retryAfter: BACKPRESSURE_RETRY_AFTER_SECONDS }
+  }
+
+  // Detect repeated deliveries (only after authentication, so unsigned
+  // requests cannot poison the dedup store). IDs are scoped per source.
+  if (
+    deliveryId &&
+    !claimDelivery(`${source.id}:${deliveryId}`, config.deliveryIdTtlSeconds)
+  ) {
+    rejectedCounter.inc({ ...labels, reason: "duplicate" })
+    recordProcessedEvent({
+      event: payload.event,
+      source: source.id,
+      status: "duplicate",
+      timestamp: Date.now(),
+      deliveryId,
+    })
+    const duplicate = recordEvent(
+      payload,
+      stored,
+      "duplicate",
+      { deliveryId }
+    )
+    broadcast("duplicate", duplicate.id, duplicate.payload, { deliveryId })
+
+    if (config.duplicatePolicy === "reject") {
+      set.status = 409
+      return {
+        error: "Duplicate delivery",
+        duplicate: true,
+        deliveryId,
+        eventId: duplicate.id,
+      }
+    }
+    return {
+      ok: true,
+      duplicate: true,
+      deliveryId,
+      eventId: duplicate.id,
+      message: "Duplicate delivery ignored",
+    }
+  }
+
+  // Without a schema the quarantine policy logs the event but holds it back
+  // from delivery
+  if (verdict.outcome === "unknown" && verdict.policy === "quarantine") {
+    quarantinedCounter.inc(labels)
+    const quarantined = recordEvent(
+      payload,
+      stored,
+      "quarantined",
+      { deliveryId, error: `No schema registered for event "${payload.event}"` }
+    )
+    console.log(`[SCHEMA] Quarantined ${payload.event} from ${source.id}`)
+
+    set.status = 202
+    return {
+      ok: true,
+      quarantined: true,
+      message: "Webhook quarantined: no schema registered for this event",
+      source: source.id,
+      eventId: quarantined.id,
+      ...(deliveryId && { deliveryId }),
+    }
+  }
+
+  // Decide where the event goes; a drop rule keeps it out of the queue
+  const routing = routeEvent(payload, headers)
+  if (routing.droppedBy) {
+    droppedCounter.inc({ ...labels, route: routing.droppedBy })
+    const dropped = recordEvent(
+      payload,
+      stored,
+      "dropped",
+      {
+        deliveryId,
+        error: `Dropped by route ${routing.droppedBy}`,
+        tags: routing.tags,
+      }
+    )
+
+    set.status = 202
+    return {
+      ok: true,
+      dropped: true,
+      message: `Webhook dropped by route ${routing.droppedBy}`,
+      source: source.id,
+      eventId: dropped.id,
+      ...(deliveryId && { deliveryId }),
+    }
+  }
+
+  // Log the validated webhook and queue it for its targets and the
+  // subscribers that want it, due immediately
+  const event = recordEvent(
+    payload,
+    stored,
+    "queued",
+    { deliveryId, tags: routing.tags }
+  )
+  enqueue(
+    event,
+    [...routing.targets, ...subscriptionsFor(payload.event)],
+    routing.orderingKey
+  )
+
+  set.status = 202
+  return {
+    ok: true,
+    message: "Webhook accepted for delivery",
+    source: source.id,
+    eventId: event.id,
+    ...(deliveryId && { deliveryId }),
+    ...(routing.tags.length > 0 && { tags: routing.tags }),
+  }
+}
+
+/**
+ * Verifies a webhook's signature and its signed timestamp
+ * Provider sources are checked as their provider signs; all others by the
+ * source's scheme, header and key ring.
+ *
+ * @param source - Source the request was addressed to
+ * @param providerRequest - Raw body, headers and public URL of the request
+ * @param labels - Metric labels of the webhook
+ * @param set - Response settings of the request
+ * @returns Error response, or undefined if the webhook is authentic
+ */
+const authenticateWebhook = (
+  source: WebhookSource,
+  providerRequest: ProviderRequest,
+  labels: { event: string; source: string },
+  set: Context["set"]
+) => {
+  const { headers } = providerRequest
+  const adapter = source.provider && getProvider(source.provider)
+
+  // Verify against the exact bytes received, captured during parsing,
+  // using the key the sender names or else every usable key
+  const result = adapter
+    ? verifyProviderSignature(
+        adapter,
+        providerRequest,
+        verificationKeys(source)
+      )
+    : validateSignature(
+        providerRequest.rawBody,
+        headers[source.signatureHeader] ?? "",
+        source.scheme,
+        verificationKeys(source),
+        headers[source.keyIdHeader]
+      )
+  if (!result.valid) {
+    rejectedCounter.inc({ ...labels, reason: "signature" })
+    set.status = 401
+    return { error: "Invalid signature" }
+  }
+
+  // Sources that require it refuse signatures without a signed timestamp,
+  // which could otherwise be resent verbatim
+  if (source.requireTimestamp && result.timestamp === undefined) {
+    rejectedCounter.inc({ ...labels, reason: "timestamp" })
+    set.status = 401
+    return { error: "Signature carries no timestamp" }
+  }
+
+  // Reject signatures whose signed timestamp is outside the tolerance window
+  const freshness = checkTimestamp(
+    result.timestamp,
+    config.timestampToleranceSeconds
+  )
+  if (!freshness.ok) {
+    rejectedCounter.inc({ ...labels, reason: "timestamp" })
+    set.status = 401
+    return {
+      error: "Signature timestamp outside tolerance",
+      detail: freshness.reason,
+    }
+  }
+  return undefined
+}
+
+/**
+ * Answers a request at most once per idempotency key
+ * A repeat with the same body gets the stored response (Idempotent-Replayed:
+ * true), one with a different body 409. Otherwise the request is handled and
+ * its response stored, unless it was throttled or failed: those are
+ * transient, so a retry should be processed.
+ *
+ * @param source - Source the request was verified against
+ * @param idempotencyKey - Key of the request, if it has one
+ * @param rawBody - Body bytes the stored response is tied to
+ * @param labels - Metric labels of the request
+ * @param set - Response settings of the request
+ * @param handle - Handles a request seen for the first time
+ */
+const answerIdempotently = (
+  source: WebhookSource,
+  idempotencyKey: string | undefined,
+  rawBody: Buffer,
+  labels: { event: string; source: string },
+  set: Context["set"],
+  handle: () => unknown
+) => {
+  if (idempotencyKey === undefined) return handle()
+
+  if (idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    set.status = 400
+    return {
+      error: `Idempotency key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+    }
+  }
+  const lookup = lookupResponse(`${source.id}:${idempotencyKey}`, rawBody)
+  if (lookup.outcome === "conflict") {
+    rejectedCounter.inc({ ...labels, reason: "idempotency_conflict" })
+    set.status = 409
+    return {
+      error: "Idempotency key was already used with a different body",
+      idempotencyKey,
+    }
+  }
+  if (lookup.outcome === "replay") {
+    idempotentReplayCounter.inc(labels)
+    set.status = lookup.response.status
+    set.headers[IDEMPOTENT_REPLAYED_HEADER] = "true"
+    return lookup.response.body
+  }
+
+  const response = handle()
+  const status = typeof set.status === "number" ? set.status : 200
+  if (status !== 429 && status < 500) {
+    storeResponse(
+      `${source.id}:${idempotencyKey}`,
+      rawBody,
+      status,
+      response,
+      config.idempotencyTtlSeconds
+    )
+  }
+  return response
+}
+
+/**
+ * Verifies and enqueues a webhook for a given source
+ *
+ * Flow:
+ * 1. Resolve the source (404 if unknown) and read the event from the body,
+ *    or through the source's provider adapter
+ * 2. Enforce the per-IP rate limit
+ * 3. Verify the signature and timestamp (see authenticateWebhook)
+ * 4. Answer a Slack URL verification with its challenge
+ * 5. Charge the source's rate limit (see throttleSource) and admit the
+ *    webhook (see admitWebhook), at most once per idempotency key (see
+ *    answerIdempotently)
+ *
+ * Idempotency keys are honoured only after the signature check, so unsigned
+ * requests cannot plant responses for a real sender's keys.
+ *
+ * @param sourceId - Source the request was addressed to
+ * @param context - Elysia request context of the calling route
+ */
+const receiveWebhook = (
+  sourceId: string,
+  {
+    body,
+    headers,
+    request,
+    set,
+  }: Pick<Context, "headers" | "request" | "set"> & { body: unknown }
+) => {
+  const source = getSource(sourceId)
+  if (!source) {
+    set.status = 404
+    return { error: `Unknown source: ${sourceId}` }
+  }
+
+  // Provider sources are read by their adapter; all others send
+  // { event, data }
+  const adapter = source.provider && getProvider(source.provider)
+  const providerRequest: ProviderRequest = {
+    rawBody: getRawBody(request),
+    headers,
+    url: publicUrl(request, headers).toString(),
+  }
+  let normalized: NormalizedWebhook
+  if (adapter) {
+    normalized = adapter.normalize(providerRequest, body)
+  } else if (isWebhookBody(body)) {
+    normalized = { event: body.event, data: body.data }
+  } else {
+    set.status = 422
+    return { error: 'Body must be { "event": string, "data": any }' }
+  }
+  const deliveryId = normalized.deliveryId ?? headers[DELIVERY_ID_HEADER]
+
+  const labels = { event: normalized.event, source: source.id }
+  const payload = {
+    event: normalized.event,
+    data: normalized.data,
+    source: source.id,
+  }
+
+  // Per-IP limit first, so floods are refused before any crypto work
+  const ip = clientIp(request, headers)
+  const ipDecision = ipLimiter.take(ip, {
+    perSecond: config.ipRateLimit,
+    burst: config.ipRateBurst,
+  })
+  if (!ipDecision.allowed) {
+    return refuseThrottled(
+      ipDecision,
+      "rate_limit_ip",
+      `Rate limit exceeded for client ${ip}`,
+      payload,
+      { headers, set }
+    )
+  }
+
+  // Until the signature checks out the event name is the sender's word, so
+  // refusals are counted as "unknown"
+  const refused = authenticateWebhook(
+    source,
+    providerRequest,
+    { event: "unknown", source: source.id },
+    set
+  )
+  if (refused) return refused
+  receivedCounter.inc(labels)
+
+  // Slack confirms the request URL with a challenge before sending events
+  if (normalized.challenge !== undefined) {
+    console.log(`[SOURCES] Answered URL verification for ${source.id}`)
+    return { challenge: normalized.challenge }
+  }
+
+  return answerIdempotently(
+    source,
+    idempotencyKeyOf(source, headers, body),
+    providerRequest.rawBody,
+    labels,
+    set,
+    () =>
+      throttleSource(source, payload, { headers, set }) ??
+      admitWebhook(source, payload, deliveryId, { headers, set })
+  )
+}
+
+/**
+ * POST /webhook/:source
+ *
+ * Per-source webhook receiver endpoint
+ * Accepts incoming webhooks, validates signature, and queues for processing
+ *
+ * Provider sources (GitHub, Stripe, Slack, Shopify, Twilio) accept their
+ * provider's own headers and body instead; see src/providers.ts.
+ *
+ * Request Headers:
+ *   - Content-Type: application/json (required)
+ *   - <signatureHeader>: HMAC of the raw body (sha256=<hex>, t=...,v1=<hex>
+ *     or base64), or a JWT for sources using the jwt scheme (required)
+ *   - <keyIdHeader>: ID of the signing key, default x-signature-kid; JWTs
+ *     may name it in their `kid` header instead (optional)
+ *   - x-webhook-id: Unique delivery ID used for duplicate detection (optional)
+ *   - <idempotencyKeyHeader>: Idempotency key, default Idempotency-Key; the
+ *     source may read it from a body field instead (optional)
+ *
+ * Request Body:
+ *   - event: string - Event type identifier
+ *   - data: any - Event payload data
+ *
+ * Responses:
+ *   - 202: { ok: true, message, source, eventId, deliveryId?, tags? } -
+ *     Webhook queued
+ *   - 202: { ok: true, quarantined: true, ... } - No schema registered and
+ *     the unknown-event policy is quarantine; logged, not delivered
+ *   - 202: { ok: true, dropped: true, ... } - Matched a drop routing rule;
+ *     logged, not delivered
+ *   - 200: { ok: true, duplicate: true, ... } - Duplicate ignored
+ *     (DUPLICATE_POLICY=ignore)
+ *   - 200: { challenge } - Slack URL verification answered
+ *   - 401: { error: string } - Invalid/missing signature or stale timestamp
+ *   - 403: { error: string } - Event not in the source's allow-list
+ *   - 404: { error: string } - Unknown source
+ *   - 409: { error: string, duplicate: true } - Duplicate delivery ID
+ *   - 409: { error: string, idempotencyKey } - Idempotency key already used
+ *     with a different body
+ *   - any: Response stored for a repeated idempotency key, returned verbatim
+ *     with Idempotent-Replayed: true
+ *   - 413: { error: string, limit } - Body larger than MAX_PAYLOAD_BYTES
+ *   - 429: { error: string, retryAfter } - Rate limit of the client IP or
+ *     source exceeded; Retry-After says when to try again
+ *   - 503: { error: string, retryAfter } - Queue over MAX_QUEUE_DEPTH
+ *   - 400: Malformed JSON body, or an idempotency key over 255 characters
+ *   - 422: { error: string, eventId, errors?: [{ path, message }] } - `data`
+ *     violates the event's schema, or no schema is registered and the
+ *     unknown-event policy is reject
+ *   - 422: { error: string } - Body without an `event` string (sources
+ *     without a provider)
+ */
+app.post(
+  "/webhook/:source",
+  (context) => receiveWebhook(context.params.source, context),
+  {
+    // Read raw bytes for signature verification, then parse as JSON (or
+    // form fields); the body is checked per source in the handler
+    parse: parseWebhookBody,
+  }
+)
+
+/**
+ * POST /webhook
+ *
+ * Legacy single-route receiver, equivalent to POST /webhook/default
+ * Same headers, body and responses as the per-source route
+ */
+app.post("/webhook", (context) => receiveWebhook(DEFAULT_SOURCE_ID, context), {
+  parse: parseWebhookBody,
+})
+
+/**
+ * Verifies a batch once and admits each of its events as its own webhook
+ *
+ * Flow:
+ * 1. Resolve the source (404 if unknown; 400 for provider sources, whose
+ *    senders never batch)
+ * 2. Enforce the per-IP rate limit, once for the whole batch
+ * 3. Verify the signature and timestamp over the whole body
+ * 4. Read the items (see src/batch.ts) and enforce MAX_BATCH_ITEMS
+ * 5. Charge the source's rate limit once for the whole batch
+ * 6. Admit every well-formed item (see admitWebhook), with its `id` as
+ *    delivery ID, and report how each was answered
+ *
+ * The batch is answered at most once per idempotency key, taken from the
+ * source's header only.
+ *
+ * @param sourceId - Source the request was addressed to
+ * @param context - Elysia request context of the calling route
+ */
+const receiveBatch = (
+  sourceId: string,
+  {
+    body,
+    headers,
+    request,
+    set,
+  }: Pick<Context, "headers" | "request" | "set"> & { body: unknown }
+) => {
+  const source = getSource(sourceId)
+  if (!source) {
+    set.status = 404
+    return { error: `Unknown source: ${sourceId}` }
+  }
+  if (source.provider) {
+    set.status = 400
+    return {
+      error: `Source ${source.id} receives ${source.provider} webhooks, which cannot be batched`,
+    }
+  }
+
+  const labels = { event: "batch", source: source.id }
+  const ip = clientIp(request, headers)
+  const ipDecision = ipLimiter.take(ip, {
+    perSecond: config.ipRateLimit,
+    burst: config.ipRateBurst,
+  })
+  if (!ipDecision.allowed) {
+    return refuseThrottled(
+      ipDecision,
+      "rate_limit_ip",
+      `Rate limit exceeded for client ${ip}`,
+      { event: "batch", data: null, source: source.id },
+      { headers, set }
+    )
+  }
+
+  const providerRequest: ProviderRequest = {
+    rawBody: getRawBody(request),
+    headers,
+    url: publicUrl(request, headers).toString(),
+  }
+  const refused = authenticateWebhook(source, providerRequest, labels, set)
+  if (refused) return refused
+
+  return answerIdempotently(
+    source,
+    headers[source.idempotencyKeyHeader],
+    providerRequest.rawBody,
+    labels,
+    set,
+    () => {
+      const entries = parseBatch(body)
+      if (!entries) {
+        set.status = 422
+        return {
+          error:
+            "Body must be a JSON array of events, or NDJSON (application/x-ndjson)",
+        }
+      }
+      if (entries.length > config.maxBatchItems) {
+        set.status = 413
+        return {
+          error: `Batch has ${entries.length} items; at most ${config.maxBatchItems} are accepted`,
+          limit: config.maxBatchItems,
+        }
+      }
+
+      const throttled = throttleSource(
+        source,
+        { event: "batch", data: null, source: source.id },
+        { headers, set }
+      )
+      if (throttled) return throttled
+
+      const totals: Record<BatchOutcome, number> = {
+        accepted: 0,
+        duplicate: 0,
+        invalid: 0,
+        refused: 0,
+      }
+      const results = entries.map((entry) => {
+        if ("error" in entry) {
+          totals.invalid++
+          return {
+            index: entry.index,
+            outcome: "invalid" as const,
+            status: 400,
+            error: entry.error,
+          }
+        }
+
+        const { event, data, id } = entry.item
+        const payload = { event, data, source: source.id }
+        receivedCounter.inc({ event, source: source.id })
+
+        // Each item is answered on its own, so its status and headers
+        // (e.g. Retry-After) must not leak into the batch response
+        const itemSet: Context["set"] = { headers: {} }
+        const response = admitWebhook(source, payload, id, {
+          headers,
+          set: itemSet,
+        })
+        const status = typeof itemSet.status === "number" ? itemSet.status : 200
+        const outcome = outcomeOf(status, response)
+        totals[outcome]++
+        return { index: entry.index, outcome, status, ...response }
+      })
+
+      console.log(
+        `[SOURCES] Batch of ${entries.length} from ${source.id}: ${totals.accepted} accepted, ${totals.duplicate} duplicate, ${totals.invalid} invalid, ${totals.refused} refused`
+      )
+      return { source: source.id, count: entries.length, ...totals, results }
+    }
+  )
+}
+
+/**
+ * POST /webhook/:source/batch
+ *
+ * Receives many events under one signature, as a JSON array or NDJSON
+ * Each item is checked, deduplicated, routed and queued exactly like a
+ * single webhook to POST /webhook/:source.
+ *
+ * Request Headers:
+ *   - Content-Type: application/json or application/x-ndjson (required)
+ *   - <signatureHeader>, <keyIdHeader>: Signature of the whole raw body, as
+ *     for a single webhook (required)
+ *   - <idempotencyKeyHeader>: Idempotency key of the whole batch (optional)
+ *
+ * Request Body:
+ *   - [{ event: string, data: any, id?: string }] - or one such object per
+ *     line; `id` is the item's delivery ID for duplicate detection (printable
+ *     ASCII, no spaces)
+ *
+ * Responses:
+ *   - 200: { source, count, accepted, duplicate, invalid, refused,
+ *     results: [{ index, outcome, status, ... }] } - One result per item,
+ *     numbered from 0, with the response a single webhook would have had
+ *   - 400: { error: string } - Provider source, or an idempotency key over
+ *     255 characters
+ *   - 401: { error: string } - Invalid/missing signature or stale timestamp
+ *   - 404: { error: string } - Unknown source
+ *   - 409: { error: string, idempotencyKey } - Idempotency key already used
+ *     with a different body
+ *   - 413: { error: string, limit } - Body larger than MAX_PAYLOAD_BYTES, or
+ *     more items than MAX_BATCH_ITEMS
+ *   - 422: { error: string } - Body neither an array nor NDJSON
+ *   - 429: { error: string, retryAfter } - Rate limit of the client IP or
+ *     source exceeded (a batch takes one token, whatever its size)
+ */
+app.post(
+  "/webhook/:source/batch",
+  (context) => receiveBatch(context.params.source, context),
+  { parse: parseWebhookBody }
+)
+
+/**
+ * GET /sources
+ *
+ * Lists registered webhook sources (secrets omitted)
+ * Used by the dashboard to populate source selectors
+ *
+ * Response:
+ *   - sources: array - { id, provider?, scheme, signatureHeader,
+ *     allowedEvents? }
+ */
+app.get("/sources", () => ({ sources: listSources() }))
+
+/**
+ * GET /event-schemas
+ *
+ * Lists the registered event data schemas in match order
+ *
+ * Response:
+ *   - unknownEvents: string - accept | reject | quarantine
+ *   - schemas: array - { event, sources?, schema }
+ */
+app.get("/event-schemas", () => listEventSchemas())
+
+// =============================================================================
+// ROUTING API
+// =============================================================================
+// Inspect and reload the routing rules, and preview what targets would
+// receive. The routes file is also reloaded automatically when it changes.
+
+/**
+ * GET /routes
+ *
+ * Lists the active routing rules in evaluation order, with hit counts
+ *
+ * Response:
+ *   - routes: array - { id, events, sources?, headers?, when?, targets,
+ *     tags?, drop?, transform?, hits, lastHitAt? }
+ *   - targets: array - { id, url, headers, timeoutMs } (secrets omitted)
+ */
+app.get("/routes", () => listRoutes())
+
+/**
+ * POST /routes/reload
+ *
+ * Re-reads the routes file now instead of waiting for the file watcher
+ *
+ * Responses:
+ *   - 200: { ok: true, routes: number } - Rules now active
+ *   - 400: { error: string } - Invalid file; the previous rules stay active
+ */
+app.post("/routes/reload", ({ set }) => {
+  try {
+    const count = loadRoutes(config.routesFile, routeDefaults)
+    console.log(`[ROUTES] Reloaded ${count} rules from ${config.routesFile}`)
+    return { ok: true, routes: count }
+  } catch (err) {
+    set.status = 400
+    return { error: (err as Error).message }
+  }
+})
+
+/**
+ * POST /transform/dry-run
+ *
+ * Shows how a payload would be routed and what each target would receive,
+ * without delivering it or counting rule hits
+ *
+ * Request Body:
+ *   - event: string - Event type identifier
+ *   - data: any - Event payload data
+ *   - source: string - Source ID (default "default")
+ *   - headers: object - Request headers for header rules (optional)
+ *   - deliveryId: string - Delivery ID seen by templates (optional)
+ *   - transform: array - Steps to try instead of the configured routes
+ *   - route: string - Only this route, whether or not it matches (optional)
+ *
+ * Responses:
+ *   - 200: { input, output } - With an inline transform
+ *   - 200: { input, matched, tags, droppedBy?, orderingKey?, targets: [{
+ *     target, route, output }] } - Rules that matched, the ordering
+ *     partition and what each target would receive (or each target of the
+ *     requested route)
+ *   - 400: { error: string } - Invalid transform steps
+ *   - 404: { error: string } - Unknown route
+ */
+app.post(
+  "/transform/dry-run",
+  ({ body, set }) => {
+    const input = {
+      event: body.event,
+      data: body.data,
+      source: body.source ?? DEFAULT_SOURCE_ID,
+    }
+    const meta = {
+      eventId: "dry-run",
+      deliveryId: body.deliveryId,
+      receivedAt: Date.now(),
+    }
+
+    if (body.transform !== undefined) {
+      try {
+        const steps = parseTransform(body.transform, "transform")
+        return { input, output: applyTransform(steps, input, meta) }
+      } catch (err) {
+        set.status = 400
+        return { error: (err as Error).message }
+      }
+    }
+
+    const route = body.route === undefined ? undefined : getRoute(body.route)
+    if (body.route !== undefined && !route) {
+      set.status = 404
+      return { error: `Unknown route: ${body.route}` }
+    }
+
+    const headers = Object.fromEntries(
+      Object.entries<string>(body.headers ?? {}).map(([name, value]) => [
+        name.toLowerCase(),
+        value,
+      ])
+    )
+    const decision: RoutingDecision = route
+      ? { matched: [route], targets: route.targets, tags: route.tags ?? [] }
+      : evaluateRoutes(input, headers)
+
+    return {
+      input,
+      matched: decision.matched.map((rule) => rule.id),
+      tags: decision.tags,
+      ...(decision.droppedBy && { droppedBy: decision.droppedBy }),
+      ...(decision.orderingKey && { orderingKey: decision.orderingKey }),
+      targets: decision.targets.map((target) => {
+        // A target uses the transform of the first matched rule listing it
+        const rule = decision.matched.find((r) => r.targets.includes(target))!
+        return {
+          target,
+          route: rule.id,
+          output: rule.transform
+            ? applyTransform(rule.transform, input, meta)
+            : input,
+        }
+      }),
+    }
+  },
+  {
+    body: t.Object({
+      event: t.String(),
+      data: t.Any(),
+      source: t.Optional(t.String()),
+      headers: t.Optional(t.Record(t.String(), t.String())),
+      deliveryId: t.Optional(t.String()),
+      transform: t.Optional(t.Array(t.Any())),
+      route: t.Optional(t.String()),
+    }),
+  }
+)
+
+// =============================================================================
+// CIRCUIT BREAKER API
+// =============================================================================
+// Inspect the per-target circuit breakers and open or close them by hand,
+// e.g. to hold deliveries during a downstream maintenance window.
+
+/**
+ * GET /breakers
+ *
+ * Lists the circuit breaker of every configured forwarding target
+ *
+ * Response:
+ *   - breakers: array - { target, state, consecutiveFailures, manual,
+ *     openedAt?, retryAt?, lastError? }
+ */
+app.get("/breakers", () => ({ breakers: breakerStatuses() }))
+
+/**
+ * POST /breakers/:target/open
+ *
+ * Opens a target's breaker; deliveries to it are paused until it is closed
+ * again by hand
+ *
+ * Responses:
+ *   - 200: BreakerStatus
+ *   - 404: { error: string } - Unknown target
+ */
+app.post("/breakers/:target/open", ({ params, set }) => {
+  if (!resolveTarget(params.target)) {
+    set.status = 404
+    return { error: `Unknown target: ${params.target}` }
+  }
+  return breakers.open(params.target)
+})
+
+/**
+ * POST /breakers/:target/close
+ *
+ * Closes a target's breaker and clears its failure count; paused
+ * deliveries to it resume at once
+ *
+ * Responses:
+ *   - 200: BreakerStatus
+ *   - 404: { error: string } - Unknown target
+ */
+app.post("/breakers/:target/close", ({ params, set }) => {
+  if (!resolveTarget(params.target)) {
+    set.status = 404
+    return { error: `Unknown target: ${params.target}` }
+  }
+  return breakers.close(params.target)
+})
+
+// =============================================================================
+// SUBSCRIPTIONS API
+// =============================================================================
+// Manage the gateway's outgoing subscriptions (see src/subscriptions.ts) and
+// publish events to them. Creating, changing and deleting subscriptions
+// requires the admin role; publishing requires operator.
+
+/**
+ * Pseudo-source of events published through POST /publish
+ * Not registered, so it never receives webhooks; it has no event allow-list
+ * and no rate limit
+ */
+const PUBLISHER_SOURCE: WebhookSource = {
+  id: "internal",
+  keys: [],
+  scheme: "hmac-sha256",
+  signatureHeader: "",
+  keyIdHeader: "",
+  idempotencyKeyHeader: IDEMPOTENCY_KEY_HEADER,
+  rateLimit: { perSecond: 0, burst: 1 },
+}
+
+/**
+ * GET /subscriptions
+ *
+ * Lists the outgoing subscriptions, oldest first (secrets omitted)
+ *
+ * Response:
+ *   - subscriptions: array - { id, url, events, description?, active,
+ *     createdAt, updatedAt }
+ */
+app.get("/subscriptions", () => ({ subscriptions: listSubscriptions() }))
+
+/**
+ * POST /subscriptions
+ *
+ * Registers a subscriber and generates its signing secret
+ *
+ * Request Body:
+ *   - url: string - Endpoint receiving events (http or https)
+ *   - events: string[] - Event name globs, e.g. ["order.*"]
+ *   - description: string - Free-form note (optional)
+ *   - active: boolean - Receive events (optional, default true)
+ *
+ * Responses:
+ *   - 201: Subscription - Including `secret`, which is not shown again
+ *   - 400: { error: string } - Missing or invalid field
+ */
+app.post("/subscriptions", ({ body, set }) => {
+  try {
+    const subscription = createSubscription(body)
+    console.log(
+      `[SUBSCRIPTIONS] Created ${subscription.id} for ${subscription.events.join(", ")}`
+    )
+    set.status = 201
+    return subscription
+  } catch (err) {
+    set.status = 400
+    return { error: (err as Error).message }
+  }
+})
+
+/**
+ * GET /subscriptions/:id
+ *
+ * Returns one subscription (secret omitted)
+ *
+ * Responses:
+ *   - 200: Subscription without `secret`
+ *   - 404: { error: string } - Unknown subscription
+ */
+app.get("/subscriptions/:id", ({ params, set }) => {
+  const subscription = getSubscription(params.id)
+  if (!subscription) {
+    set.status = 404
+    return { error: `Unknown subscription: ${params.id}` }
+  }
+  return toPublicSubscription(subscription)
+})
+
+/**
+ * PATCH /subscriptions/:id
+ *
+ * Changes a subscription's URL, events, description or active flag
+ * Deliveries already queued keep going to the subscription's current URL.
+ *
+ * Request Body (all optional):
+ *   - url, events, description, active - As for POST /subscriptions
+ *
+ * Responses:
+ *   - 200: Subscription without `secret`
+ *   - 400: { error: string } - Invalid field
+ *   - 404: { error: string } - Unknown subscription
+ */
+app.patch("/subscriptions/:id", ({ params, body, set }) => {
+  try {
+    const subscription = updateSubscription(params.id, body)
+    if (!subscription) {
+      set.status = 404
+      return { error: `Unknown subscription: ${params.id}` }
+    }
+    console.log(`[SUBSCRIPTIONS] Updated ${subscription.id}`)
+    return toPublicSubscription(subscription)
+  } catch (err) {
+    set.status = 400
+    return { error: (err as Error).message }
+  }
+})
+
+/**
+ * DELETE /subscriptions/:id
+ *
+ * Removes a subscription and its delivery history
+ * Deliveries already queued for it are dropped
+ *
+ * Responses:
+ *   - 200: { deleted: 1 }
+ *   - 404: { error: string } - Unknown subscription
+ */
+app.delete("/subscriptions/:id", ({ params, set }) => {
+  if (!deleteSubscription(params.id)) {
+    set.status = 404
+    return { error: `Unknown subscription: ${params.id}` }
+  }
+  console.log(`[SUBSCRIPTIONS] Deleted ${params.id}`)
+  return { deleted: 1 }
+})
+
+/**
+ * GET /subscriptions/:id/deliveries
+ *
+ * Recent delivery attempts to a subscriber, newest first
+ * The last 100 attempts are kept in memory per subscription
+ *
+ * Query Parameters:
+ *   - limit: number - Maximum attempts returned (optional)
+ *
+ * Responses:
+ *   - 200: { count, deliveries: [{ eventId, event, deliveryId?, at, ok,
+ *     status?, error?, durationMs }] }
+ *   - 404: { error: string } - Unknown subscription
+ */
+app.get(
+  "/subscriptions/:id/deliveries",
+  ({ params, query, set }) => {
+    if (!getSubscription(params.id)) {
+      set.status = 404
+      return { error: `Unknown subscription: ${params.id}` }
+    }
+    const deliveries = subscriptionDeliveries(params.id).slice(
+      0,
+      query.limit ?? Infinity
+    )
+    return { count: deliveries.length, deliveries }
+  },
+  { query: t.Object({ limit: t.Optional(t.Numeric({ minimum: 1 })) }) }
+)
+
+/**
+ * POST /publish
+ *
+ * Publishes an event from inside the organisation, without a signature
+ * The event goes through the same checks, routing rules and subscriptions
+ * as a webhook from source "internal"
+ *
+ * Request Headers:
+ *   - x-webhook-id: Unique delivery ID used for duplicate detection
+ *     (optional)
+ *
+ * Request Body:
+ *   - event: string - Event type identifier
+ *   - data: any - Event payload data
+ *
+ * Responses:
+ *   - As for POST /webhook/:source, minus the signature, rate limit and
+ *     idempotency answers: 202 queued, quarantined or dropped, 200/409
+ *     duplicate, 422 schema violation, 503 queue full
+ */
+app.post(
+  "/publish",
+  ({ body, headers, set }) => {
+    // Only the delivery ID is kept: the caller's admin credentials must not
+    // end up in the event log or be matched by routing rules
+    const deliveryId = headers[DELIVERY_ID_HEADER]
+    const payload = {
+      event: body.event,
+      data: body.data,
+      source: PUBLISHER_SOURCE.id,
+    }
+    receivedCounter.inc(eventLabels({ payload }))
+    return admitWebhook(PUBLISHER_SOURCE, payload, deliveryId, {
+      headers: { ...(deliveryId && { [DELIVERY_ID_HEADER]: deliveryId }) },
+      set,
+    })
+  },
+  { body: webhookBody }
+)
+
+// =============================================================================
+// ADMIN API: CONFIGURATION
+// =============================================================================
+
+/**
+ * GET /admin/config
+ *
+ * Shows the effective configuration with secrets redacted (admin role)
+ *
+ * Response:
+ *   - file: string | null - Config file in use
+ *   - settings: object - Per setting: value, origin (default, file or env),
+ *     env (variable name) and reloadable (applied on SIGHUP)
+ */
+app.get("/admin/config", () => describeConfig(config))
+
+// =============================================================================
+// ADMIN API: KEY ROTATION
+// =============================================================================
+// Manage each source's key ring without a restart. Typical rotation:
+//   1. POST a new key (active) and hand its secret to the sender
+//   2. PATCH the old key to verifying-only while senders switch over
+//   3. POST .../retire on the old key once traffic has moved
+// Changes are held in memory only; update the sources file to keep them.
+// These routes require the admin role.
+
+/**
+ * Key statuses accepted by the admin API
+ */
+const keyStatus = t.Union([
+  t.Literal("active"),
+  t.Literal("verifying-only"),
+  t.Literal("retired"),
+])
+
+/**
+ * GET /admin/sources/:source/keys
+ *
+ * Lists a source's keys (secrets omitted)
+ *
+ * Responses:
+ *   - 200: { source, keys: array }
+ *   - 404: { error: string } - Unknown source
+ */
+app.get("/admin/sources/:source/keys", ({ params, set }) => {
+  const source = getSource(params.source)
+  if (!source) {
+    set.status = 404
+    return { error: `Unknown source: ${params.source}` }
+  }
+  return { source: source.id, keys: source.keys.map(toPublicKey) }
+})
+
+/**
+ * POST /admin/sources/:source/keys
+ *
+ * Adds a key to a source's key ring
+ * If no secret is supplied one is generated and returned once
+ *
+ * Request Body:
+ *   - kid: string - Key ID (required)
+ *   - secret: string - Shared secret (optional, generated if omitted)
+ *   - status: 'active' | 'verifying-only' | 'retired' (default active)
+ *   - notBefore / notAfter: ISO date or Unix ms (optional)
+ *
+ * Responses:
+ *   - 201: { key, secret } - Key added; secret is only shown here
+ *   - 400: { error: string } - Invalid key definition
+ *   - 404: { error: string } - Unknown source
+ *   - 409: { error: string } - Key ID already exists
+ */
+app.post(
+  "/admin/sources/:source/keys",
+  ({ params, body, set }) => {
+    const source = getSource(params.source)
+    if (!source) {
+      set.status = 404
+      return { error: `Unknown source: ${params.source}` }
+    }
+
+    let key
+    try {
+      key = parseKey(
+        { ...body, secret: body.secret ?? randomBytes(32).toString("hex") },
+        "key"
+      )
+    } catch (err) {
+      set.status = 400
+      return { error: (err as Error).message }
+    }
+
+    try {
+      addKey(source, key)
+    } catch (err) {
+      set.status = 409
+      return { error: (err as Error).message }
+    }
+
+    console.log(`[KEYS] Added key ${key.kid} to source ${source.id}`)
+    set.status = 201
+    return { key: toPublicKey(key), secret: key.secret }
+  },
+  {
+    body: t.Object({
+      kid: t.String({ minLength: 1 }),
+      secret: t.Optional(t.String({ minLength: 1 })),
+      status: t.Optional(keyStatus),
+      notBefore: t.Optional(t.Union([t.String(), t.Number()])),
+      notAfter: t.Optional(t.Union([t.String(), t.Number()])),
+    }),
+  }
+)
+
+/**
+ * PATCH /admin/sources/:source/keys/:kid
+ *
+ * Changes a key's status or validity window
+ * e.g. demote the previous key to verifying-only during rotation
+ *
+ * Request Body:
+ *   - status: 'active' | 'verifying-only' | 'retired' (optional)
+ *   - notBefore / notAfter: ISO date or Unix ms (optional)
+ *
+ * Responses:
+ *   - 200: { key } - Updated key
+ *   - 400: { error: string } - Invalid date
+ *   - 404: { error: string } - Unknown source or key
+ */
+app.patch(
+  "/admin/sources/:source/keys/:kid",
+  ({ params, body, set }) => {
+    const source = getSource(params.source)
+    if (!source) {
+      set.status = 404
+      return { error: `Unknown source: ${params.source}` }
+    }
+
+    const changes: Parameters<typeof updateKey>[2] = {}
+    try {
+      if (body.status) changes.status = body.status
+      const notBefore = parseTime(body.notBefore, "notBefore")
+      const notAfter = parseTime(body.notAfter, "notAfter")
+      if (notBefore !== undefined) changes.notBefore = notBefore
+      if (notAfter !== undefined) changes.notAfter = notAfter
+    } catch (err) {
+      set.status = 400
+      return { error: (err as Error).message }
+    }
+
+    const key = updateKey(source, params.kid, changes)
+    if (!key) {
+      set.status = 404
+      return { error: `Unknown key ID: ${params.kid}` }
+    }
+
+    console.log(`[KEYS] Updated key ${key.kid} of source ${source.id}`)
+    return { key: toPublicKey(key) }
+  },
+  {
+    body: t.Object({
+      status: t.Optional(keyStatus),
+      notBefore: t.Optional(t.Union([t.String(), t.Number()])),
+      notAfter: t.Optional(t.Union([t.String(), t.Number()])),
+    }),
+  }
+)
+
+/**
+ * POST /admin/sources/:source/keys/:kid/retire
+ *
+ * Retires a key immediately; signatures made with it are rejected
+ * The key stays listed for auditing
+ *
+ * Responses:
+ *   - 200: { key } - Retired key
+ *   - 404: { error: string } - Unknown source or key
+ */
+app.post("/admin/sources/:source/keys/:kid/retire", ({ params, set }) => {
+  const source = getSource(params.source)
+  if (!source) {
+    set.status = 404
+    return { error: `Unknown source: ${params.source}` }
+  }
+
+  const key = updateKey(source, params.kid, { status: "retired" })
+  if (!key) {
+    set.status = 404
+    return { error: `Unknown key ID: ${params.kid}` }
+  }
+
+  console.log(`[KEYS] Retired key ${key.kid} of source ${source.id}`)
+  return { key: toPublicKey(key) }
+})
+
+/**
+ * Error returned by the test endpoints outside development mode
+ */
+const TEST_ENDPOINTS_DISABLED =
+  "Test endpoints are disabled; start the server with DEV_MODE=true"
+
+/**
+ * GET /generate-test-token
+ *
+ * Generates a valid JWT token for testing purposes
+ * Signed with the default source's current key (its ID in the JWT header)
+ * Only available with DEV_MODE=true: anyone holding the token can send
+ * webhooks as the default source
+ *
+ * Responses:
+ *   - 200: { token } - Valid JWT token (expires after
+ *     TEST_TOKEN_TTL_SECONDS, default 1 hour)
+ *   - 404: DEV_MODE is off
+ */
+app.get("/generate-test-token", ({ set }) => {
+  if (!config.devMode) {
+    set.status = 404
+    return { error: TEST_ENDPOINTS_DISABLED }
+  }
+
+  const key = currentSigningKey(getSource(DEFAULT_SOURCE_ID)!)
+  if (!key) {
+    set.status = 409
+    return { error: "Default source has no active key" }
+  }
+
+  // iat is set by jsonwebtoken in Unix seconds, as the tolerance check expects
+  const token = jwt.sign({ test: true }, key.secret, {
+    expiresIn: config.testTokenTtlSeconds,
+    keyid: key.kid,
+  })
+  return { token }
+})
+
+/**
+ * POST /generate-test-signature
+ *
+ * Signs an arbitrary request body with a source's current key and scheme
+ * Lets the dashboard sign exactly the bytes it is about to send
+ * Only available with DEV_MODE=true (404 otherwise)
+ *
+ * Provider sources are signed the way their provider signs, for a request
+ * to POST /webhook/:source on this server.
+ *
+ * Query Parameters:
+ *   - source: string - Source ID (defaults to "default")
+ *   - event: string - Event name, for providers that send it as a header
+ *     (GitHub, Shopify; optional)
+ *
+ * Request Body:
+ *   - Raw text to sign (sent as text/plain)
+ *
+ * Response:
+ *   - source: string - Source the signature is valid for
+ *   - provider: string - Source's provider (provider sources only)
+ *   - scheme: string - Source's signature scheme
+ *   - header: string - Header the source reads the signature from
+ *   - keyId: string - ID of the key used to sign
+ *   - signature: string - Signature header value
+ *   - headers: object - Every header to send, including Content-Type and
+ *     the signature
+ */
+app.post(
+  "/generate-test-signature",
+  ({ body, headers, query, request, set }) => {
+    if (!config.devMode) {
+      set.status = 404
+      return { error: TEST_ENDPOINTS_DISABLED }
+    }
+
+    const source = getSource(query.source ?? DEFAULT_SOURCE_ID)
+    if (!source) {
+      set.status = 404
+      return { error: `Unknown source: ${query.source}` }
+    }
+
+    const key = currentSigningKey(source)
+    if (!key) {
+      set.status = 409
+      return { error: `Source ${source.id} has no active key` }
+    }
+
+    if (source.provider) {
+      const adapter = getProvider(source.provider)
+      const url = new URL(
+        `/webhook/${source.id}`,
+        publicUrl(request, headers)
+      ).toString()
+      const signed = adapter.sign(
+        { rawBody: Buffer.from(body), headers: {}, url },
+        key.secret,
+        query.event ?? "unknown"
+      )
+      return {
+        source: source.id,
+        provider: source.provider,
+        scheme: source.scheme,
+        header: adapter.signatureHeader,
+        keyId: key.kid,
+        signature: signed[adapter.signatureHeader],
+        headers: { "content-type": adapter.contentType, ...signed },
+      }
+    }
+
+    const signature =
+      source.scheme === "jwt"
+        ? jwt.sign({ test: true }, key.secret, {
+            expiresIn: config.testTokenTtlSeconds,
+            keyid: key.kid,
+          })
+        : signHmac(body, key.secret)
+    return {
+      source: source.id,
+      scheme: source.scheme,
+      header: source.signatureHeader,
+      keyId: key.kid,
+      signature,
+      headers: {
+        "content-type": "application/json",
+        [source.signatureHeader]: signature,
+      },
+    }
+  },
+  {
+    parse: "text",
+    body: t.String(),
+    query: t.Object({
+      source: t.Optional(t.String()),
+      event: t.Optional(t.String()),
+    }),
+  }
+)
+
+/**
+ * GET /queue-status
+ *
+ * Returns current queue statistics and recent event history
+ * Used by the monitoring dashboard for real-time updates
+ *
+ * Query Parameters:
+ *   - source: string - Only count/list items from this source (optional)
+ *
+ * Response:
+ *   - queueLength: number - Current items in queue
+ *   - processedCount: number - Total processed events in history
+ *   - maxRetries: number - Maximum retry attempts configured
+ *   - inFlight: number - Items currently being delivered by the worker
+ *   - deadLetterCount: number - Entries in the dead-letter queue
+ *   - items: array - Current queue items (event, source, retry count,
+ *     next attempt time and last error)
+ *   - recentEvents: array - Last 10 processed events with status
+ */
+app.get(
+  "/queue-status",
+  ({ query }) => {
+    // Narrow both collections to a single source when requested
+    const queue = storage.queueItems()
+    const history = storage.history()
+    const items = query.source
+      ? queue.filter((item) => item.payload.source === query.source)
+      : queue
+    const events = query.source
+      ? history.filter((e) => e.source === query.source)
+      : history
+
+    return {
+      queueLength: items.length,
+      processedCount: events.length,
+      maxRetries: config.maxRetries,
+      inFlight: items.filter((item) => item.claimedAt !== undefined).length,
+      deadLetterCount: listDeadLetters({
+        ...(query.source && { source: query.source }),
+      }).length,
+      items: items.map((item) => ({
+        event: item.payload.event,
+        source: item.payload.source,
+        retries: item.retries,
+        nextAttemptAt: item.nextAttemptAt,
+        ...(item.lastError && { lastError: item.lastError }),
+      })),
+      recentEvents: events.slice(0, 10),
+    }
+  },
+  { query: t.Object({ source: t.Optional(t.String()) }) }
+)
+
+// =============================================================================
+// EVENT LOG API
 // =============================================================================
 
 /**
- * POST /webhook
+ * Event log status values accepted as a filter
+ */
+const eventStatus = t.Union([
+  t.Literal("queued"),
+  t.Literal("delivered"),
+  t.Literal("dead-lettered"),
+  t.Literal("duplicate"),
+  t.Literal("rejected"),
+  t.Literal("quarantined"),
+  t.Literal("dropped"),
+])
+
+/**
+ * Summary of an event log record for list views
+ */
+const summarizeEvent = (record: EventRecord) => ({
+  id: record.id,
+  event: record.payload.event,
+  source: record.payload.source,
+  status: record.status,
+  attempts: record.attempts.length,
+  receivedAt: record.receivedAt,
+  updatedAt: record.updatedAt,
+  ...(record.deliveryId && { deliveryId: record.deliveryId }),
+  ...(record.error && { error: record.error }),
+  ...(record.tags && { tags: record.tags }),
+  ...(record.replayOf && { replayOf: record.replayOf }),
+})
+
+/**
+ * Parses a time-range query value: Unix ms or an ISO date string
+ * @throws Error if the value is not a valid date
+ */
+const parseQueryTime = (value: string | undefined, field: string) =>
+  parseTime(value && /^\d+$/.test(value) ? Number(value) : value, field)
+
+/**
+ * GET /events
  *
- * Main webhook receiver endpoint
- * Accepts incoming webhooks, validates signature, and queues for processing
+ * Searches the event log, newest first
  *
- * Request Headers:
- *   - Content-Type: application/json (required)
- *   - x-signature: JWT token signed with SECRET (required)
+ * Query Parameters:
+ *   - event: string - Event name glob, e.g. "order.*" (optional)
+ *   - status: EventStatus - queued | delivered | dead-lettered | duplicate |
+ *     rejected | quarantined | dropped (optional)
+ *   - source: string - Only events from this source (optional)
+ *   - tag: string - Only events carrying this routing tag (optional)
+ *   - since: string - Received at or after (ISO date or Unix ms, optional)
+ *   - until: string - Received at or before (ISO date or Unix ms, optional)
+ *   - cursor: string - nextCursor from the previous page (optional)
+ *   - limit: number - Page size, 1-200 (default 50)
+ *
+ * Responses:
+ *   - 200: { events: array, nextCursor?: string } - Record summaries
+ *   - 400: { error: string } - Invalid time or cursor
+ */
+app.get(
+  "/events",
+  ({ query, set }) => {
+    if (query.cursor !== undefined && !/^\d+$/.test(query.cursor)) {
+      set.status = 400
+      return { error: "Invalid cursor" }
+    }
+
+    let since: number | undefined
+    let until: number | undefined
+    try {
+      since = parseQueryTime(query.since, "since")
+      until = parseQueryTime(query.until, "until")
+    } catch (err) {
+      set.status = 400
+      return { error: (err as Error).message }
+    }
+
+    const page = queryEvents({
+      limit: query.limit ?? 50,
+      ...(query.event && { event: query.event }),
+      ...(query.status && { status: query.status }),
+      ...(query.source && { source: query.source }),
+      ...(query.tag && { tag: query.tag }),
+      ...(query.cursor && { cursor: query.cursor }),
+      ...(since !== undefined && { since }),
+      ...(until !== undefined && { until }),
+    })
+    return {
+      events: page.events.map(summarizeEvent),
+      ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    }
+  },
+  {
+    query: t.Object({
+      event: t.Optional(t.String()),
+      status: t.Optional(eventStatus),
+      source: t.Optional(t.String()),
+      tag: t.Optional(t.String()),
+      since: t.Optional(t.String()),
+      until: t.Optional(t.String()),
+      cursor: t.Optional(t.String()),
+      limit: t.Optional(t.Numeric({ minimum: 1, maximum: 200 })),
+    }),
+  }
+)
+
+/**
+ * GET /events/export
+ *
+ * Downloads the matching event log records, oldest first, as NDJSON (full
+ * records, readable by the offline import) or CSV (one row per event)
+ * Events older than the log's retention are in the archive files instead.
+ *
+ * Query Parameters:
+ *   - format: string - ndjson | csv (default ndjson)
+ *   - event, status, source, tag, since, until - Filters as for GET /events
+ *     (optional)
+ *
+ * Responses:
+ *   - 200: Streamed file, with a Content-Disposition filename
+ *   - 400: { error: string } - Invalid time
+ */
+app.get(
+  "/events/export",
+  ({ query, set }) => {
+    let since: number | undefined
+    let until: number | undefined
+    try {
+      since = parseQueryTime(query.since, "since")
+      until = parseQueryTime(query.until, "until")
+    } catch (err) {
+      set.status = 400
+      return { error: (err as Error).message }
+    }
+
+    const format = query.format ?? "ndjson"
+    const records = exportEvents({
+      ...(query.event && { event: query.event }),
+      ...(query.status && { status: query.status }),
+      ...(query.source && { source: query.source }),
+      ...(query.tag && { tag: query.tag }),
+      ...(since !== undefined && { since }),
+      ...(until !== undefined && { until }),
+    })
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-")
+    return new Response(exportStream(records, format), {
+      headers: {
+        "content-type": EXPORT_CONTENT_TYPES[format],
+        "content-disposition": `attachment; filename="events-${stamp}.${format}"`,
+      },
+    })
+  },
+  {
+    query: t.Object({
+      format: t.Optional(t.Union([t.Literal("ndjson"), t.Literal("csv")])),
+      event: t.Optional(t.String()),
+      status: t.Optional(eventStatus),
+      source: t.Optional(t.String()),
+      tag: t.Optional(t.String()),
+      since: t.Optional(t.String()),
+      until: t.Optional(t.String()),
+    }),
+  }
+)
+
+/**
+ * GET /events/stream
+ *
+ * Server-Sent Events stream of queue activity for the live dashboard
+ *
+ * Events (SSE event name, JSON data):
+ *   - enqueue | attempt | success | failure | dead-letter | duplicate
+ *   - data: { eventId, event, source, at, ...details, stats }
+ *     where stats = { queueLength, inFlight, processedCount, deadLetterCount }
+ *
+ * A ": ping" comment is sent every SSE_HEARTBEAT_MS to keep proxies from
+ * closing the connection.
+ */
+app.get("/events/stream", ({ request }) =>
+  openEventStream(request.signal, config.sseHeartbeatMs)
+)
+
+/**
+ * GET /events/:id
+ *
+ * Returns one logged webhook in full: payload, headers and attempts
+ *
+ * Responses:
+ *   - 200: EventRecord & { replays?: string[] } - With the IDs of its
+ *     replays, oldest first
+ *   - 404: { error: string } - Unknown event
+ */
+app.get("/events/:id", ({ params, set }) => {
+  const record = getEvent(params.id)
+  if (!record) {
+    set.status = 404
+    return { error: `Unknown event: ${params.id}` }
+  }
+  const replays = replaysOf(record.id)
+  return { ...record, ...(replays.length > 0 && { replays }) }
+})
+
+/**
+ * POST /events/replay
+ *
+ * Sends logged webhooks again, e.g. once a downstream bug is fixed
+ * Each replay is logged as a new record linked to its original by
+ * `replayOf`, and delivered with a new x-webhook-id and
+ * x-gateway-replay-of: <original event ID>.
+ * Replays skip the ingress checks and delivery-ID dedup; edited data is
+ * still validated against the event's schema.
+ *
+ * Events are selected by ID, by an inclusive range between two events of the
+ * log, by the filters of GET /events, or a combination (all must match). At
+ * least one selector is required, so a bare request cannot resend the
+ * whole log. Without a `status` filter only delivered and dead-lettered
+ * events are selected; other states must be asked for by name.
  *
  * Request Body:
- *   - event: string - Event type identifier
- *   - data: any - Event payload data
+ *   - ids: string[] - These events (optional)
+ *   - fromId, toId: string - Events logged between these two, inclusive
+ *     (optional; either end may be left open)
+ *   - event, status, source, tag, since, until - Filters as for GET /events
+ *     (optional; status defaults to delivered or dead-lettered)
+ *   - data: any - Replacement `data`; only when one event is selected
+ *     (optional)
+ *   - target: string - Deliver to this target or subscription only
+ *     (optional; default: the routes and subscriptions in force at delivery)
+ *   - ratePerSecond: number - Spread the replays out at this rate
+ *     (optional; default: all due at once)
+ *   - dryRun: boolean - Only list the events that would be replayed
  *
  * Responses:
- *   - 200: { ok: true, message: string } - Webhook accepted
- *   - 401: { error: string } - Invalid or missing signature
- *   - 400: Validation error (handled by Elysia schema)
+ *   - 202: { replayed: number, replays: [{ originalId, eventId }],
+ *     finishesAt? } - Replays queued, oldest original first
+ *   - 200: { dryRun: true, count, events: array } - Record summaries
+ *   - 400: { error: string } - No selector, unknown event or target, invalid
+ *     time, edited data for several events, or more than 1000 events
+ *   - 422: { error: string, errors: [{ path, message }] } - Edited data
+ *     violates the event's schema
  */
 app.post(
-  "/webhook",
-  async ({ body, headers, set }) => {
-    // Extract signature from headers
-    // Note: In Elysia, headers is a plain object, not Headers API
-    const signature = headers["x-signature"] ?? ""
+  "/events/replay",
+  ({ body, set }) => {
+    const {
+      ids,
+      fromId,
+      toId,
+      data,
+      target,
+      ratePerSecond,
+      dryRun,
+      ...filter
+    } = body
+    if (target && !resolveTarget(target)) {
+      set.status = 400
+      return { error: `Unknown target: ${target}` }
+    }
+    if (
+      !ids &&
+      !fromId &&
+      !toId &&
+      Object.values(filter).every((value) => value === undefined)
+    ) {
+      set.status = 400
+      return { error: "Select events by ids, fromId/toId or a filter" }
+    }
 
-    // Stringify body for signature validation (used in HMAC scenarios)
-    const rawBody = JSON.stringify(body ?? {})
+    const unknown = [...(ids ?? []), fromId, toId].filter(
+      (id): id is string => id !== undefined && !getEvent(id)
+    )
+    if (unknown.length > 0) {
+      set.status = 400
+      return { error: `Unknown events: ${unknown.join(", ")}` }
+    }
 
-    // Validate JWT signature
-    if (!validateSignature(rawBody, signature)) {
-      set.status = 401
-      return { error: "Invalid signature" }
+    let since: number | undefined
+    let until: number | undefined
+    try {
+      since = parseQueryTime(filter.since, "since")
+      until = parseQueryTime(filter.until, "until")
+    } catch (err) {
+      set.status = 400
+      return { error: (err as Error).message }
     }
 
-    // Add validated webhook to processing queue
-    queue.push({
-      payload: body as WebhookPayload,
-      retries: 0,
-      addedAt: Date.now(),
+    const originals = selectReplays({
+      ...(ids && { ids }),
+      ...(fromId && { fromId }),
+      ...(toId && { toId }),
+      ...(filter.event && { event: filter.event }),
+      ...(filter.status && { status: filter.status }),
+      ...(filter.source && { source: filter.source }),
+      ...(filter.tag && { tag: filter.tag }),
+      ...(since !== undefined && { since }),
+      ...(until !== undefined && { until }),
     })
 
-    // Trigger immediate processing
-    // In production, this might be handled by a separate worker process
-    processQueue()
+    if (originals.length > MAX_REPLAY_EVENTS) {
+      set.status = 400
+      return {
+        error: `${originals.length} events selected; at most ${MAX_REPLAY_EVENTS} can be replayed at once`,
+        limit: MAX_REPLAY_EVENTS,
+      }
+    }
+    if (data !== undefined && originals.length !== 1) {
+      set.status = 400
+      return { error: "data can only be edited when replaying a single event" }
+    }
+    if (data !== undefined) {
+      const verdict = checkEventData({ ...originals[0]!.payload, data })
+      if (verdict.outcome === "invalid") {
+        set.status = 422
+        return {
+          error: "Event data does not match its schema",
+          errors: verdict.errors,
+        }
+      }
+    }
+
+    if (dryRun) {
+      return {
+        dryRun: true,
+        count: originals.length,
+        events: originals.map(summarizeEvent),
+      }
+    }
+
+    // Spaced evenly from now, so the first replay goes out immediately
+    const now = Date.now()
+    const spacingMs = ratePerSecond ? 1000 / ratePerSecond : 0
+    const replays = originals.map((original, index) => {
+      const payload =
+        data !== undefined ? { ...original.payload, data } : original.payload
+      const routing = evaluateRoutes(payload, original.headers)
+      // A fresh delivery ID, or targets deduplicating on x-webhook-id would
+      // drop the replay; x-gateway-replay-of links it to the original
+      const replay = recordEvent(payload, original.headers, "queued", {
+        deliveryId: randomUUID(),
+        tags: routing.tags,
+        replayOf: original.id,
+      })
+      enqueue(
+        replay,
+        target ? [target] : undefined,
+        routing.orderingKey,
+        now + Math.round(index * spacingMs)
+      )
+      replayedCounter.inc(eventLabels({ payload }))
+      return { originalId: original.id, eventId: replay.id }
+    })
 
-    return { ok: true, message: "Webhook received and processed" }
+    console.log(
+      `[REPLAY] Queued ${replays.length} replays` +
+        (target ? ` to ${target}` : "") +
+        (ratePerSecond ? ` at ${ratePerSecond}/s` : "")
+    )
+    set.status = 202
+    return {
+      replayed: replays.length,
+      replays,
+      ...(ratePerSecond &&
+        replays.length > 0 && {
+          finishesAt: now + Math.round((replays.length - 1) * spacingMs),
+        }),
+    }
   },
   {
-    // Request body schema validation using TypeBox
-    // Ensures type safety at runtime
     body: t.Object({
-      event: t.String(),
-      data: t.Any(),
+      ids: t.Optional(t.Array(t.String())),
+      fromId: t.Optional(t.String()),
+      toId: t.Optional(t.String()),
+      event: t.Optional(t.String()),
+      status: t.Optional(eventStatus),
+      source: t.Optional(t.String()),
+      tag: t.Optional(t.String()),
+      since: t.Optional(t.String()),
+      until: t.Optional(t.String()),
+      data: t.Optional(t.Any()),
+      target: t.Optional(t.String()),
+      ratePerSecond: t.Optional(t.Number({ exclusiveMinimum: 0 })),
+      dryRun: t.Optional(t.Boolean()),
     }),
   }
 )
 
+// =============================================================================
+// DEAD-LETTER QUEUE API
+// =============================================================================
+// Inspect, replay and purge webhooks whose retries were exhausted. Replayed
+// entries leave the DLQ and re-enter the queue with a fresh retry budget;
+// if they fail again they are dead-lettered again as a new entry.
+
 /**
- * GET /generate-test-token
+ * Summary of a dead-letter entry for list views
+ */
+const summarizeDeadLetter = (entry: DeadLetter) => ({
+  id: entry.id,
+  event: entry.payload.event,
+  source: entry.payload.source,
+  attempts: entry.attempts.length,
+  lastError: entry.attempts.at(-1)?.error,
+  failedTargets: entry.failedTargets,
+  receivedAt: entry.receivedAt,
+  deadLetteredAt: entry.deadLetteredAt,
+  ...(entry.deliveryId && { deliveryId: entry.deliveryId }),
+})
+
+/**
+ * Re-enqueues dead-lettered webhooks
+ * By default only the targets that failed are retried; `target` sends every
+ * entry to that single target instead. Entries rejoin their ordering
+ * partition (per the current routes) behind the items already queued.
  *
- * Generates a valid JWT token for testing purposes
- * This endpoint should be disabled or protected in production
+ * @returns number - How many entries were re-enqueued
+ */
+const replayDeadLetters = (entries: DeadLetter[], target?: string): number => {
+  entries.forEach((entry) => {
+    // Re-open the original log record; log a new one if it has been
+    // dropped by retention
+    const event =
+      updateEvent(entry.eventId, "queued") ??
+      recordEvent(entry.payload, entry.headers, "queued", {
+        deliveryId: entry.deliveryId,
+      })
+    enqueue(
+      event,
+      target ? [target] : entry.failedTargets,
+      evaluateRoutes(entry.payload, entry.headers).orderingKey
+    )
+  })
+  console.log(
+    `[DLQ] Replayed ${entries.length} entries` + (target ? ` to ${target}` : "")
+  )
+  return entries.length
+}
+
+/**
+ * Query/body fields selecting several dead-letter entries
+ */
+const deadLetterFilter = {
+  source: t.Optional(t.String()),
+  event: t.Optional(t.String()),
+}
+
+/**
+ * GET /dead-letters
+ *
+ * Lists dead-lettered webhooks, newest first
+ *
+ * Query Parameters:
+ *   - source: string - Only entries from this source (optional)
+ *   - event: string - Only entries with this event name (optional)
  *
  * Response:
- *   - token: string - Valid JWT token (expires in 1 hour)
+ *   - count: number - Matching entries
+ *   - entries: array - Entry summaries (no payload/headers)
  */
-app.get("/generate-test-token", () => {
-  const token = jwt.sign({ test: true, iat: Date.now() }, SECRET, {
-    expiresIn: "1h",
-  })
-  return { token }
+app.get(
+  "/dead-letters",
+  ({ query }) => {
+    const entries = listDeadLetters(query)
+    return { count: entries.length, entries: entries.map(summarizeDeadLetter) }
+  },
+  { query: t.Object(deadLetterFilter) }
+)
+
+/**
+ * GET /dead-letters/:id
+ *
+ * Returns a dead-lettered webhook in full: payload, headers and attempts
+ *
+ * Responses:
+ *   - 200: DeadLetter
+ *   - 404: { error: string } - Unknown entry
+ */
+app.get("/dead-letters/:id", ({ params, set }) => {
+  const entry = getDeadLetter(params.id)
+  if (!entry) {
+    set.status = 404
+    return { error: `Unknown dead letter: ${params.id}` }
+  }
+  return entry
 })
 
 /**
- * GET /queue-status
+ * POST /dead-letters/:id/replay
  *
- * Returns current queue statistics and recent event history
- * Used by the monitoring dashboard for real-time updates
+ * Re-enqueues one dead-lettered webhook
+ *
+ * Request Body (optional):
+ *   - target: string - Deliver to this target ID instead of the failed ones
+ *
+ * Responses:
+ *   - 202: { replayed: 1 }
+ *   - 400: { error: string } - Unknown target
+ *   - 404: { error: string } - Unknown entry
+ */
+app.post(
+  "/dead-letters/:id/replay",
+  ({ params, body, set }) => {
+    if (body?.target && !resolveTarget(body.target)) {
+      set.status = 400
+      return { error: `Unknown target: ${body.target}` }
+    }
+    if (!getDeadLetter(params.id)) {
+      set.status = 404
+      return { error: `Unknown dead letter: ${params.id}` }
+    }
+
+    set.status = 202
+    return {
+      replayed: replayDeadLetters(
+        takeDeadLetters({ ids: [params.id] }),
+        body?.target
+      ),
+    }
+  },
+  { body: t.Optional(t.Object({ target: t.Optional(t.String()) })) }
+)
+
+/**
+ * POST /dead-letters/replay
+ *
+ * Re-enqueues several dead-lettered webhooks at once
+ * With no filter fields, every entry is replayed
+ *
+ * Request Body:
+ *   - ids: string[] - Only these entries (optional)
+ *   - source: string - Only entries from this source (optional)
+ *   - event: string - Only entries with this event name (optional)
+ *   - target: string - Deliver to this target ID instead (optional)
+ *
+ * Responses:
+ *   - 202: { replayed: number }
+ *   - 400: { error: string } - Unknown target
+ */
+app.post(
+  "/dead-letters/replay",
+  ({ body, set }) => {
+    const { target, ...filter } = body
+    if (target && !resolveTarget(target)) {
+      set.status = 400
+      return { error: `Unknown target: ${target}` }
+    }
+
+    set.status = 202
+    return { replayed: replayDeadLetters(takeDeadLetters(filter), target) }
+  },
+  {
+    body: t.Object({
+      ids: t.Optional(t.Array(t.String())),
+      target: t.Optional(t.String()),
+      ...deadLetterFilter,
+    }),
+  }
+)
+
+/**
+ * DELETE /dead-letters/:id
+ *
+ * Permanently removes one dead-lettered webhook
+ *
+ * Responses:
+ *   - 200: { purged: 1 }
+ *   - 404: { error: string } - Unknown entry
+ */
+app.delete("/dead-letters/:id", ({ params, set }) => {
+  const purged = takeDeadLetters({ ids: [params.id] }).length
+  if (purged === 0) {
+    set.status = 404
+    return { error: `Unknown dead letter: ${params.id}` }
+  }
+  return { purged }
+})
+
+/**
+ * DELETE /dead-letters
+ *
+ * Permanently removes dead-lettered webhooks
+ * With no query parameters, the whole DLQ is purged
+ *
+ * Query Parameters:
+ *   - source: string - Only entries from this source (optional)
+ *   - event: string - Only entries with this event name (optional)
  *
  * Response:
- *   - queueLength: number - Current items in queue
- *   - processedCount: number - Total processed events in history
- *   - maxRetries: number - Maximum retry attempts configured
- *   - items: array - Current queue items (event + retry count)
- *   - recentEvents: array - Last 10 processed events with status
+ *   - purged: number - Entries removed
  */
-app.get("/queue-status", () => ({
-  queueLength: queue.length,
-  processedCount: processedEvents.length,
-  maxRetries: MAX_RETRIES,
-  items: queue.map((item) => ({
-    event: item.payload.event,
-    retries: item.retries,
-  })),
-  recentEvents: processedEvents.slice(0, 10),
-}))
+app.delete(
+  "/dead-letters",
+  ({ query }) => {
+    const purged = takeDeadLetters(query).length
+    console.log(`[DLQ] Purged ${purged} entries`)
+    return { purged }
+  },
+  { query: t.Object(deadLetterFilter) }
+)
+
+/**
+ * GET /metrics
+ *
+ * Prometheus scrape endpoint
+ *
+ * Response (text/plain; version=0.0.4):
+ *   - webhook_gateway_received_total{event,source}
+ *   - webhook_gateway_rejected_total{event,source,reason}
+ *   - webhook_gateway_delivered_total{event,source}
+ *   - webhook_gateway_retried_total{event,source}
+ *   - webhook_gateway_dead_lettered_total{event,source}
+ *   - webhook_gateway_queue_depth, _queue_in_flight,
+ *     _queue_oldest_age_seconds, _dead_letters (gauges)
+ *   - webhook_gateway_end_to_end_seconds{event,source} (histogram)
+ *   - webhook_gateway_downstream_duration_seconds{target,outcome} (histogram)
+ */
+app.get(
+  "/metrics",
+  () =>
+    new Response(renderMetrics(), {
+      headers: { "content-type": METRICS_CONTENT_TYPE },
+    })
+)
 
 /**
  * GET /health
@@ -919,35 +4912,113 @@ app.get("/queue-status", () => ({
  *   - uptime: number - Server uptime in seconds
  *   - timestamp: string - Current ISO timestamp
  *   - queue: object - Queue statistics
+ *   - liveClients: number - Connected /events/stream clients
+ *   - breakers: array - Circuit breaker of each forwarding target
  */
 app.get("/health", () => ({
   status: "ok",
   uptime: process.uptime(),
   timestamp: new Date().toISOString(),
   queue: {
-    length: queue.length,
-    processed: processedEvents.length,
+    length: storage.queueItems().length,
+    inFlight: worker.inFlight(),
+    processed: storage.history().length,
+    deadLettered: deadLetterCount(),
   },
+  liveClients: subscriberCount(),
+  breakers: breakerStatuses(),
 }))
 
 // =============================================================================
 // SERVER STARTUP
 // =============================================================================
 
-// Port configuration with environment variable fallback
-const PORT = Number(process.env.PORT) || 8080
+// Handle of the running HTTP server, used to stop listening on shutdown
+// (the Node adapter passes it to the listen callback but does not expose it
+// through app.stop())
+let httpServer: { stop: () => unknown } | undefined
+
+// Start the HTTP server, then the background worker
+app.listen(config.port, (server) => {
+  httpServer = server
+  worker.start()
 
-// Start the HTTP server
-app.listen(PORT, () => {
   console.log("=".repeat(60))
   console.log("  WEBHOOK GATEWAY SERVER")
   console.log("=".repeat(60))
-  console.log(`  🚀 Server:     http://localhost:${PORT}`)
-  console.log(`  📋 Dashboard:  http://localhost:${PORT}`)
-  console.log(`  ❤️  Health:     http://localhost:${PORT}/health`)
-  console.log(`  📬 Webhook:    POST http://localhost:${PORT}/webhook`)
+  console.log(`  🚀 Server:     http://localhost:${config.port}`)
+  console.log(`  📋 Dashboard:  http://localhost:${config.port}`)
+  console.log(`  ❤️  Health:     http://localhost:${config.port}/health`)
+  console.log(`  📬 Webhook:    POST http://localhost:${config.port}/webhook/:source`)
   console.log("=".repeat(60))
   console.log("  Runtime: Node.js via @elysiajs/node adapter")
   console.log("  Press Ctrl+C to stop")
   console.log("=".repeat(60))
 })
+
+// =============================================================================
+// GRACEFUL SHUTDOWN
+// =============================================================================
+// On SIGINT/SIGTERM: stop accepting requests, let in-flight deliveries finish
+// (up to SHUTDOWN_TIMEOUT_MS), close storage, then exit. With the journal
+// backend, items still waiting in the queue are picked up on the next start.
+
+let shuttingDown = false
+
+const shutdown = async (signal: string): Promise<void> => {
+  // A second signal forces an immediate exit
+  if (shuttingDown) process.exit(1)
+  shuttingDown = true
+
+  console.log(`[SHUTDOWN] ${signal} received, draining in-flight deliveries`)
+  await httpServer?.stop()
+  const unfinished = await worker.stop(config.shutdownTimeoutMs)
+  storage.close()
+  archiver?.close()
+
+  console.log(
+    `[SHUTDOWN] Done (${unfinished} delivery attempts unfinished, ${storage.queueItems().length} items left in queue)`
+  )
+  process.exit(0)
+}
+
+process.on("SIGINT", () => void shutdown("SIGINT"))
+process.on("SIGTERM", () => void shutdown("SIGTERM"))
+
+// =============================================================================
+// CONFIG RELOAD
+// =============================================================================
+// On SIGHUP: re-read the config file and apply the reloadable settings.
+// Changed settings that need a restart are logged and left as they were; an
+// invalid file keeps the previous settings entirely.
+
+process.on("SIGHUP", () => {
+  try {
+    const { applied, restartRequired } = reloadConfig(config, CONFIG_FILE)
+
+    if (applied.includes("forwardTimeoutMs")) {
+      // Targets take their default timeout when the routes file is parsed
+      routeDefaults.timeoutMs = config.forwardTimeoutMs
+      try {
+        loadRoutes(config.routesFile, routeDefaults)
+      } catch (err) {
+        console.error(
+          `[ROUTES] Reload failed, keeping previous rules: ${(err as Error).message}`
+        )
+      }
+    }
+
+    console.log(
+      `[CONFIG] Reloaded: ${applied.length > 0 ? applied.join(", ") : "no changes"}`
+    )
+    if (restartRequired.length > 0) {
+      console.warn(
+        `[CONFIG] Restart required to apply: ${restartRequired.join(", ")}`
+      )
+    }
+  } catch (err) {
+    console.error(
+      `[CONFIG] Reload failed, keeping previous settings: ${(err as Error).message}`
+    )
+  }
+})
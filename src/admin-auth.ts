@@ -0,0 +1,240 @@
+// =============================================================================
+// ADMIN AUTHENTICATION
+// =============================================================================
+// Credentials for people and tools operating the gateway, kept separate from
+// the secrets webhook senders sign with. Each API key has a role:
+//
+//   viewer   - read stats, events, dead letters, routes and metrics
+//   operator - viewer, plus replay/purge dead letters and reload routes
+//   admin    - operator, plus manage sources and their keys
+//
+// Keys are loaded at startup from a JSON file and/or ADMIN_API_KEY:
+//
+//   {
+//     "keys": [
+//       { "id": "alice", "role": "admin", "keyEnv": "ALICE_ADMIN_KEY" },
+//       { "id": "grafana", "role": "viewer", "keyHash": "sha256:9f86d0..." }
+//     ]
+//   }
+//
+// A key is given inline ("key"), via an environment variable ("keyEnv") or
+// as its SHA-256 hex digest ("keyHash"), so the file need not hold secrets.
+// Only digests are kept in memory.
+//
+// API clients send the key as `Authorization: Bearer <key>` or `x-api-key`.
+// The dashboard exchanges it for a session cookie at POST /auth/login;
+// sessions live in memory and end on logout, expiry or restart.
+// =============================================================================
+
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto"
+import { existsSync, readFileSync } from "node:fs"
+import { isObject } from "./guards.js"
+
+/**
+ * Access level, each including the ones before it
+ */
+export type Role = "viewer" | "operator" | "admin"
+
+/**
+ * Roles in increasing order of privilege
+ */
+const ROLES: Role[] = ["viewer", "operator", "admin"]
+
+/**
+ * A registered API key
+ * @property id - Name of the key holder, shown in logs and /auth/me
+ * @property role - Access level
+ * @property hash - SHA-256 digest of the key
+ */
+interface AdminKey {
+  id: string
+  role: Role
+  hash: Buffer
+}
+
+/**
+ * An authenticated caller
+ * @property id - Key holder
+ * @property role - Access level
+ * @property via - How the caller authenticated ("dev-mode" when no keys are
+ *   configured and the server runs in development mode)
+ */
+export interface Principal {
+  id: string
+  role: Role
+  via: "api-key" | "session" | "dev-mode"
+}
+
+/**
+ * A logged-in dashboard session
+ * @property principal - Who logged in
+ * @property expiresAt - End of the session (Unix ms)
+ */
+interface Session {
+  principal: Principal
+  expiresAt: number
+}
+
+/**
+ * Name of the dashboard session cookie
+ */
+export const SESSION_COOKIE = "gateway_session"
+
+/**
+ * Loaded keys
+ */
+const keys: AdminKey[] = []
+
+/**
+ * Active sessions keyed by session ID
+ */
+const sessions = new Map<string, Session>()
+
+/**
+ * Shortest key accepted, so keys cannot be guessed
+ */
+const MIN_KEY_LENGTH = 16
+
+/**
+ * SHA-256 digest of a key
+ */
+const digest = (key: string): Buffer =>
+  createHash("sha256").update(key).digest()
+
+/**
+ * Validates one raw entry from the keys file
+ */
+const parseAdminKey = (raw: unknown, index: number): AdminKey => {
+  const where = `keys[${index}]`
+
+  if (!isObject(raw) || typeof raw.id !== "string" || raw.id.length === 0) {
+    throw new Error(`${where}: "id" must be a non-empty string`)
+  }
+  const id = raw.id
+  const role = raw.role as Role
+  if (!ROLES.includes(role)) {
+    throw new Error(
+      `${where} (${id}): "role" must be one of ${ROLES.join(", ")}`
+    )
+  }
+
+  if (typeof raw.keyHash === "string") {
+    const hex = raw.keyHash.replace(/^sha256:/, "")
+    if (!/^[0-9a-f]{64}$/i.test(hex)) {
+      throw new Error(
+        `${where} (${id}): "keyHash" must be a SHA-256 hex digest`
+      )
+    }
+    return { id, role, hash: Buffer.from(hex, "hex") }
+  }
+
+  const key =
+    typeof raw.keyEnv === "string" ? process.env[raw.keyEnv] : raw.key
+  if (typeof key !== "string" || key.length < MIN_KEY_LENGTH) {
+    throw new Error(
+      `${where} (${id}): provide "key" or "keyEnv" with at least ` +
+        `${MIN_KEY_LENGTH} characters, or "keyHash"`
+    )
+  }
+  return { id, role, hash: digest(key) }
+}
+
+/**
+ * Loads the admin keys
+ *
+ * @param path - JSON file with a "keys" array (missing file = none)
+ * @param envKey - Key from ADMIN_API_KEY, registered as "env" with the admin
+ *   role (optional)
+ * @returns number - How many keys are registered
+ * @throws Error if the file exists but is malformed
+ */
+export const loadAdminKeys = (path: string, envKey?: string): number => {
+  keys.length = 0
+
+  if (envKey) {
+    if (envKey.length < MIN_KEY_LENGTH) {
+      throw new Error(
+        `ADMIN_API_KEY must have at least ${MIN_KEY_LENGTH} characters`
+      )
+    }
+    keys.push({ id: "env", role: "admin", hash: digest(envKey) })
+  }
+
+  if (existsSync(path)) {
+    const file = JSON.parse(readFileSync(path, "utf8"))
+    if (!Array.isArray(file?.keys)) {
+      throw new Error(`${path}: expected a top-level "keys" array`)
+    }
+    file.keys.forEach((raw: unknown, index: number) => {
+      keys.push(parseAdminKey(raw, index))
+    })
+  }
+
+  return keys.length
+}
+
+/**
+ * Whether any admin key is registered
+ */
+export const hasAdminKeys = (): boolean => keys.length > 0
+
+/**
+ * Looks up the holder of an API key
+ * Every key is compared in constant time
+ *
+ * @returns Principal or undefined if the key is unknown
+ */
+export const verifyApiKey = (key: string): Principal | undefined => {
+  const hash = digest(key)
+  const match = keys.find((candidate) => timingSafeEqual(candidate.hash, hash))
+  return match && { id: match.id, role: match.role, via: "api-key" }
+}
+
+/**
+ * Checks whether a role grants at least the required level
+ */
+export const hasRole = (role: Role, required: Role): boolean =>
+  ROLES.indexOf(role) >= ROLES.indexOf(required)
+
+/**
+ * Starts a dashboard session
+ *
+ * @param principal - Caller who logged in with an API key
+ * @param ttlMs - Session lifetime
+ * @returns string - Session ID for the cookie
+ */
+export const createSession = (principal: Principal, ttlMs: number): string => {
+  // Expired sessions are swept on each login, which bounds the map
+  const now = Date.now()
+  sessions.forEach((session, id) => {
+    if (session.expiresAt <= now) sessions.delete(id)
+  })
+
+  const id = randomBytes(32).toString("base64url")
+  sessions.set(id, {
+    principal: { ...principal, via: "session" },
+    expiresAt: now + ttlMs,
+  })
+  return id
+}
+
+/**
+ * Resolves a session cookie
+ * @returns Principal or undefined if unknown or expired
+ */
+export const getSession = (id: string): Principal | undefined => {
+  const session = sessions.get(id)
+  if (!session) return undefined
+  if (session.expiresAt <= Date.now()) {
+    sessions.delete(id)
+    return undefined
+  }
+  return session.principal
+}
+
+/**
+ * Ends a session
+ */
+export const endSession = (id: string): void => {
+  sessions.delete(id)
+}
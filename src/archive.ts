@@ -0,0 +1,186 @@
+// =============================================================================
+// EVENT ARCHIVE
+// =============================================================================
+// Keeps every event log record beyond the log's retention, for audits and
+// for reproducing issues. A record is appended when a webhook is received
+// (whatever its status) and again when it is delivered or dead-lettered,
+// as one JSON line with the time it was written:
+//
+//   {"id":"...","seq":42,"payload":{...},"status":"delivered",...,"archivedAt":1760000000000}
+//
+// Lines are snapshots, not one row per event: a delivered webhook usually
+// has a "queued" line and a later "delivered" one, and only the last line of
+// an ID holds its final status and attempts. To see events as they ended,
+// keep the line with the latest archivedAt per ID.
+//
+// Files live in one directory and are named by UTC day; a new file starts
+// every day and whenever the current one would exceed the size limit:
+//
+//   events-2026-10-19.ndjson
+//   events-2026-10-19.1.ndjson
+//   events-2026-10-19.2.ndjson.gz
+//
+// Each start of the gateway begins a new file. Finished files are gzipped
+// if enabled (in the background; files left uncompressed by a crash are
+// compressed on the next start) and files not written to for the retention
+// period are deleted. Lines are in the format the offline import reads, so
+// an archive can be replayed with `npm run import`; it queues each ID once,
+// from its first line, and skips the later snapshots.
+// =============================================================================
+
+import {
+  closeSync,
+  createReadStream,
+  createWriteStream,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  statSync,
+  unlinkSync,
+  writeSync,
+} from "node:fs"
+import { join } from "node:path"
+import { pipeline } from "node:stream/promises"
+import { createGzip } from "node:zlib"
+import type { EventRecord } from "./event-log.js"
+
+/**
+ * Archive file names: day, rollover index and compression
+ */
+const FILE_PATTERN = /^events-(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.ndjson(\.gz)?$/
+
+/**
+ * Archive settings
+ * @property dir - Directory holding the files (created if missing)
+ * @property maxFileBytes - Size at which a new file starts (0 = daily only)
+ * @property gzip - Compress files once they are finished
+ * @property retentionDays - Delete files not written to for this many days
+ *   (0 = keep forever)
+ */
+export interface ArchiveOptions {
+  dir: string
+  maxFileBytes: number
+  gzip: boolean
+  retentionDays: number
+}
+
+/**
+ * Appends records to the archive
+ * @property write - Appends a snapshot of a record
+ * @property close - Finishes the current file
+ */
+export interface Archiver {
+  write: (record: EventRecord) => void
+  close: () => void
+}
+
+/**
+ * Opens an archive directory
+ *
+ * @param options - Directory, rotation, compression and retention
+ * @returns Archiver
+ * @throws Error if the directory cannot be created
+ *
+ * @example
+ * const archiver = createArchiver({
+ *   dir: "data/archive",
+ *   maxFileBytes: 64 * 1024 * 1024,
+ *   gzip: true,
+ *   retentionDays: 90,
+ * })
+ * archiver.write(record) // appended to events-<today>.ndjson
+ */
+export const createArchiver = ({
+  dir,
+  maxFileBytes,
+  gzip,
+  retentionDays,
+}: ArchiveOptions): Archiver => {
+  mkdirSync(dir, { recursive: true })
+
+  let fd: number | undefined
+  let current: { day: string; name: string; bytes: number } | undefined
+  const compressing = new Set<string>()
+
+  const compress = (name: string): void => {
+    const path = join(dir, name)
+    compressing.add(name)
+    pipeline(createReadStream(path), createGzip(), createWriteStream(`${path}.gz`))
+      .then(() => unlinkSync(path))
+      .catch((err) =>
+        console.error(`[ARCHIVE] Could not compress ${name}: ${err.message}`)
+      )
+      .finally(() => compressing.delete(name))
+  }
+
+  // Compresses finished files and deletes expired ones
+  const tidy = (): void => {
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000
+    for (const name of readdirSync(dir)) {
+      if (
+        !FILE_PATTERN.test(name) ||
+        name === current?.name ||
+        compressing.has(name)
+      ) {
+        continue
+      }
+      if (retentionDays > 0 && statSync(join(dir, name)).mtimeMs < cutoff) {
+        unlinkSync(join(dir, name))
+        console.log(`[ARCHIVE] Deleted ${name} (older than ${retentionDays} days)`)
+      } else if (gzip && !name.endsWith(".gz")) {
+        compress(name)
+      }
+    }
+  }
+
+  const finish = (): void => {
+    if (fd !== undefined) closeSync(fd)
+    fd = undefined
+  }
+
+  // Starts the next unused file of the day
+  const rotate = (day: string): void => {
+    finish()
+    const used = readdirSync(dir)
+      .map((name) => FILE_PATTERN.exec(name))
+      .filter((match) => match?.[1] === day)
+      .map((match) => Number(match![2] ?? 0))
+    const index = used.length > 0 ? Math.max(...used) + 1 : 0
+    const name = `events-${day}${index > 0 ? `.${index}` : ""}.ndjson`
+
+    fd = openSync(join(dir, name), "a")
+    current = { day, name, bytes: 0 }
+    tidy()
+  }
+
+  tidy()
+
+  return {
+    write: (record) => {
+      const now = Date.now()
+      const line = `${JSON.stringify({ ...record, archivedAt: now })}\n`
+      const bytes = Buffer.byteLength(line)
+      const day = new Date(now).toISOString().slice(0, 10)
+
+      // A failing archive must not stop webhooks from being accepted
+      try {
+        if (
+          !current ||
+          current.day !== day ||
+          (maxFileBytes > 0 &&
+            current.bytes > 0 &&
+            current.bytes + bytes > maxFileBytes)
+        ) {
+          rotate(day)
+        }
+        writeSync(fd!, line)
+        current!.bytes += bytes
+      } catch (err) {
+        console.error(
+          `[ARCHIVE] Could not archive event ${record.id}: ${(err as Error).message}`
+        )
+      }
+    },
+    close: finish,
+  }
+}
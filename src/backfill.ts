@@ -0,0 +1,278 @@
+// =============================================================================
+// NDJSON BACKFILL
+// =============================================================================
+// Replays an NDJSON file into the queue, e.g. events captured elsewhere
+// while the gateway was down. Each line is either an event record as
+// exported from the event log (its payload, headers and delivery ID are
+// reused) or a bare event:
+//
+//   { "event": "order.created", "data": { ... }, "id": "evt_1", "source": "shop" }
+//
+// "id" (delivery ID) and "source" are optional; the source defaults to the
+// one given to importNdjson. A line whose delivery ID is already in the
+// event log for the same source is skipped as a duplicate. So are later
+// copies of the same exported record, as the archive (src/archive.ts) holds
+// a snapshot per state change. Lines without a delivery ID cannot be told
+// apart from earlier imports, so they are queued again on every run: only
+// files whose lines all carry one can be imported twice safely.
+//
+// Lines get the checks a received webhook gets after authentication, and
+// are skipped (with the reason) if they fail one:
+//   - the source must be registered and allow the event
+//   - the data must match the event's schema; events without a schema are
+//     skipped unless the unknown-event policy is accept
+//   - a drop routing rule must not match
+//   - exported records must be queued, delivered or dead-lettered; rejected,
+//     duplicate, dropped or quarantined ones were never meant for delivery
+//
+// Imported events are logged as "queued" and queued without targets: the
+// routing rules and subscriptions in force when the worker first picks them
+// up decide where they go. Routing tags and ordering keys are taken from the
+// current rules at import time.
+// =============================================================================
+
+import { randomUUID } from "node:crypto"
+import { parseNdjson } from "./batch.js"
+import {
+  recordEvent,
+  redactHeaders,
+  type EventStatus,
+} from "./event-log.js"
+import { checkEventData } from "./event-schemas.js"
+import { evaluateRoutes } from "./forwarder.js"
+import { isObject, isStringMap } from "./guards.js"
+import { getSource, isEventAllowed } from "./sources.js"
+import type { Storage } from "./storage.js"
+import type { WebhookPayload } from "./types.js"
+
+/**
+ * Exported record states that may be delivered again
+ */
+const DELIVERABLE_STATUSES: EventStatus[] = [
+  "queued",
+  "delivered",
+  "dead-lettered",
+]
+
+/**
+ * Import settings
+ * Sources, event schemas and routes must already be loaded.
+ * @property storage - Storage the events are queued in (already passed to
+ *   initEventLog)
+ * @property source - Source of lines that do not name one
+ * @property dryRun - Only check the lines; nothing is written
+ */
+export interface BackfillOptions {
+  storage: Storage
+  source: string
+  dryRun?: boolean
+}
+
+/**
+ * Outcome of an import
+ * @property imported - Lines queued (or that would be, on a dry run)
+ * @property duplicate - Lines skipped because their delivery ID was logged,
+ *   or their record was already read
+ * @property invalid - Unreadable lines, numbered from 0, with the reason
+ * @property skipped - Readable lines that failed an ingress check, with the
+ *   reason
+ */
+export interface BackfillSummary {
+  imported: number
+  duplicate: number
+  invalid: { index: number; error: string }[]
+  skipped: { index: number; error: string }[]
+}
+
+/**
+ * A line ready to be queued
+ */
+interface BackfillEvent {
+  payload: WebhookPayload
+  headers: Record<string, string>
+  deliveryId?: string
+  recordId?: string
+  status?: string
+}
+
+/**
+ * Reads one NDJSON line: an exported event record or a bare event
+ * @throws Error describing what is wrong with it
+ */
+const parseLine = (raw: unknown, defaultSource: string): BackfillEvent => {
+  if (!isObject(raw)) {
+    throw new Error("Line must be a JSON object")
+  }
+
+  // Exported event record
+  const { payload } = raw
+  if (isObject(payload)) {
+    if (typeof payload.event !== "string" || !payload.event) {
+      throw new Error(`"payload.event" must be a non-empty string`)
+    }
+    return {
+      payload: {
+        event: payload.event,
+        data: payload.data,
+        source:
+          typeof payload.source === "string" ? payload.source : defaultSource,
+      },
+      headers: isStringMap(raw.headers) ? raw.headers : {},
+      ...(typeof raw.deliveryId === "string" && {
+        deliveryId: raw.deliveryId,
+      }),
+      ...(typeof raw.id === "string" && { recordId: raw.id }),
+      ...(typeof raw.status === "string" && { status: raw.status }),
+    }
+  }
+
+  if (typeof raw.event !== "string" || !raw.event) {
+    throw new Error(`"event" must be a non-empty string`)
+  }
+  if (raw.source !== undefined && typeof raw.source !== "string") {
+    throw new Error(`"source" must be a string`)
+  }
+  return {
+    payload: {
+      event: raw.event,
+      data: raw.data,
+      source: raw.source ?? defaultSource,
+    },
+    headers: {},
+    ...((typeof raw.id === "string" || typeof raw.id === "number") && {
+      deliveryId: String(raw.id),
+    }),
+  }
+}
+
+/**
+ * Applies the ingress checks of a received webhook to a line
+ * @returns Why the line may not be queued, or undefined if it may
+ */
+const refusalOf = ({ payload, status }: BackfillEvent): string | undefined => {
+  if (
+    status !== undefined &&
+    !DELIVERABLE_STATUSES.includes(status as EventStatus)
+  ) {
+    return `Record status "${status}" is not deliverable`
+  }
+
+  const source = getSource(payload.source)
+  if (!source) return `Unknown source: ${payload.source}`
+  if (!isEventAllowed(source, payload.event)) {
+    return `Event "${payload.event}" is not allowed for source ${source.id}`
+  }
+
+  const verdict = checkEventData(payload)
+  if (verdict.outcome === "invalid") {
+    return "Event data does not match its schema"
+  }
+  if (verdict.outcome === "unknown" && verdict.policy !== "accept") {
+    return `No schema registered for event "${payload.event}"`
+  }
+  return undefined
+}
+
+/**
+ * Queues the events of an NDJSON document
+ *
+ * @param text - NDJSON document
+ * @param options - Storage, default source and dry-run flag
+ * @returns BackfillSummary
+ *
+ * @example
+ * importNdjson(readFileSync("outage.ndjson", "utf8"), { storage, source: "default" })
+ * // { imported: 118, duplicate: 2, invalid: [{ index: 40, error: "..." }], skipped: [] }
+ */
+export const importNdjson = (
+  text: string,
+  { storage, source, dryRun = false }: BackfillOptions
+): BackfillSummary => {
+  const summary: BackfillSummary = {
+    imported: 0,
+    duplicate: 0,
+    invalid: [],
+    skipped: [],
+  }
+  const seen = new Set(
+    storage
+      .events()
+      .filter((record) => record.deliveryId)
+      .map((record) => `${record.payload.source}:${record.deliveryId}`)
+  )
+
+  for (const line of parseNdjson(text)) {
+    if ("error" in line) {
+      summary.invalid.push(line)
+      continue
+    }
+
+    let event: BackfillEvent
+    try {
+      event = parseLine(line.value, source)
+    } catch (err) {
+      summary.invalid.push({ index: line.index, error: (err as Error).message })
+      continue
+    }
+
+    const refusal = refusalOf(event)
+    if (refusal) {
+      summary.skipped.push({ index: line.index, error: refusal })
+      continue
+    }
+    const { payload, deliveryId, recordId } = event
+    const headers = redactHeaders(
+      event.headers,
+      getSource(payload.source)?.signatureHeader
+    )
+    const routing = evaluateRoutes(payload, headers)
+    if (routing.droppedBy) {
+      summary.skipped.push({
+        index: line.index,
+        error: `Dropped by route ${routing.droppedBy}`,
+      })
+      continue
+    }
+
+    if (recordId) {
+      if (seen.has(recordId)) {
+        summary.duplicate++
+        continue
+      }
+      seen.add(recordId)
+    }
+    if (deliveryId) {
+      const key = `${payload.source}:${deliveryId}`
+      if (seen.has(key)) {
+        summary.duplicate++
+        continue
+      }
+      seen.add(key)
+    }
+
+    summary.imported++
+    if (dryRun) continue
+
+    const record = recordEvent(payload, headers, "queued", {
+      deliveryId,
+      tags: routing.tags,
+    })
+    const now = Date.now()
+    storage.putQueueItem({
+      id: randomUUID(),
+      eventId: record.id,
+      payload,
+      headers,
+      attempts: [],
+      retries: 0,
+      addedAt: now,
+      nextAttemptAt: now,
+      ...(deliveryId && { deliveryId }),
+      ...(routing.orderingKey !== undefined && {
+        orderingKey: routing.orderingKey,
+      }),
+    })
+  }
+
+  return summary
+}
@@ -0,0 +1,151 @@
+// =============================================================================
+// BATCH INGESTION
+// =============================================================================
+// A batch carries many events under one signature, either as a JSON array or
+// as NDJSON (one JSON object per line, Content-Type application/x-ndjson):
+//
+//   [
+//     { "event": "order.created", "data": { ... }, "id": "evt_1" },
+//     { "event": "order.paid", "data": { ... }, "id": "evt_2" }
+//   ]
+//
+// Each item is admitted on its own, exactly like a single webhook: the
+// optional "id" is its delivery ID for duplicate detection. As it is
+// forwarded in the x-webhook-id header, it must be printable ASCII without
+// spaces. A malformed item (or NDJSON line) is reported as invalid without
+// affecting the others.
+// Items are numbered from 0 in the order they appear; blank NDJSON lines are
+// skipped and not numbered.
+// =============================================================================
+
+import { isObject } from "./guards.js"
+
+/**
+ * One event of a batch
+ * @property event - Event type identifier
+ * @property data - Event payload data
+ * @property id - Delivery ID used for duplicate detection (optional)
+ */
+export interface BatchItem {
+  event: string
+  data: unknown
+  id?: string
+}
+
+/**
+ * A parsed batch entry: the item, or why it could not be read
+ */
+export type BatchEntry =
+  | { index: number; item: BatchItem }
+  | { index: number; error: string }
+
+/**
+ * How an item of a batch was answered
+ * - accepted: queued (or quarantined/dropped by policy)
+ * - duplicate: delivery ID already seen
+ * - invalid: malformed, not allowed for the source, or failed its schema
+ * - refused: throttled or the queue is full; send it again later
+ */
+export type BatchOutcome = "accepted" | "duplicate" | "invalid" | "refused"
+
+/**
+ * A line of an NDJSON document, parsed
+ */
+export type NdjsonLine =
+  | { index: number; value: unknown }
+  | { index: number; error: string }
+
+/**
+ * Parses NDJSON text line by line
+ * A line that is not valid JSON is returned as an error, so one bad line
+ * does not lose the rest of the document.
+ *
+ * @example
+ * parseNdjson('{"a":1}\n\nnot json\n')
+ * // [{ index: 0, value: { a: 1 } }, { index: 1, error: "..." }]
+ */
+export const parseNdjson = (text: string): NdjsonLine[] =>
+  text
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line, index): NdjsonLine => {
+      try {
+        return { index, value: JSON.parse(line) }
+      } catch (err) {
+        return { index, error: `Malformed JSON: ${(err as Error).message}` }
+      }
+    })
+
+/**
+ * Delivery IDs that can be sent as a header value unchanged
+ */
+const DELIVERY_ID = /^[\x21-\x7e]+$/
+
+/**
+ * Validates one batch item
+ * @throws Error describing what is wrong with it
+ */
+const parseItem = (raw: unknown): BatchItem => {
+  if (!isObject(raw)) {
+    throw new Error("Item must be an object")
+  }
+  if (typeof raw.event !== "string" || raw.event.length === 0) {
+    throw new Error(`"event" must be a non-empty string`)
+  }
+  if (
+    raw.id !== undefined &&
+    !(
+      (typeof raw.id === "string" && DELIVERY_ID.test(raw.id)) ||
+      typeof raw.id === "number"
+    )
+  ) {
+    throw new Error(
+      `"id" must be a number or a string of printable ASCII without spaces`
+    )
+  }
+  return {
+    event: raw.event,
+    data: raw.data,
+    ...(raw.id !== undefined && { id: String(raw.id) }),
+  }
+}
+
+/**
+ * Reads the items of a batch body
+ *
+ * @param body - Parsed JSON array, or NDJSON text (as left by the parse
+ *   hook for application/x-ndjson)
+ * @returns BatchEntry[] - One entry per item, or undefined if the body is
+ *   neither an array nor NDJSON
+ */
+export const parseBatch = (body: unknown): BatchEntry[] | undefined => {
+  const values: NdjsonLine[] | undefined = Array.isArray(body)
+    ? body.map((value, index) => ({ index, value }))
+    : typeof body === "string"
+      ? parseNdjson(body)
+      : undefined
+
+  return values?.map((line): BatchEntry => {
+    if ("error" in line) return line
+    try {
+      return { index: line.index, item: parseItem(line.value) }
+    } catch (err) {
+      return { index: line.index, error: (err as Error).message }
+    }
+  })
+}
+
+/**
+ * Classifies the answer a single webhook would have received
+ *
+ * @param status - HTTP status of the answer
+ * @param response - Its body
+ * @returns BatchOutcome
+ */
+export const outcomeOf = (status: number, response: unknown): BatchOutcome => {
+  if ((response as { duplicate?: unknown } | null)?.duplicate === true) {
+    return "duplicate"
+  }
+  if (status === 429 || status >= 500) return "refused"
+  return status < 300 ? "accepted" : "invalid"
+}
@@ -0,0 +1,262 @@
+// =============================================================================
+// CIRCUIT BREAKERS
+// =============================================================================
+// One breaker per downstream target, so an outage of one endpoint does not
+// use up the retries of every event routed to it:
+//
+//   closed    - deliveries flow; consecutive failures are counted
+//   open      - the failure threshold was reached; deliveries are paused
+//               until the cooldown has passed
+//   half-open - the cooldown has passed; one trial delivery is let through.
+//               Success closes the breaker, failure opens it again
+//
+// Operators can also open a breaker by hand (e.g. during a planned
+// maintenance window). A manually opened breaker stays open until it is
+// closed by hand; it never moves to half-open on its own.
+//
+// Breaker state lives in memory and starts closed after a restart.
+// =============================================================================
+
+/**
+ * Breaker state, see the header above
+ */
+export type BreakerState = "closed" | "open" | "half-open"
+
+/**
+ * Thresholds, read on every call so a reloaded configuration applies at once
+ * @property failureThreshold - Consecutive failures that open a breaker
+ *   (0 = never open automatically)
+ * @property cooldownMs - Time an open breaker waits before a trial delivery
+ */
+export interface BreakerSettings {
+  failureThreshold: number
+  cooldownMs: number
+}
+
+/**
+ * Public view of one target's breaker
+ * @property target - Target ID
+ * @property state - Current state
+ * @property consecutiveFailures - Failures since the last success
+ * @property manual - True if opened by an operator
+ * @property openedAt - When the breaker last opened (Unix ms)
+ * @property retryAt - When an open breaker lets a trial through (Unix ms;
+ *   absent when manually opened)
+ * @property lastError - Most recent delivery error
+ */
+export interface BreakerStatus {
+  target: string
+  state: BreakerState
+  consecutiveFailures: number
+  manual: boolean
+  openedAt?: number
+  retryAt?: number
+  lastError?: string
+}
+
+/**
+ * Called whenever a breaker changes state
+ * Manual actions that leave the state unchanged are not reported.
+ */
+export type BreakerListener = (
+  target: string,
+  from: BreakerState,
+  to: BreakerState,
+  reason: string
+) => void
+
+/**
+ * A set of breakers keyed by target ID
+ * @property allow - Whether a delivery to the target may be attempted now;
+ *   moves a cooled-down breaker to half-open and claims its trial
+ * @property success - Records a successful delivery
+ * @property failure - Records a failed delivery
+ * @property release - Gives back a claimed trial without an outcome, for a
+ *   delivery that never reached the target
+ * @property retryAt - Earliest time a paused delivery is worth retrying
+ * @property open - Opens a breaker by hand
+ * @property close - Closes a breaker by hand, clearing its failures
+ * @property status - One breaker's status (closed for unknown targets)
+ */
+export interface CircuitBreakers {
+  allow: (target: string) => boolean
+  success: (target: string) => void
+  failure: (target: string, error: string) => void
+  release: (target: string) => void
+  retryAt: (target: string) => number
+  open: (target: string) => BreakerStatus
+  close: (target: string) => BreakerStatus
+  status: (target: string) => BreakerStatus
+}
+
+/**
+ * State of one target's breaker
+ * @property trialInFlight - A half-open breaker's trial is running
+ */
+interface Breaker {
+  state: BreakerState
+  consecutiveFailures: number
+  manual: boolean
+  trialInFlight: boolean
+  openedAt?: number
+  lastError?: string
+}
+
+/**
+ * Creates a set of circuit breakers
+ *
+ * @param settings - Returns the current thresholds
+ * @param onChange - Notified of every state change (optional)
+ * @returns CircuitBreakers
+ *
+ * @example
+ * const breakers = createCircuitBreakers(() => ({
+ *   failureThreshold: 5,
+ *   cooldownMs: 30_000,
+ * }))
+ * if (breakers.allow("billing")) {
+ *   const result = await deliver(target, payload)
+ *   result.ok
+ *     ? breakers.success("billing")
+ *     : breakers.failure("billing", result.error)
+ * }
+ */
+export const createCircuitBreakers = (
+  settings: () => BreakerSettings,
+  onChange: BreakerListener = () => {}
+): CircuitBreakers => {
+  const breakers = new Map<string, Breaker>()
+
+  const closed = (): Breaker => ({
+    state: "closed",
+    consecutiveFailures: 0,
+    manual: false,
+    trialInFlight: false,
+  })
+
+  const get = (target: string): Breaker => {
+    let breaker = breakers.get(target)
+    if (!breaker) {
+      breaker = closed()
+      breakers.set(target, breaker)
+    }
+    return breaker
+  }
+
+  const transition = (
+    target: string,
+    breaker: Breaker,
+    to: BreakerState,
+    reason: string
+  ): void => {
+    const from = breaker.state
+    if (from === to) return
+    breaker.state = to
+    breaker.trialInFlight = false
+    if (to === "open") breaker.openedAt = Date.now()
+    onChange(target, from, to, reason)
+  }
+
+  const status = (target: string): BreakerStatus => {
+    const breaker = breakers.get(target) ?? closed()
+    return {
+      target,
+      state: breaker.state,
+      consecutiveFailures: breaker.consecutiveFailures,
+      manual: breaker.manual,
+      ...(breaker.openedAt !== undefined && { openedAt: breaker.openedAt }),
+      ...(breaker.state === "open" &&
+        !breaker.manual && {
+          retryAt: (breaker.openedAt ?? 0) + settings().cooldownMs,
+        }),
+      ...(breaker.lastError && { lastError: breaker.lastError }),
+    }
+  }
+
+  return {
+    allow: (target) => {
+      const breaker = get(target)
+      if (breaker.state === "closed") return true
+
+      if (breaker.state === "open") {
+        const cooledDown =
+          Date.now() >= (breaker.openedAt ?? 0) + settings().cooldownMs
+        if (breaker.manual || !cooledDown) return false
+        transition(target, breaker, "half-open", "cooldown elapsed")
+      }
+
+      // Half-open: only one trial at a time
+      if (breaker.trialInFlight) return false
+      breaker.trialInFlight = true
+      return true
+    },
+
+    success: (target) => {
+      const breaker = get(target)
+      breaker.consecutiveFailures = 0
+      // A delivery started before a manual open must not close it again
+      if (breaker.state === "half-open" && !breaker.manual) {
+        transition(target, breaker, "closed", "trial delivery succeeded")
+      }
+    },
+
+    failure: (target, error) => {
+      const breaker = get(target)
+      breaker.consecutiveFailures++
+      breaker.lastError = error
+      if (breaker.manual) return
+
+      if (breaker.state === "half-open") {
+        transition(target, breaker, "open", `trial delivery failed: ${error}`)
+        return
+      }
+      const { failureThreshold } = settings()
+      if (
+        breaker.state === "closed" &&
+        failureThreshold > 0 &&
+        breaker.consecutiveFailures >= failureThreshold
+      ) {
+        transition(
+          target,
+          breaker,
+          "open",
+          `${breaker.consecutiveFailures} consecutive failures`
+        )
+      }
+    },
+
+    release: (target) => {
+      get(target).trialInFlight = false
+    },
+
+    retryAt: (target) => {
+      const breaker = get(target)
+      const { cooldownMs } = settings()
+      if (breaker.state === "open" && !breaker.manual) {
+        return (breaker.openedAt ?? 0) + cooldownMs
+      }
+      // Manually opened, or waiting on another delivery's trial: check again
+      // after a cooldown (closing a breaker also resumes its deliveries)
+      return Date.now() + cooldownMs
+    },
+
+    open: (target) => {
+      const breaker = get(target)
+      // An automatically opened breaker keeps its state but no longer
+      // cools down
+      breaker.manual = true
+      transition(target, breaker, "open", "opened manually")
+      return status(target)
+    },
+
+    close: (target) => {
+      const breaker = get(target)
+      breaker.manual = false
+      breaker.consecutiveFailures = 0
+      transition(target, breaker, "closed", "closed manually")
+      return status(target)
+    },
+
+    status,
+  }
+}
@@ -0,0 +1,596 @@
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+// Every gateway setting, loaded from (highest precedence first):
+//
+//   1. Environment variables, e.g. MAX_RETRIES=5
+//   2. An optional config file (CONFIG_FILE, default gateway.config.yaml)
+//   3. Built-in defaults
+//
+// The file is a flat mapping of setting names to values, as YAML or JSON
+// (chosen by the .json extension):
+//
+//   # gateway.config.yaml
+//   port: 8080
+//   maxRetries: 5
+//   duplicatePolicy: ignore
+//   storagePath: /var/lib/gateway/gateway.journal
+//
+// Values are validated on load; all problems are reported at once and the
+// server does not start. On reload (SIGHUP) only settings marked reloadable
+// take effect; changes to the others are reported and need a restart.
+// =============================================================================
+
+import { existsSync, readFileSync } from "node:fs"
+import type { SignatureScheme } from "./signature.js"
+
+/**
+ * Effective gateway settings
+ * @property port - HTTP port
+ * @property webhookSecret - Secret of the "default" source (key ID "primary")
+ * @property signatureScheme - Scheme of the "default" source
+ *   (hmac-sha256: digest over the raw body; jwt: legacy bearer-style token)
+ * @property timestampToleranceSeconds - Maximum distance between a signed
+ *   timestamp (Stripe-style `t=`, JWT `iat`) and the server clock
+ * @property deliveryIdTtlSeconds - How long a delivery ID is remembered for
+ *   duplicate detection
+ * @property duplicatePolicy - Answer to a repeated delivery ID
+ *   (reject: 409; ignore: 200 without enqueuing again)
+ * @property idempotencyTtlSeconds - How long the response to a request with
+ *   an idempotency key is replayed to repeats
+ * @property maxPayloadBytes - Largest webhook body accepted (413 beyond)
+ * @property maxBatchItems - Most events accepted in one batch (413 beyond)
+ * @property sourceRateLimit - Webhooks per second accepted per source, unless
+ *   the source sets its own (0 = unlimited)
+ * @property sourceRateBurst - Webhooks a source may send back to back
+ * @property ipRateLimit - Webhooks per second accepted per client IP
+ *   (0 = unlimited)
+ * @property ipRateBurst - Webhooks a client IP may send back to back
+ * @property trustProxy - Take the client IP from X-Forwarded-For
+ * @property maxQueueDepth - Queue length at which new webhooks are refused
+ *   with 503 (0 = unlimited)
+ * @property sourcesFile - JSON file with the source registry
+ * @property routesFile - JSON file with the routing rules
+ * @property eventSchemasFile - JSON file with per-event data schemas
+ * @property forwardSecret - Default secret for x-gateway-signature
+ *   (undefined = webhookSecret)
+ * @property forwardTimeoutMs - Default downstream request timeout
+ * @property breakerFailureThreshold - Consecutive failures that open a
+ *   target's circuit breaker (0 = never)
+ * @property breakerCooldownMs - How long an open breaker pauses deliveries
+ *   before a trial
+ * @property workerConcurrency - Queue items delivered at the same time
+ * @property workerPollIntervalMs - How often the idle worker checks for
+ *   retries that have become due
+ * @property maxRetries - Failed attempts before dead-lettering
+ * @property retryBaseDelayMs - First retry delay, doubled per attempt
+ * @property retryMaxDelayMs - Cap on the retry delay
+ * @property shutdownTimeoutMs - How long shutdown waits for in-flight
+ *   deliveries
+ * @property storageDriver - journal (append-only file) or memory
+ * @property storagePath - Journal file
+ * @property historyLimit - Processed-events history entries kept
+ * @property eventLogLimit - Event log records kept (oldest dropped)
+ * @property archiveDir - Directory for the event archive (undefined = off)
+ * @property archiveMaxFileBytes - Size at which a new archive file starts
+ *   (0 = one file per day)
+ * @property archiveGzip - Gzip finished archive files
+ * @property archiveRetentionDays - Days archive files are kept after their
+ *   last write (0 = forever)
+ * @property sseHeartbeatMs - Keep-alive interval on the live event stream
+ * @property adminKeysFile - JSON file with admin API keys and roles
+ * @property adminApiKey - Extra key with the admin role (optional)
+ * @property adminSessionTtlSeconds - Lifetime of a dashboard login
+ * @property devMode - Enables test endpoints; without admin keys, also
+ *   leaves the admin API open
+ * @property testTokenTtlSeconds - Lifetime of tokens from the test endpoints
+ */
+export interface GatewayConfig {
+  port: number
+  webhookSecret: string
+  signatureScheme: SignatureScheme
+  timestampToleranceSeconds: number
+  deliveryIdTtlSeconds: number
+  duplicatePolicy: "reject" | "ignore"
+  idempotencyTtlSeconds: number
+  maxPayloadBytes: number
+  maxBatchItems: number
+  sourceRateLimit: number
+  sourceRateBurst: number
+  ipRateLimit: number
+  ipRateBurst: number
+  trustProxy: boolean
+  maxQueueDepth: number
+  sourcesFile: string
+  routesFile: string
+  eventSchemasFile: string
+  forwardSecret: string | undefined
+  forwardTimeoutMs: number
+  breakerFailureThreshold: number
+  breakerCooldownMs: number
+  workerConcurrency: number
+  workerPollIntervalMs: number
+  maxRetries: number
+  retryBaseDelayMs: number
+  retryMaxDelayMs: number
+  shutdownTimeoutMs: number
+  storageDriver: "journal" | "memory"
+  storagePath: string
+  historyLimit: number
+  eventLogLimit: number
+  archiveDir: string | undefined
+  archiveMaxFileBytes: number
+  archiveGzip: boolean
+  archiveRetentionDays: number
+  sseHeartbeatMs: number
+  adminKeysFile: string
+  adminApiKey: string | undefined
+  adminSessionTtlSeconds: number
+  devMode: boolean
+  testTokenTtlSeconds: number
+}
+
+/**
+ * Where a setting's value came from
+ */
+export type ConfigOrigin = "default" | "file" | "env"
+
+/**
+ * Definition of one setting
+ * @property env - Environment variable that sets it
+ * @property fallback - Default value
+ * @property parse - Converts an env string or file value, throwing an Error
+ *   that describes the expected value
+ * @property secret - Redacted when the config is shown
+ * @property reloadable - Applied on reload; otherwise needs a restart
+ */
+interface Setting<T> {
+  env: string
+  fallback: T
+  parse: (value: unknown) => T
+  secret?: boolean
+  reloadable?: boolean
+}
+
+/**
+ * Extra flags for a setting
+ */
+type SettingFlags = Pick<Setting<unknown>, "secret" | "reloadable">
+
+/**
+ * Whole number within [min, max]; env strings are converted
+ */
+const integer = (
+  env: string,
+  fallback: number,
+  { min = 0, max = Number.MAX_SAFE_INTEGER, ...flags }: SettingFlags & {
+    min?: number
+    max?: number
+  } = {}
+): Setting<number> => ({
+  env,
+  fallback,
+  ...flags,
+  parse: (value) => {
+    const number = typeof value === "string" ? Number(value) : value
+    if (
+      typeof number !== "number" ||
+      !Number.isInteger(number) ||
+      number < min ||
+      number > max
+    ) {
+      throw new Error(
+        max === Number.MAX_SAFE_INTEGER
+          ? `must be an integer >= ${min}`
+          : `must be an integer between ${min} and ${max}`
+      )
+    }
+    return number
+  },
+})
+
+/**
+ * Non-empty string
+ */
+const text = (
+  env: string,
+  fallback: string,
+  flags: SettingFlags = {}
+): Setting<string> => ({
+  env,
+  fallback,
+  ...flags,
+  parse: (value) => {
+    if (typeof value !== "string" || value.length === 0) {
+      throw new Error("must be a non-empty string")
+    }
+    return value
+  },
+})
+
+/**
+ * Non-empty string without a default
+ */
+const optionalText = (
+  env: string,
+  flags: SettingFlags = {}
+): Setting<string | undefined> => ({
+  ...text(env, "", flags),
+  fallback: undefined,
+})
+
+/**
+ * true/false; env strings "true"/"false"/"1"/"0" are converted
+ */
+const flag = (
+  env: string,
+  fallback: boolean,
+  flags: SettingFlags = {}
+): Setting<boolean> => ({
+  env,
+  fallback,
+  ...flags,
+  parse: (value) => {
+    if (value === true || value === "true" || value === "1") return true
+    if (value === false || value === "false" || value === "0") return false
+    throw new Error("must be true or false")
+  },
+})
+
+/**
+ * One of a fixed set of strings
+ */
+const choice = <T extends string>(
+  env: string,
+  options: readonly T[],
+  fallback: T,
+  flags: SettingFlags = {}
+): Setting<T> => ({
+  env,
+  fallback,
+  ...flags,
+  parse: (value) => {
+    if (!options.includes(value as T)) {
+      throw new Error(`must be one of ${options.join(", ")}`)
+    }
+    return value as T
+  },
+})
+
+/**
+ * All settings, keyed by their name in the config file
+ */
+const SETTINGS: { [K in keyof GatewayConfig]: Setting<GatewayConfig[K]> } = {
+  port: integer("PORT", 8080, { min: 1, max: 65535 }),
+  webhookSecret: text("WEBHOOK_SECRET", "super-secret-signature", {
+    secret: true,
+  }),
+  signatureScheme: choice(
+    "SIGNATURE_SCHEME",
+    ["hmac-sha256", "jwt"],
+    "hmac-sha256"
+  ),
+  timestampToleranceSeconds: integer("TIMESTAMP_TOLERANCE_SECONDS", 300, {
+    min: 1,
+    reloadable: true,
+  }),
+  deliveryIdTtlSeconds: integer("DELIVERY_ID_TTL_SECONDS", 24 * 60 * 60, {
+    reloadable: true,
+  }),
+  duplicatePolicy: choice(
+    "DUPLICATE_POLICY",
+    ["reject", "ignore"],
+    "reject",
+    { reloadable: true }
+  ),
+  idempotencyTtlSeconds: integer("IDEMPOTENCY_TTL_SECONDS", 24 * 60 * 60, {
+    min: 1,
+    reloadable: true,
+  }),
+  maxPayloadBytes: integer("MAX_PAYLOAD_BYTES", 1024 * 1024, {
+    min: 1,
+    reloadable: true,
+  }),
+  maxBatchItems: integer("MAX_BATCH_ITEMS", 500, { min: 1, reloadable: true }),
+  sourceRateLimit: integer("SOURCE_RATE_LIMIT", 100, { reloadable: true }),
+  sourceRateBurst: integer("SOURCE_RATE_BURST", 200, {
+    min: 1,
+    reloadable: true,
+  }),
+  ipRateLimit: integer("IP_RATE_LIMIT", 50, { reloadable: true }),
+  ipRateBurst: integer("IP_RATE_BURST", 100, { min: 1, reloadable: true }),
+  trustProxy: flag("TRUST_PROXY", false),
+  maxQueueDepth: integer("MAX_QUEUE_DEPTH", 10_000, { reloadable: true }),
+  sourcesFile: text("WEBHOOK_SOURCES_FILE", "webhook-sources.json"),
+  routesFile: text("ROUTES_FILE", "routes.json"),
+  eventSchemasFile: text("EVENT_SCHEMAS_FILE", "event-schemas.json"),
+  forwardSecret: optionalText("FORWARD_SECRET", { secret: true }),
+  forwardTimeoutMs: integer("FORWARD_TIMEOUT_MS", 10_000, {
+    min: 1,
+    reloadable: true,
+  }),
+  breakerFailureThreshold: integer("BREAKER_FAILURE_THRESHOLD", 5, {
+    reloadable: true,
+  }),
+  breakerCooldownMs: integer("BREAKER_COOLDOWN_MS", 30_000, {
+    min: 1,
+    reloadable: true,
+  }),
+  workerConcurrency: integer("WORKER_CONCURRENCY", 4, { min: 1 }),
+  workerPollIntervalMs: integer("WORKER_POLL_INTERVAL_MS", 500, { min: 1 }),
+  maxRetries: integer("MAX_RETRIES", 3, { min: 1, reloadable: true }),
+  retryBaseDelayMs: integer("RETRY_BASE_DELAY_MS", 1_000, {
+    reloadable: true,
+  }),
+  retryMaxDelayMs: integer("RETRY_MAX_DELAY_MS", 60_000, {
+    reloadable: true,
+  }),
+  shutdownTimeoutMs: integer("SHUTDOWN_TIMEOUT_MS", 10_000, {
+    reloadable: true,
+  }),
+  storageDriver: choice("STORAGE_DRIVER", ["journal", "memory"], "journal"),
+  storagePath: text("STORAGE_PATH", "data/gateway.journal"),
+  historyLimit: integer("HISTORY_LIMIT", 20, { min: 1 }),
+  eventLogLimit: integer("EVENT_LOG_LIMIT", 10_000, { min: 1 }),
+  archiveDir: optionalText("ARCHIVE_DIR"),
+  archiveMaxFileBytes: integer("ARCHIVE_MAX_FILE_BYTES", 64 * 1024 * 1024),
+  archiveGzip: flag("ARCHIVE_GZIP", false),
+  archiveRetentionDays: integer("ARCHIVE_RETENTION_DAYS", 90),
+  sseHeartbeatMs: integer("SSE_HEARTBEAT_MS", 15_000, {
+    min: 1,
+    reloadable: true,
+  }),
+  adminKeysFile: text("ADMIN_KEYS_FILE", "admin-keys.json"),
+  adminApiKey: optionalText("ADMIN_API_KEY", { secret: true }),
+  adminSessionTtlSeconds: integer("ADMIN_SESSION_TTL_SECONDS", 8 * 60 * 60, {
+    min: 1,
+    reloadable: true,
+  }),
+  devMode: flag("DEV_MODE", false),
+  testTokenTtlSeconds: integer("TEST_TOKEN_TTL_SECONDS", 60 * 60, {
+    min: 1,
+    reloadable: true,
+  }),
+}
+
+/**
+ * Setting names in definition order
+ */
+const KEYS = Object.keys(SETTINGS) as (keyof GatewayConfig)[]
+
+/**
+ * Config file in use (undefined = none found)
+ */
+let configFile: string | undefined
+
+/**
+ * Origin of each current value
+ */
+let origins = {} as Record<keyof GatewayConfig, ConfigOrigin>
+
+/**
+ * Removes a trailing `# comment` outside quotes
+ */
+const stripComment = (line: string): string => {
+  let quote: string | undefined
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]!
+    if (quote) {
+      if (char === quote) quote = undefined
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === "#" && (i === 0 || /\s/.test(line[i - 1]!))) {
+      return line.slice(0, i)
+    }
+  }
+  return line
+}
+
+/**
+ * Converts a YAML scalar: quoted string, number, boolean, null or plain text
+ */
+const parseScalar = (raw: string): unknown => {
+  if (raw === "" || raw === "~" || raw === "null") return null
+  if (raw === "true") return true
+  if (raw === "false") return false
+  if (/^-?\d+(\.\d+)?$/.test(raw)) return Number(raw)
+  if (raw.startsWith('"')) return JSON.parse(raw)
+  if (raw.startsWith("'") && raw.endsWith("'") && raw.length > 1) {
+    return raw.slice(1, -1).replace(/''/g, "'")
+  }
+  return raw
+}
+
+/**
+ * Parses a flat YAML mapping (`key: value` per line, comments allowed)
+ * Nested mappings and lists are not settings and are refused.
+ */
+const parseYaml = (content: string, path: string): Record<string, unknown> => {
+  const result: Record<string, unknown> = {}
+  content.split(/\r?\n/).forEach((line, index) => {
+    const stripped = stripComment(line).trimEnd()
+    if (stripped.trim() === "" || stripped === "---") return
+
+    const match = /^([A-Za-z_][\w]*)\s*:(?:\s+(.*))?$/.exec(stripped)
+    if (!match) {
+      throw new Error(`${path}:${index + 1}: expected "<setting>: <value>"`)
+    }
+    try {
+      result[match[1]!] = parseScalar((match[2] ?? "").trim())
+    } catch {
+      throw new Error(`${path}:${index + 1}: invalid quoted string`)
+    }
+  })
+  return result
+}
+
+/**
+ * Reads settings from a config file (missing file = none)
+ */
+const readConfigFile = (path: string): Record<string, unknown> | undefined => {
+  if (!existsSync(path)) return undefined
+  const content = readFileSync(path, "utf8")
+
+  if (!path.endsWith(".json")) return parseYaml(content, path)
+  const file = JSON.parse(content)
+  if (typeof file !== "object" || file === null || Array.isArray(file)) {
+    throw new Error(`${path}: expected an object of settings`)
+  }
+  return file
+}
+
+/**
+ * Resolves and validates every setting
+ *
+ * @returns The values with their origins, and the file if one was read
+ * @throws Error listing every invalid value and unknown file setting
+ */
+const resolveConfig = (
+  path: string,
+  env: NodeJS.ProcessEnv
+): {
+  values: GatewayConfig
+  origins: Record<keyof GatewayConfig, ConfigOrigin>
+  file: string | undefined
+} => {
+  const file = readConfigFile(path)
+  const errors: string[] = []
+  const values: Record<string, unknown> = {}
+  const resolvedOrigins: Record<string, ConfigOrigin> = {}
+
+  Object.keys(file ?? {})
+    .filter((key) => !(key in SETTINGS))
+    .forEach((key) => errors.push(`${path}: unknown setting "${key}"`))
+
+  for (const key of KEYS) {
+    const setting: Setting<unknown> = SETTINGS[key]
+    const fromEnv = env[setting.env]
+    const fromFile = file?.[key]
+    // An empty env variable or a null file value means "not set"
+    const [origin, raw, where]: [ConfigOrigin, unknown, string] =
+      fromEnv !== undefined && fromEnv !== ""
+        ? ["env", fromEnv, setting.env]
+        : fromFile !== undefined && fromFile !== null
+          ? ["file", fromFile, `${path}: ${key}`]
+          : ["default", setting.fallback, key]
+
+    resolvedOrigins[key] = origin
+    if (origin === "default") {
+      values[key] = raw
+      continue
+    }
+    try {
+      values[key] = setting.parse(raw)
+    } catch (err) {
+      const shown = setting.secret ? "" : ` (got ${JSON.stringify(raw)})`
+      errors.push(`${where}: ${(err as Error).message}${shown}`)
+    }
+  }
+
+  if (
+    errors.length === 0 &&
+    (values.retryMaxDelayMs as number) < (values.retryBaseDelayMs as number)
+  ) {
+    errors.push("retryMaxDelayMs must not be below retryBaseDelayMs")
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n  - ${errors.join("\n  - ")}`)
+  }
+
+  return {
+    values: values as unknown as GatewayConfig,
+    origins: resolvedOrigins as Record<keyof GatewayConfig, ConfigOrigin>,
+    file: file && path,
+  }
+}
+
+/**
+ * Loads the configuration at startup
+ *
+ * @param path - Config file (missing file = env and defaults only)
+ * @param env - Environment variables
+ * @returns GatewayConfig - Settings object; reloadConfig updates it in place
+ * @throws Error listing every invalid value
+ *
+ * @example
+ * const config = loadConfig(process.env.CONFIG_FILE || "gateway.config.yaml")
+ * config.maxRetries // 3
+ */
+export const loadConfig = (
+  path: string,
+  env: NodeJS.ProcessEnv = process.env
+): GatewayConfig => {
+  const resolved = resolveConfig(path, env)
+  configFile = resolved.file
+  origins = resolved.origins
+  return resolved.values
+}
+
+/**
+ * Re-reads the configuration and applies the reloadable settings
+ *
+ * @param config - Object returned by loadConfig, updated in place
+ * @param path - Config file
+ * @param env - Environment variables
+ * @returns applied - Settings whose new value took effect;
+ *   restartRequired - Changed settings that only apply after a restart
+ * @throws Error if the new configuration is invalid (nothing is applied)
+ */
+export const reloadConfig = (
+  config: GatewayConfig,
+  path: string,
+  env: NodeJS.ProcessEnv = process.env
+): { applied: string[]; restartRequired: string[] } => {
+  const resolved = resolveConfig(path, env)
+  const applied: string[] = []
+  const restartRequired: string[] = []
+
+  for (const key of KEYS) {
+    if (resolved.values[key] === config[key]) continue
+    if (SETTINGS[key].reloadable) {
+      Object.assign(config, { [key]: resolved.values[key] })
+      origins[key] = resolved.origins[key]
+      applied.push(key)
+    } else {
+      restartRequired.push(key)
+    }
+  }
+
+  configFile = resolved.file
+  return { applied, restartRequired }
+}
+
+/**
+ * Describes the effective configuration with secrets redacted
+ *
+ * @param config - Current settings
+ * @returns file - Config file in use (null = none);
+ *   settings - Per setting: value ("[redacted]" for secrets that are set),
+ *   origin, environment variable and whether it is reloadable
+ */
+export const describeConfig = (
+  config: GatewayConfig
+): {
+  file: string | null
+  settings: Record<
+    string,
+    { value: unknown; origin: ConfigOrigin; env: string; reloadable: boolean }
+  >
+} => ({
+  file: configFile ?? null,
+  settings: Object.fromEntries(
+    KEYS.map((key) => {
+      const setting: Setting<unknown> = SETTINGS[key]
+      const value = config[key] ?? null
+      return [
+        key,
+        {
+          value: setting.secret && value !== null ? "[redacted]" : value,
+          origin: origins[key],
+          env: setting.env,
+          reloadable: setting.reloadable ?? false,
+        },
+      ]
+    })
+  ),
+})
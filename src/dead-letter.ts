@@ -0,0 +1,124 @@
+// =============================================================================
+// DEAD-LETTER QUEUE
+// =============================================================================
+// Queue items that exhaust their retries are moved here instead of being
+// discarded. Each entry keeps everything needed to inspect or replay the
+// delivery: payload, request headers, every attempt's error and timestamps.
+// Entries are kept in the configured Storage (see initDeadLetters).
+// =============================================================================
+
+import { randomUUID } from "node:crypto"
+import { createMemoryStorage, type Storage } from "./storage.js"
+import type {
+  DeliveryAttempt,
+  WebhookPayload,
+  WebhookQueueItem,
+} from "./types.js"
+
+/**
+ * A webhook that could not be delivered
+ * @property id - Unique dead-letter ID
+ * @property eventId - ID of the event log record
+ * @property payload - The original webhook payload
+ * @property headers - Request headers as received
+ * @property deliveryId - Sender's delivery ID, if one was provided
+ * @property attempts - Every delivery attempt with its error
+ * @property failedTargets - Targets that never returned 2xx
+ * @property receivedAt - When the webhook was originally received (Unix ms)
+ * @property deadLetteredAt - When retries were exhausted (Unix ms)
+ */
+export interface DeadLetter {
+  id: string
+  eventId: string
+  payload: WebhookPayload
+  headers: Record<string, string>
+  deliveryId?: string
+  attempts: DeliveryAttempt[]
+  failedTargets: string[]
+  receivedAt: number
+  deadLetteredAt: number
+}
+
+/**
+ * Filter for listing, replaying or purging several entries at once
+ * @property ids - Only these entries
+ * @property source - Only entries from this source
+ * @property event - Only entries with this event name
+ */
+export interface DeadLetterFilter {
+  ids?: string[]
+  source?: string
+  event?: string
+}
+
+/**
+ * Backend holding the entries; in memory until initDeadLetters is called
+ */
+let storage: Storage = createMemoryStorage({ historyLimit: 0, eventLimit: 0 })
+
+/**
+ * Selects the storage backend for dead-lettered webhooks
+ * Call once at startup, before any entry is added
+ */
+export const initDeadLetters = (backend: Storage): void => {
+  storage = backend
+}
+
+/**
+ * Moves an exhausted queue item into the dead-letter queue
+ *
+ * @param item - Queue item whose retries are exhausted
+ * @returns DeadLetter - The stored entry
+ */
+export const addDeadLetter = (item: WebhookQueueItem): DeadLetter => {
+  const entry: DeadLetter = {
+    id: randomUUID(),
+    eventId: item.eventId,
+    payload: item.payload,
+    headers: item.headers,
+    attempts: item.attempts,
+    failedTargets: item.pendingTargets ?? [],
+    receivedAt: item.addedAt,
+    deadLetteredAt: Date.now(),
+    ...(item.deliveryId && { deliveryId: item.deliveryId }),
+  }
+  storage.putDeadLetter(entry)
+  return entry
+}
+
+/**
+ * Checks an entry against a filter (empty filter matches everything)
+ */
+const matches = (entry: DeadLetter, filter: DeadLetterFilter): boolean =>
+  (!filter.ids || filter.ids.includes(entry.id)) &&
+  (!filter.source || entry.payload.source === filter.source) &&
+  (!filter.event || entry.payload.event === filter.event)
+
+/**
+ * Lists dead-lettered webhooks, newest first
+ */
+export const listDeadLetters = (filter: DeadLetterFilter = {}): DeadLetter[] =>
+  storage.deadLetters().filter((entry) => matches(entry, filter))
+
+/**
+ * Looks up a dead-lettered webhook by ID
+ */
+export const getDeadLetter = (id: string): DeadLetter | undefined =>
+  storage.deadLetters().find((entry) => entry.id === id)
+
+/**
+ * Removes and returns every entry matching a filter
+ * Used both to purge entries and to take them out for replay
+ *
+ * @returns DeadLetter[] - The removed entries
+ */
+export const takeDeadLetters = (filter: DeadLetterFilter = {}): DeadLetter[] => {
+  const taken = listDeadLetters(filter)
+  taken.forEach((entry) => storage.removeDeadLetter(entry.id))
+  return taken
+}
+
+/**
+ * Number of entries currently in the dead-letter queue
+ */
+export const deadLetterCount = (): number => storage.deadLetters().length
@@ -0,0 +1,113 @@
+// =============================================================================
+// EVENT EXPORT
+// =============================================================================
+// Serialises event log records for GET /events/export, oldest first:
+//
+//   - ndjson: one full record per line (payload, headers, attempts), in the
+//     format the offline import reads
+//   - csv: one row per record with a header row; `data` as JSON and tags
+//     joined by ";", for spreadsheets
+//
+// Each event appears once, as it is now, unlike the archive
+// (src/archive.ts), which holds a snapshot per state change.
+//
+// The body is streamed in chunks, so a large export neither sits in memory
+// as one string nor blocks other requests while it is written.
+// =============================================================================
+
+import type { EventRecord } from "./event-log.js"
+
+/**
+ * Formats offered by the export
+ */
+export type ExportFormat = "ndjson" | "csv"
+
+/**
+ * Content type of each format
+ */
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  ndjson: "application/x-ndjson",
+  csv: "text/csv; charset=utf-8",
+}
+
+/**
+ * Records serialised per chunk of the response
+ */
+const RECORDS_PER_CHUNK = 200
+
+/**
+ * CSV columns and how each is read from a record
+ */
+const CSV_COLUMNS: [string, (record: EventRecord) => unknown][] = [
+  ["id", (record) => record.id],
+  ["seq", (record) => record.seq],
+  ["receivedAt", (record) => new Date(record.receivedAt).toISOString()],
+  ["updatedAt", (record) => new Date(record.updatedAt).toISOString()],
+  ["source", (record) => record.payload.source],
+  ["event", (record) => record.payload.event],
+  ["status", (record) => record.status],
+  ["deliveryId", (record) => record.deliveryId],
+  ["replayOf", (record) => record.replayOf],
+  ["attempts", (record) => record.attempts.length],
+  ["tags", (record) => record.tags?.join(";")],
+  ["error", (record) => record.error],
+  ["data", (record) => JSON.stringify(record.payload.data)],
+]
+
+/**
+ * Quotes a CSV field if needed
+ * Text that a spreadsheet would run as a formula (=, +, -, @) is prefixed
+ * with an apostrophe, since senders control most columns.
+ */
+const csvField = (value: unknown): string => {
+  if (value === undefined || value === null) return ""
+  if (typeof value === "number") return String(value)
+
+  let text = String(value)
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\n\r]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+/**
+ * Serialises one record as a line of the format
+ */
+const formatRecord = (record: EventRecord, format: ExportFormat): string =>
+  format === "ndjson"
+    ? `${JSON.stringify(record)}\n`
+    : `${CSV_COLUMNS.map(([, read]) => csvField(read(record))).join(",")}\r\n`
+
+/**
+ * Streams records in an export format
+ *
+ * @param records - Records to export, in order
+ * @param format - ndjson or csv
+ * @returns ReadableStream - Response body
+ *
+ * @example
+ * new Response(exportStream(exportEvents({ source: "shop" }), "csv"))
+ */
+export const exportStream = (
+  records: readonly EventRecord[],
+  format: ExportFormat
+): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder()
+  let next = 0
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === "csv") {
+        const header = CSV_COLUMNS.map(([name]) => name).join(",")
+        controller.enqueue(encoder.encode(`${header}\r\n`))
+      }
+    },
+    pull(controller) {
+      const chunk = records
+        .slice(next, next + RECORDS_PER_CHUNK)
+        .map((record) => formatRecord(record, format))
+        .join("")
+      next += RECORDS_PER_CHUNK
+      if (chunk) controller.enqueue(encoder.encode(chunk))
+      if (next >= records.length) controller.close()
+    },
+  })
+}
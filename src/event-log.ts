@@ -0,0 +1,395 @@
+// =============================================================================
+// EVENT LOG
+// =============================================================================
+// Every webhook that is accepted, deduplicated, dropped, quarantined or
+// rejected (schema, rate limit, size, backpressure) gets a record with its
+// payload, request headers, delivery attempts and current status. Requests
+// refused before their signature is checked are logged as event "unknown"
+// without anything the sender wrote. Credentials and the source's signature
+// are masked in the stored headers (see redactHeaders). Unlike the processed-event history (a
+// short rolling feed for the dashboard), the log keeps up to the storage's
+// event limit and supports filtering and cursor pagination.
+//
+// Records are numbered with an increasing `seq`; pages are returned newest
+// first and the cursor is the `seq` of the last record on the previous page,
+// so pages stay stable while new webhooks arrive.
+//
+// New records, and records reaching a final delivery state, can also be
+// copied to an archive (see src/archive.ts) that outlives the log.
+// =============================================================================
+
+import { randomUUID } from "node:crypto"
+import { matchesGlob } from "./glob.js"
+import { createMemoryStorage, type Storage } from "./storage.js"
+import type { SchemaError } from "./json-schema.js"
+import type { DeliveryAttempt, WebhookPayload } from "./types.js"
+
+/**
+ * Lifecycle state of a logged webhook
+ * - queued: waiting for (another) delivery attempt
+ * - delivered: every target returned 2xx
+ * - dead-lettered: retries exhausted, held in the DLQ
+ * - duplicate: delivery ID already seen, not enqueued
+ * - rejected: `data` failed schema validation (or no schema and the
+ *   unknown-event policy is reject), refused with 422
+ * - quarantined: no schema registered, accepted but not enqueued
+ * - dropped: matched a drop routing rule, accepted but not enqueued
+ */
+export type EventStatus =
+  | "queued"
+  | "delivered"
+  | "dead-lettered"
+  | "duplicate"
+  | "rejected"
+  | "quarantined"
+  | "dropped"
+
+/**
+ * One received webhook
+ * @property id - Unique event ID
+ * @property seq - Increasing sequence number (pagination cursor)
+ * @property payload - Event name, data and source
+ * @property headers - Request headers as received
+ * @property status - Current lifecycle state
+ * @property attempts - Every delivery attempt so far
+ * @property receivedAt - When the webhook arrived (Unix ms)
+ * @property updatedAt - When the record last changed (Unix ms)
+ * @property deliveryId - Sender's delivery ID, if one was provided
+ * @property error - Most recent delivery error, or why it was rejected
+ * @property validationErrors - Schema violations (rejected records only)
+ * @property tags - Labels added by routing rules
+ * @property replayOf - ID of the record this one replays (see
+ *   POST /events/replay)
+ */
+export interface EventRecord {
+  id: string
+  seq: number
+  payload: WebhookPayload
+  headers: Record<string, string>
+  status: EventStatus
+  attempts: DeliveryAttempt[]
+  receivedAt: number
+  updatedAt: number
+  deliveryId?: string
+  error?: string
+  validationErrors?: SchemaError[]
+  tags?: string[]
+  replayOf?: string
+}
+
+/**
+ * Search criteria for queryEvents (all optional, combined with AND)
+ * @property event - Event name glob, e.g. "order.*"
+ * @property status - Only records in this state
+ * @property source - Only records from this source
+ * @property tag - Only records carrying this routing tag
+ * @property since - Received at or after this time (Unix ms)
+ * @property until - Received at or before this time (Unix ms)
+ * @property cursor - `nextCursor` from the previous page
+ * @property limit - Page size
+ */
+export interface EventQuery {
+  event?: string
+  status?: EventStatus
+  source?: string
+  tag?: string
+  since?: number
+  until?: number
+  cursor?: string
+  limit: number
+}
+
+/**
+ * Filters of an EventQuery, for exports
+ */
+export type EventFilter = Omit<EventQuery, "cursor" | "limit">
+
+/**
+ * Events to send again, in addition to the filters (all must match)
+ * @property ids - Only these events
+ * @property fromId - First event of an inclusive range (open if absent)
+ * @property toId - Last event of an inclusive range (open if absent)
+ */
+export interface ReplaySelection extends EventFilter {
+  ids?: string[]
+  fromId?: string
+  toId?: string
+}
+
+/**
+ * States a replay selects unless a status is asked for
+ * Queued events are still being delivered, and the rest were refused or
+ * held back on purpose (rejected ones may not even be authenticated).
+ */
+export const DEFAULT_REPLAY_STATUSES: EventStatus[] = [
+  "delivered",
+  "dead-lettered",
+]
+
+/**
+ * One page of query results
+ * @property events - Matching records, newest first
+ * @property nextCursor - Pass as `cursor` for the next page (absent on the last)
+ */
+export interface EventPage {
+  events: EventRecord[]
+  nextCursor?: string
+}
+
+/**
+ * Backend holding the records; in memory until initEventLog is called
+ */
+let storage: Storage = createMemoryStorage({ historyLimit: 0, eventLimit: 0 })
+
+/**
+ * Sequence number of the newest record
+ */
+let lastSeq = 0
+
+/**
+ * Receives copies of records for the archive; none until archiveEvents is
+ * called
+ */
+let archive: ((record: EventRecord) => void) | undefined
+
+/**
+ * Selects the storage backend for the event log
+ * Call once at startup; numbering continues after the stored records
+ */
+export const initEventLog = (backend: Storage): void => {
+  storage = backend
+  lastSeq = backend.events().at(-1)?.seq ?? 0
+}
+
+/**
+ * Copies new records, and records that are delivered or dead-lettered, to
+ * an archive
+ * Call once at startup, after initEventLog
+ */
+export const archiveEvents = (write: (record: EventRecord) => void): void => {
+  archive = write
+}
+
+/**
+ * Optional fields of a new record
+ * @property deliveryId - Sender's delivery ID (undefined = none provided)
+ * @property error - Why the webhook was rejected
+ * @property validationErrors - Schema violations
+ * @property tags - Labels added by routing rules
+ * @property replayOf - ID of the record being replayed
+ */
+export interface RecordDetails {
+  deliveryId?: string | undefined
+  error?: string
+  validationErrors?: SchemaError[]
+  tags?: string[]
+  replayOf?: string
+}
+
+/**
+ * Headers masked in every stored record, as they carry credentials
+ */
+const CREDENTIAL_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "x-api-key",
+]
+
+/**
+ * Placeholder stored instead of a masked header's value
+ */
+const REDACTED = "[redacted]"
+
+/**
+ * Copies request headers for storage, masking credentials and the signature
+ * A stored signature would let anyone who can read the log resend the
+ * request as a valid one.
+ *
+ * @param headers - Request headers as received (lower-case names)
+ * @param signatureHeader - Header carrying the source's signature (optional)
+ * @returns Record<string, string> - Headers safe to store
+ *
+ * @example
+ * redactHeaders({ cookie: "sid=1", "x-shop-signature": "sha256=..." }, "x-shop-signature")
+ * // { cookie: "[redacted]", "x-shop-signature": "[redacted]" }
+ */
+export const redactHeaders = (
+  headers: Record<string, string>,
+  signatureHeader?: string
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      CREDENTIAL_HEADERS.includes(name) || name === signatureHeader
+        ? REDACTED
+        : value,
+    ])
+  )
+
+/**
+ * Logs a newly received webhook
+ *
+ * @param payload - Event name, data and source
+ * @param headers - Request headers to store (see redactHeaders)
+ * @param status - Initial state ("queued", "duplicate", "rejected",
+ *   "quarantined" or "dropped")
+ * @param details - Delivery ID, rejection details, tags and the replayed
+ *   record (optional)
+ * @returns EventRecord - The stored record
+ */
+export const recordEvent = (
+  payload: WebhookPayload,
+  headers: Record<string, string>,
+  status: EventStatus,
+  { deliveryId, error, validationErrors, tags, replayOf }: RecordDetails = {}
+): EventRecord => {
+  const now = Date.now()
+  const record: EventRecord = {
+    id: randomUUID(),
+    seq: ++lastSeq,
+    payload,
+    headers,
+    status,
+    attempts: [],
+    receivedAt: now,
+    updatedAt: now,
+    ...(deliveryId && { deliveryId }),
+    ...(error && { error }),
+    ...(validationErrors && { validationErrors }),
+    ...(tags?.length && { tags }),
+    ...(replayOf && { replayOf }),
+  }
+  storage.putEvent(record)
+  archive?.(record)
+  return record
+}
+
+/**
+ * Updates a record's status and appends a delivery attempt
+ * Records already dropped by retention are ignored
+ *
+ * @param id - Event ID
+ * @param status - New lifecycle state
+ * @param attempt - Attempt to append (optional); a failed attempt also
+ *   becomes the record's `error`
+ * @returns EventRecord - The updated record, or undefined if unknown
+ */
+export const updateEvent = (
+  id: string,
+  status: EventStatus,
+  attempt?: DeliveryAttempt
+): EventRecord | undefined => {
+  const record = storage.getEvent(id)
+  if (!record) return undefined
+
+  record.status = status
+  record.updatedAt = Date.now()
+  if (attempt) {
+    record.attempts.push(attempt)
+    if (attempt.error) record.error = attempt.error
+  }
+  storage.putEvent(record)
+  if (status === "delivered" || status === "dead-lettered") archive?.(record)
+  return record
+}
+
+/**
+ * Looks up a logged webhook by ID
+ */
+export const getEvent = (id: string): EventRecord | undefined =>
+  storage.getEvent(id)
+
+/**
+ * IDs of the records replaying a record, oldest first
+ */
+export const replaysOf = (id: string): string[] =>
+  storage
+    .events()
+    .filter((record) => record.replayOf === id)
+    .map((record) => record.id)
+
+/**
+ * Checks a record against the filters of a query (cursor and limit aside)
+ */
+const matchesQuery = (record: EventRecord, query: EventFilter): boolean =>
+  (query.since === undefined || record.receivedAt >= query.since) &&
+  (query.until === undefined || record.receivedAt <= query.until) &&
+  (!query.status || record.status === query.status) &&
+  (!query.source || record.payload.source === query.source) &&
+  (!query.tag || (record.tags?.includes(query.tag) ?? false)) &&
+  (!query.event || matchesGlob(query.event, record.payload.event))
+
+/**
+ * Searches the log, newest first
+ *
+ * @param query - Filters, cursor and page size
+ * @returns EventPage
+ *
+ * @example
+ * const first = queryEvents({ event: "order.*", status: "dead-lettered", limit: 50 })
+ * const second = queryEvents({ ...sameFilters, cursor: first.nextCursor, limit: 50 })
+ */
+export const queryEvents = (query: EventQuery): EventPage => {
+  const records = storage.events()
+  const before = query.cursor ? Number(query.cursor) : Infinity
+  const page: EventRecord[] = []
+
+  for (let i = records.length - 1; i >= 0; i--) {
+    const record = records[i]!
+    if (record.seq >= before) continue
+    if (query.since !== undefined && record.receivedAt < query.since) break
+    if (!matchesQuery(record, query)) continue
+
+    // One extra match tells us whether another page exists
+    if (page.length === query.limit) {
+      return { events: page, nextCursor: String(page.at(-1)!.seq) }
+    }
+    page.push(record)
+  }
+  return { events: page }
+}
+
+/**
+ * Every record matching the filters, oldest first
+ *
+ * @param filter - Filters of EventQuery, without cursor or limit
+ * @returns EventRecord[] - A snapshot; records arriving later are not added
+ *
+ * @example
+ * exportEvents({ source: "shop", since: Date.parse("2026-10-01") })
+ */
+export const exportEvents = (filter: EventFilter): EventRecord[] =>
+  storage.events().filter((record) => matchesQuery(record, filter))
+
+/**
+ * Every record a replay would resend, oldest first
+ * Without a status filter only DEFAULT_REPLAY_STATUSES are selected. A range
+ * end that is not in the log selects nothing.
+ *
+ * @param selection - IDs, range and filters
+ * @returns EventRecord[]
+ *
+ * @example
+ * selectReplays({ fromId: first.id, toId: last.id, event: "order.*" })
+ * // delivered and dead-lettered order events logged from first to last
+ */
+export const selectReplays = ({
+  ids,
+  fromId,
+  toId,
+  ...filter
+}: ReplaySelection): EventRecord[] => {
+  const from = fromId === undefined ? undefined : storage.getEvent(fromId)
+  const to = toId === undefined ? undefined : storage.getEvent(toId)
+  if ((fromId !== undefined && !from) || (toId !== undefined && !to)) return []
+
+  const wanted = ids && new Set(ids)
+  return exportEvents(filter).filter(
+    (record) =>
+      (filter.status || DEFAULT_REPLAY_STATUSES.includes(record.status)) &&
+      (!wanted || wanted.has(record.id)) &&
+      record.seq >= (from?.seq ?? -Infinity) &&
+      record.seq <= (to?.seq ?? Infinity)
+  )
+}
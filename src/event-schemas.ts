@@ -0,0 +1,172 @@
+// =============================================================================
+// EVENT SCHEMAS
+// =============================================================================
+// Validates the `data` of incoming webhooks against a JSON Schema registered
+// per event type, optionally narrowed to specific sources:
+//
+//   {
+//     "unknownEvents": "quarantine",
+//     "schemas": [
+//       {
+//         "event": "order.created",
+//         "sources": ["shop"],
+//         "schema": {
+//           "type": "object",
+//           "required": ["orderId", "total"],
+//           "properties": {
+//             "orderId": { "type": "string" },
+//             "total": { "type": "number", "minimum": 0 }
+//           }
+//         }
+//       },
+//       { "event": "user.*", "schema": { "type": "object" } }
+//     ]
+//   }
+//
+// The first entry whose event glob and sources match is used, so list
+// source-specific entries before generic ones. Events without a matching
+// entry follow the `unknownEvents` policy:
+//   - accept: deliver without validation (default)
+//   - reject: refuse with 422
+//   - quarantine: accept and log, but do not deliver
+//
+// See src/json-schema.ts for the supported keywords.
+// =============================================================================
+
+import { existsSync, readFileSync } from "node:fs"
+import { matchesGlob } from "./glob.js"
+import { isObject, isStringArray } from "./guards.js"
+import {
+  checkSchema,
+  validateJson,
+  type JsonSchema,
+  type SchemaError,
+} from "./json-schema.js"
+import type { WebhookPayload } from "./types.js"
+
+/**
+ * What happens to events without a registered schema
+ */
+export type UnknownEventPolicy = "accept" | "reject" | "quarantine"
+
+/**
+ * A schema registered for an event type
+ * @property event - Event name glob, e.g. "order.created" or "order.*"
+ * @property sources - Source IDs this entry applies to (undefined = all)
+ * @property schema - JSON Schema the event's `data` must satisfy
+ */
+export interface EventSchema {
+  event: string
+  sources?: string[]
+  schema: JsonSchema
+}
+
+/**
+ * Outcome of checking a payload
+ * - valid: a schema matched and `data` satisfies it
+ * - invalid: a schema matched and `data` violates it
+ * - unknown: no schema is registered; apply `policy`
+ */
+export type SchemaVerdict =
+  | { outcome: "valid"; schema: EventSchema }
+  | { outcome: "invalid"; schema: EventSchema; errors: SchemaError[] }
+  | { outcome: "unknown"; policy: UnknownEventPolicy }
+
+/**
+ * Loaded schemas in file order
+ */
+const schemas: EventSchema[] = []
+
+/**
+ * Policy for events without a schema
+ */
+let unknownPolicy: UnknownEventPolicy = "accept"
+
+/**
+ * Validates one raw entry from the schemas file
+ */
+const parseEventSchema = (raw: unknown, index: number): EventSchema => {
+  const where = `schemas[${index}]`
+
+  if (
+    !isObject(raw) ||
+    typeof raw.event !== "string" ||
+    raw.event.length === 0
+  ) {
+    throw new Error(`${where}: "event" must be a non-empty string`)
+  }
+  const { event, sources, schema } = raw
+  if (sources !== undefined && !isStringArray(sources)) {
+    throw new Error(`${where} (${event}): "sources" must be a string array`)
+  }
+  checkSchema(schema, `${where} (${event}).schema`)
+
+  return {
+    event,
+    schema: schema as JsonSchema,
+    ...(sources && { sources }),
+  }
+}
+
+/**
+ * Loads the schema registry
+ *
+ * @param path - JSON file with a "schemas" array (missing file = no schemas,
+ *   every event accepted)
+ * @throws Error if the file exists but is malformed or uses an unsupported
+ *   schema keyword
+ */
+export const loadEventSchemas = (path: string): void => {
+  schemas.length = 0
+  unknownPolicy = "accept"
+
+  if (!existsSync(path)) return
+
+  const file = JSON.parse(readFileSync(path, "utf8"))
+  if (!Array.isArray(file?.schemas)) {
+    throw new Error(`${path}: expected a top-level "schemas" array`)
+  }
+
+  const policy = file.unknownEvents ?? "accept"
+  if (!["accept", "reject", "quarantine"].includes(policy)) {
+    throw new Error(`${path}: unknown "unknownEvents" policy "${policy}"`)
+  }
+  unknownPolicy = policy
+
+  file.schemas.forEach((raw: unknown, index: number) => {
+    schemas.push(parseEventSchema(raw, index))
+  })
+}
+
+/**
+ * Lists the registered schemas and the unknown-event policy
+ */
+export const listEventSchemas = (): {
+  unknownEvents: UnknownEventPolicy
+  schemas: EventSchema[]
+} => ({ unknownEvents: unknownPolicy, schemas })
+
+/**
+ * Checks a payload's `data` against the schema registered for its event
+ *
+ * @param payload - Event name, data and source
+ * @returns SchemaVerdict - Error paths start at "/data"
+ *
+ * @example
+ * const verdict = checkEventData({ event: "order.created", data: {}, source: "shop" })
+ * if (verdict.outcome === "invalid") console.log(verdict.errors)
+ * // [{ path: "/data", message: "must have required property 'orderId'" }, ...]
+ */
+export const checkEventData = (payload: WebhookPayload): SchemaVerdict => {
+  const schema = schemas.find(
+    (entry) =>
+      (!entry.sources || entry.sources.includes(payload.source)) &&
+      matchesGlob(entry.event, payload.event)
+  )
+  if (!schema) return { outcome: "unknown", policy: unknownPolicy }
+
+  const errors = validateJson(schema.schema, payload.data, "/data")
+  return errors.length > 0
+    ? { outcome: "invalid", schema, errors }
+    : { outcome: "valid", schema }
+}
@@ -0,0 +1,616 @@
+// =============================================================================
+// OUTBOUND FORWARDING
+// =============================================================================
+// Relays queued webhooks to downstream HTTP targets. Route rules match on
+// event name globs and optionally sources, request header globs and
+// conditions on the payload (see src/predicate.ts):
+//
+//   {
+//     "routes": [
+//       {
+//         "id": "drop-tests",
+//         "events": ["*"],
+//         "headers": { "x-shop-topic": "test/*" },
+//         "drop": true
+//       },
+//       {
+//         "id": "large-orders",
+//         "events": ["order.*"],
+//         "sources": ["shop"],
+//         "when": ["data.amount > 1000", "data.currency == \"USD\""],
+//         "tags": ["high-value"],
+//         "orderingKey": "data.orderId",
+//         "targets": [
+//           {
+//             "id": "fulfilment",
+//             "url": "https://fulfilment.internal/hooks",
+//             "headers": { "x-team": "ops" },
+//             "timeoutMs": 5000,
+//             "secretEnv": "FULFILMENT_SECRET"
+//           }
+//         ],
+//         "transform": [{ "envelope": "cloudevents" }]
+//       }
+//     ]
+//   }
+//
+// Rules are evaluated in order and every matching rule applies:
+//   - targets: the event fans out to these targets
+//   - tags: labels added to the event (logged and sent as x-gateway-tags)
+//   - drop: stops evaluation; the event is logged but not forwarded
+// Put drop rules first to filter events before they fan out. An optional
+// "transform" reshapes the payload for the rule's targets (see
+// src/transform.ts); a target listed by several matching rules uses the
+// transform of the first one.
+//
+// A rule may also set "orderingKey", a dotted path into the webhook such as
+// "data.orderId". Events with the same value at that path are delivered
+// strictly in the order they arrived; the first matched rule with an
+// ordering key decides. Events where the path is missing, or not a string or
+// number, are not ordered.
+//
+// The routes file can be reloaded while running. A reload that fails
+// validation is rejected and the previous rules stay active. Hit counts are
+// kept per rule ID across reloads.
+//
+// Every delivery is a JSON POST of the (transformed) WebhookPayload, signed
+// with the target's secret (or the gateway-wide forwarding secret) in the
+// Stripe-style `x-gateway-signature: t=<unix>,v1=<hex>` header. Only a 2xx
+// response counts as delivered.
+// =============================================================================
+
+import { createHmac } from "node:crypto"
+import { existsSync, readFileSync, watchFile } from "node:fs"
+import { matchesAnyGlob, matchesGlob } from "./glob.js"
+import { isObject, isStringArray, isStringMap } from "./guards.js"
+import { parsePredicate, testPredicate, type Predicate } from "./predicate.js"
+import { getPath, parseTransform, type TransformStep } from "./transform.js"
+import type { WebhookPayload } from "./types.js"
+
+/**
+ * A downstream HTTP endpoint
+ * @property id - Unique target ID (defaults to the URL)
+ * @property url - Endpoint receiving POSTed events
+ * @property headers - Extra static headers sent with every delivery
+ * @property timeoutMs - Abort the request after this many milliseconds
+ * @property secret - Secret for the outgoing signature
+ */
+export interface ForwardTarget {
+  id: string
+  url: string
+  headers: Record<string, string>
+  timeoutMs: number
+  secret: string
+}
+
+/**
+ * Maps matching events to targets, tags or a drop
+ * @property id - Rule identifier, used in logs and hit counts
+ * @property events - Event name globs this rule applies to
+ * @property sources - Source IDs this rule applies to (undefined = all)
+ * @property headers - Request header name to value glob; all must match
+ * @property when - Conditions on the webhook; all must hold
+ * @property targets - IDs of the targets receiving matching events
+ * @property tags - Labels added to matching events
+ * @property drop - Matching events are not forwarded
+ * @property transform - Steps reshaping the payload for these targets
+ * @property orderingKey - Path whose value orders matching events
+ */
+export interface RouteRule {
+  id: string
+  events: string[]
+  sources?: string[]
+  headers?: Record<string, string>
+  when?: Predicate[]
+  targets: string[]
+  tags?: string[]
+  drop?: boolean
+  transform?: TransformStep[]
+  orderingKey?: string
+}
+
+/**
+ * Outcome of evaluating the rules for one webhook
+ * @property matched - Rules that applied, in order
+ * @property targets - Target IDs to deliver to, without duplicates
+ * @property tags - Labels from the matched rules, without duplicates
+ * @property droppedBy - ID of the drop rule that stopped evaluation
+ * @property orderingKey - Partition the event is delivered in order with,
+ *   as "<path>=<value>" (undefined = unordered)
+ */
+export interface RoutingDecision {
+  matched: RouteRule[]
+  targets: string[]
+  tags: string[]
+  droppedBy?: string
+  orderingKey?: string
+}
+
+/**
+ * How often a rule has matched
+ * @property hits - Webhooks the rule applied to since startup
+ * @property lastHitAt - When it last applied (Unix ms)
+ */
+export interface RouteHits {
+  hits: number
+  lastHitAt?: number
+}
+
+/**
+ * Outcome of one delivery attempt to one target
+ * @property target - Target ID
+ * @property ok - True only for a 2xx response
+ * @property status - HTTP status, if a response was received
+ * @property error - Failure description (non-2xx, timeout, network error)
+ * @property unsent - True if the request could not be built, so the target
+ *   was never contacted (optional)
+ * @property durationMs - Time spent on the request
+ */
+export interface DeliveryResult {
+  target: string
+  ok: boolean
+  status?: number
+  error?: string
+  unsent?: boolean
+  durationMs: number
+}
+
+/**
+ * Defaults applied to targets that omit a setting
+ * @property timeoutMs - Request timeout
+ * @property secret - Gateway-wide forwarding secret
+ */
+export interface ForwardDefaults {
+  timeoutMs: number
+  secret: string
+}
+
+/**
+ * Header carrying the gateway's outgoing signature
+ */
+export const FORWARD_SIGNATURE_HEADER = "x-gateway-signature"
+
+/**
+ * Header marking a replayed delivery, carrying the original's event ID
+ */
+export const REPLAY_OF_HEADER = "x-gateway-replay-of"
+
+/**
+ * Loaded routing configuration, replaced as a whole on reload
+ */
+let routes: RouteRule[] = []
+let targets = new Map<string, ForwardTarget>()
+
+/**
+ * Hit counts keyed by rule ID
+ */
+const hitCounts = new Map<string, RouteHits>()
+
+/**
+ * Validates one raw target definition
+ * Targets may be declared inline in several rules; the first declaration of
+ * an ID wins and later rules can reference it by ID alone.
+ */
+const parseTarget = (
+  raw: unknown,
+  where: string,
+  defaults: ForwardDefaults
+): ForwardTarget => {
+  if (
+    !isObject(raw) ||
+    typeof raw.url !== "string" ||
+    !/^https?:\/\//.test(raw.url)
+  ) {
+    throw new Error(`${where}: "url" must be an http(s) URL`)
+  }
+  if (raw.headers !== undefined && !isStringMap(raw.headers)) {
+    throw new Error(`${where}: "headers" must map header names to values`)
+  }
+
+  const secret =
+    typeof raw.secretEnv === "string" ? process.env[raw.secretEnv] : raw.secret
+
+  return {
+    id: typeof raw.id === "string" ? raw.id : raw.url,
+    url: raw.url,
+    headers: { ...raw.headers },
+    timeoutMs: Number(raw.timeoutMs) || defaults.timeoutMs,
+    secret: typeof secret === "string" && secret ? secret : defaults.secret,
+  }
+}
+
+/**
+ * Validates one raw rule, registering its inline targets
+ */
+const parseRule = (
+  raw: unknown,
+  index: number,
+  targetMap: Map<string, ForwardTarget>,
+  defaults: ForwardDefaults
+): RouteRule => {
+  const where = `routes[${index}]`
+  if (
+    !isObject(raw) ||
+    !isStringArray(raw.events) ||
+    raw.events.length === 0
+  ) {
+    throw new Error(`${where}: "events" must be a non-empty array of globs`)
+  }
+  if (raw.targets !== undefined && !Array.isArray(raw.targets)) {
+    throw new Error(`${where}: "targets" must be an array`)
+  }
+  if (raw.tags !== undefined && !isStringArray(raw.tags)) {
+    throw new Error(`${where}: "tags" must be a string array`)
+  }
+  if (raw.sources !== undefined && !isStringArray(raw.sources)) {
+    throw new Error(`${where}: "sources" must be a string array`)
+  }
+  if (raw.headers !== undefined && !isStringMap(raw.headers)) {
+    throw new Error(`${where}: "headers" must map header names to globs`)
+  }
+  if (raw.when !== undefined && !Array.isArray(raw.when)) {
+    throw new Error(`${where}: "when" must be an array of conditions`)
+  }
+  if (
+    raw.orderingKey !== undefined &&
+    (typeof raw.orderingKey !== "string" || raw.orderingKey.length === 0)
+  ) {
+    throw new Error(`${where}: "orderingKey" must be a path such as data.id`)
+  }
+
+  const drop = raw.drop === true
+  const rawTargets: unknown[] = raw.targets ?? []
+  if (
+    drop &&
+    (rawTargets.length > 0 ||
+      raw.transform !== undefined ||
+      raw.orderingKey !== undefined)
+  ) {
+    throw new Error(
+      `${where}: a drop rule cannot have targets, a transform or an ordering key`
+    )
+  }
+  if (!drop && rawTargets.length === 0 && !raw.tags?.length) {
+    throw new Error(`${where}: needs "targets", "tags" or "drop": true`)
+  }
+
+  // Targets are either inline definitions or references to an earlier ID
+  const targetIds = rawTargets.map((entry, t) => {
+    if (typeof entry === "string") {
+      if (!targetMap.has(entry)) {
+        throw new Error(`${where}.targets[${t}]: unknown target "${entry}"`)
+      }
+      return entry
+    }
+    const target = parseTarget(entry, `${where}.targets[${t}]`, defaults)
+    if (!targetMap.has(target.id)) targetMap.set(target.id, target)
+    return target.id
+  })
+
+  return {
+    id: typeof raw.id === "string" ? raw.id : `route-${index}`,
+    events: raw.events,
+    targets: targetIds,
+    ...(raw.sources && { sources: raw.sources }),
+    ...(raw.headers && {
+      headers: Object.fromEntries(
+        Object.entries(raw.headers).map(
+          ([name, glob]) => [name.toLowerCase(), glob]
+        )
+      ),
+    }),
+    ...(raw.when && {
+      when: raw.when.map((condition: unknown, c: number) =>
+        parsePredicate(condition, `${where}.when[${c}]`)
+      ),
+    }),
+    ...(raw.tags?.length && { tags: raw.tags }),
+    ...(drop && { drop }),
+    ...(raw.transform !== undefined && {
+      transform: parseTransform(raw.transform, `${where}.transform`),
+    }),
+    ...(raw.orderingKey !== undefined && { orderingKey: raw.orderingKey }),
+  }
+}
+
+/**
+ * Loads route rules and targets from a JSON file
+ * The new rules replace the current ones only if the whole file is valid.
+ *
+ * @param path - JSON file with a "routes" array (missing file = no routes)
+ * @param defaults - Fallback timeout and signing secret for targets
+ * @returns number - How many rules were loaded
+ * @throws Error if the file exists but is malformed
+ */
+export const loadRoutes = (path: string, defaults: ForwardDefaults): number => {
+  const nextRoutes: RouteRule[] = []
+  const nextTargets = new Map<string, ForwardTarget>()
+
+  if (existsSync(path)) {
+    const file = JSON.parse(readFileSync(path, "utf8"))
+    if (!Array.isArray(file?.routes)) {
+      throw new Error(`${path}: expected a top-level "routes" array`)
+    }
+    file.routes.forEach((raw: unknown, index: number) => {
+      nextRoutes.push(parseRule(raw, index, nextTargets, defaults))
+    })
+  }
+
+  routes = nextRoutes
+  targets = nextTargets
+  return routes.length
+}
+
+/**
+ * Reloads the routes file whenever it changes
+ * Invalid edits are logged and ignored; the previous rules stay active.
+ * The watcher does not keep the process alive.
+ *
+ * @param path - Routes file (may not exist yet)
+ * @param defaults - Same defaults as passed to loadRoutes
+ * @param intervalMs - How often the file's modification time is checked
+ */
+export const watchRoutes = (
+  path: string,
+  defaults: ForwardDefaults,
+  intervalMs = 1_000
+): void => {
+  watchFile(path, { interval: intervalMs }, (current, previous) => {
+    if (current.mtimeMs === previous.mtimeMs) return
+    try {
+      const count = loadRoutes(path, defaults)
+      console.log(`[ROUTES] Reloaded ${count} rules from ${path}`)
+    } catch (err) {
+      console.error(
+        `[ROUTES] Reload failed, keeping previous rules: ${(err as Error).message}`
+      )
+    }
+  }).unref()
+}
+
+/**
+ * Checks whether a rule applies to a webhook
+ */
+const ruleMatches = (
+  rule: RouteRule,
+  payload: WebhookPayload,
+  headers: Record<string, string | undefined>
+): boolean => {
+  if (rule.sources && !rule.sources.includes(payload.source)) return false
+  if (!matchesAnyGlob(rule.events, payload.event)) return false
+
+  const headersMatch = Object.entries(rule.headers ?? {}).every(
+    ([name, glob]) => {
+      const value = headers[name]
+      return value !== undefined && matchesGlob(glob, value)
+    }
+  )
+  if (!headersMatch) return false
+
+  const subject = { ...payload, headers }
+  return (rule.when ?? []).every((predicate) =>
+    testPredicate(predicate, subject)
+  )
+}
+
+/**
+ * Ordering partition of a webhook, from the first matched rule whose
+ * ordering key resolves to a string or number
+ */
+const orderingKeyOf = (
+  matched: RouteRule[],
+  payload: WebhookPayload,
+  headers: Record<string, string | undefined>
+): string | undefined => {
+  const subject = { ...payload, headers }
+  for (const { orderingKey } of matched) {
+    if (orderingKey === undefined) continue
+    const value = getPath(subject, orderingKey)
+    if (typeof value === "string" || typeof value === "number") {
+      return `${orderingKey}=${value}`
+    }
+  }
+  return undefined
+}
+
+/**
+ * Evaluates the rules for a webhook without counting hits
+ *
+ * @param payload - Event to route
+ * @param headers - Request headers as received (lower-case names)
+ * @returns RoutingDecision
+ */
+export const evaluateRoutes = (
+  payload: WebhookPayload,
+  headers: Record<string, string | undefined>
+): RoutingDecision => {
+  const matched: RouteRule[] = []
+  const targetIds = new Set<string>()
+  const tags = new Set<string>()
+
+  for (const rule of routes) {
+    if (!ruleMatches(rule, payload, headers)) continue
+    matched.push(rule)
+    rule.tags?.forEach((tag) => tags.add(tag))
+    if (rule.drop) {
+      return { matched, targets: [], tags: [...tags], droppedBy: rule.id }
+    }
+    rule.targets.forEach((id) => targetIds.add(id))
+  }
+
+  const orderingKey = orderingKeyOf(matched, payload, headers)
+  return {
+    matched,
+    targets: [...targetIds],
+    tags: [...tags],
+    ...(orderingKey !== undefined && { orderingKey }),
+  }
+}
+
+/**
+ * Routes a webhook and counts a hit for every rule that applied
+ *
+ * @param payload - Event to route
+ * @param headers - Request headers as received (lower-case names)
+ * @returns RoutingDecision
+ */
+export const routeEvent = (
+  payload: WebhookPayload,
+  headers: Record<string, string | undefined>
+): RoutingDecision => {
+  const decision = evaluateRoutes(payload, headers)
+  const now = Date.now()
+  decision.matched.forEach((rule) => {
+    const entry = hitCounts.get(rule.id) ?? { hits: 0 }
+    entry.hits++
+    entry.lastHitAt = now
+    hitCounts.set(rule.id, entry)
+  })
+  return decision
+}
+
+/**
+ * Lists the active rules with their hit counts, and the targets without
+ * their secrets
+ */
+export const listRoutes = () => ({
+  routes: routes.map((rule) => ({
+    ...rule,
+    ...(rule.when && { when: rule.when.map((predicate) => predicate.source) }),
+    ...(hitCounts.get(rule.id) ?? { hits: 0 }),
+  })),
+  targets: [...targets.values()].map(({ secret: _secret, ...target }) => target),
+})
+
+/**
+ * Looks up a route rule by ID
+ */
+export const getRoute = (id: string): RouteRule | undefined =>
+  routes.find((rule) => rule.id === id)
+
+/**
+ * Transform to apply when delivering to a target
+ * The first matched rule that lists the target decides
+ *
+ * @param decision - Result of evaluateRoutes/routeEvent for the payload
+ * @param targetId - Target being delivered to
+ * @returns TransformStep[] or undefined to forward the payload unchanged
+ */
+export const transformFor = (
+  decision: RoutingDecision,
+  targetId: string
+): TransformStep[] | undefined =>
+  decision.matched.find((rule) => rule.targets.includes(targetId))?.transform
+
+/**
+ * Looks up a target by ID
+ */
+export const getTarget = (id: string): ForwardTarget | undefined =>
+  targets.get(id)
+
+/**
+ * Builds the outgoing signature header value for a body
+ * Same format the gateway accepts on ingress, so gateways can be chained
+ *
+ * @example
+ * signOutgoing('{"event":"a"}', secret) // "t=1700000000,v1=4f1c..."
+ */
+export const signOutgoing = (
+  body: string,
+  secret: string,
+  now: number = Date.now()
+): string => {
+  const timestamp = Math.floor(now / 1000)
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex")
+  return `t=${timestamp},v1=${digest}`
+}
+
+/**
+ * POSTs a payload to a single target
+ *
+ * Never throws: timeouts, network errors and non-2xx responses are all
+ * reported as a failed DeliveryResult, as is a request that cannot be built
+ * (e.g. a delivery ID that is not a valid header value), marked unsent.
+ * The event name is sent percent-encoded, as header values are limited to
+ * Latin-1.
+ *
+ * @param target - Destination
+ * @param payload - Event to deliver
+ * @param options - Delivery ID (forwarded as x-webhook-id so targets can
+ *   dedup), routing tags (x-gateway-tags), the event ID of the original if
+ *   this is a replay (REPLAY_OF_HEADER) and the request body to send
+ *   instead of the payload (the output of a route transform)
+ * @returns Promise<DeliveryResult>
+ */
+export const deliver = async (
+  target: ForwardTarget,
+  payload: WebhookPayload,
+  {
+    deliveryId,
+    tags = [],
+    replayOf,
+    content = payload,
+  }: {
+    deliveryId?: string | undefined
+    tags?: string[]
+    replayOf?: string | undefined
+    content?: unknown
+  } = {}
+): Promise<DeliveryResult> => {
+  const body = JSON.stringify(content)
+  const startedAt = Date.now()
+
+  let headers: Headers
+  try {
+    headers = new Headers({
+      ...target.headers,
+      "content-type": "application/json",
+      "x-gateway-event": encodeURIComponent(payload.event),
+      "x-gateway-source": payload.source,
+      [FORWARD_SIGNATURE_HEADER]: signOutgoing(body, target.secret),
+      ...(deliveryId && { "x-webhook-id": deliveryId }),
+      ...(tags.length > 0 && { "x-gateway-tags": tags.join(",") }),
+      ...(replayOf && { [REPLAY_OF_HEADER]: replayOf }),
+    })
+  } catch (err) {
+    return {
+      target: target.id,
+      ok: false,
+      error: `Request not sent: ${(err as Error).message}`,
+      unsent: true,
+      durationMs: 0,
+    }
+  }
+
+  try {
+    const response = await fetch(target.url, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(target.timeoutMs),
+    })
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined)
+
+    return {
+      target: target.id,
+      ok: response.ok,
+      status: response.status,
+      durationMs: Date.now() - startedAt,
+      ...(!response.ok && { error: `HTTP ${response.status}` }),
+    }
+  } catch (err) {
+    const error =
+      (err as Error).name === "TimeoutError"
+        ? `Timed out after ${target.timeoutMs}ms`
+        : (err as Error).message
+    return {
+      target: target.id,
+      ok: false,
+      error,
+      durationMs: Date.now() - startedAt,
+    }
+  }
+}
@@ -0,0 +1,44 @@
+// =============================================================================
+// EVENT NAME GLOBS
+// =============================================================================
+// Shared pattern matcher for event names (allow-lists, routing rules).
+// `*` matches any run of characters, so `order.*` matches `order.created`
+// and `order.item.added`; a pattern without `*` must match exactly.
+// =============================================================================
+
+/**
+ * Compiled patterns, cached because the same few globs are checked
+ * for every incoming webhook
+ */
+const compiled = new Map<string, RegExp>()
+
+/**
+ * Tests a value against a glob pattern
+ *
+ * @param pattern - Glob such as "order.*" or "*"
+ * @param value - Event name to test
+ * @returns boolean - True if the value matches
+ *
+ * @example
+ * matchesGlob("order.*", "order.created") // true
+ * matchesGlob("order.*", "user.created")  // false
+ */
+export const matchesGlob = (pattern: string, value: string): boolean => {
+  let regex = compiled.get(pattern)
+  if (!regex) {
+    const source = pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")
+    regex = new RegExp(`^${source}$`)
+    compiled.set(pattern, regex)
+  }
+  return regex.test(value)
+}
+
+/**
+ * Tests a value against a list of globs
+ * @returns boolean - True if any pattern matches
+ */
+export const matchesAnyGlob = (patterns: string[], value: string): boolean =>
+  patterns.some((pattern) => matchesGlob(pattern, value))
@@ -0,0 +1,24 @@
+// =============================================================================
+// UNTRUSTED INPUT GUARDS
+// =============================================================================
+// Type guards shared by the parsers of config files and request bodies, which
+// take `unknown` and narrow it field by field.
+// =============================================================================
+
+/**
+ * Checks that a value is a plain object
+ */
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+/**
+ * Checks that a value is an array of strings
+ */
+export const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string")
+
+/**
+ * Checks that a value is an object of strings
+ */
+export const isStringMap = (value: unknown): value is Record<string, string> =>
+  isObject(value) && Object.values(value).every((v) => typeof v === "string")
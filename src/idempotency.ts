@@ -0,0 +1,124 @@
+// =============================================================================
+// IDEMPOTENT REQUESTS
+// =============================================================================
+// Senders retry when a request times out, even if the gateway already
+// accepted it. A request carrying an idempotency key is answered once; the
+// status and body of that answer are kept for a TTL and returned verbatim to
+// every repeat with the same key, which is then not processed again.
+//
+// A repeat must carry the same body. Reusing a key for a different body is a
+// sender bug and is reported as a conflict rather than silently answered
+// with the response to another payload. Bodies are compared by SHA-256
+// digest, so only the digest is kept.
+//
+// Stored responses live in memory and are lost on restart.
+// =============================================================================
+
+import { createHash } from "node:crypto"
+
+/**
+ * Response kept for an idempotency key
+ * @property status - HTTP status of the first answer
+ * @property body - Response body of the first answer
+ * @property storedAt - When it was answered (Unix ms)
+ */
+export interface StoredResponse {
+  status: number
+  body: unknown
+  storedAt: number
+}
+
+/**
+ * Outcome of looking up an idempotency key
+ * - new: first use of the key, process the request
+ * - replay: same key and body, answer with the stored response
+ * - conflict: the key was used for a different body
+ */
+export type IdempotencyLookup =
+  | { outcome: "new" }
+  | { outcome: "replay"; response: StoredResponse }
+  | { outcome: "conflict"; storedAt: number }
+
+/**
+ * A stored response with the digest of the body it answered
+ */
+interface Entry {
+  digest: string
+  response: StoredResponse
+  expiresAt: number
+}
+
+/**
+ * Stored responses by key, oldest first
+ * Entries share one TTL (unless it is reloaded), so expired entries collect
+ * at the front of the map.
+ */
+const entries = new Map<string, Entry>()
+
+/**
+ * SHA-256 digest of a request body
+ */
+const digestOf = (body: Buffer): string =>
+  createHash("sha256").update(body).digest("hex")
+
+/**
+ * Drops expired entries from the front of the store
+ */
+const pruneEntries = (now: number): void => {
+  for (const [key, entry] of entries) {
+    if (entry.expiresAt > now) break
+    entries.delete(key)
+  }
+}
+
+/**
+ * Looks up the response stored for a key
+ *
+ * @param key - Idempotency key, scoped by the caller (e.g. per source)
+ * @param body - Raw request body
+ * @param now - Current time in Unix ms (defaults to Date.now())
+ * @returns IdempotencyLookup
+ *
+ * @example
+ * const lookup = lookupResponse("shop:order-42", rawBody)
+ * if (lookup.outcome === "replay") return lookup.response.body
+ */
+export const lookupResponse = (
+  key: string,
+  body: Buffer,
+  now: number = Date.now()
+): IdempotencyLookup => {
+  pruneEntries(now)
+  const entry = entries.get(key)
+  if (!entry || entry.expiresAt <= now) return { outcome: "new" }
+  return entry.digest === digestOf(body)
+    ? { outcome: "replay", response: entry.response }
+    : { outcome: "conflict", storedAt: entry.response.storedAt }
+}
+
+/**
+ * Stores the answer to the first request with a key
+ *
+ * @param key - Idempotency key, scoped as for lookupResponse
+ * @param body - Raw request body the response belongs to
+ * @param status - HTTP status sent
+ * @param response - Response body sent
+ * @param ttlSeconds - How long repeats get this response
+ * @param now - Current time in Unix ms (defaults to Date.now())
+ */
+export const storeResponse = (
+  key: string,
+  body: Buffer,
+  status: number,
+  response: unknown,
+  ttlSeconds: number,
+  now: number = Date.now()
+): void => {
+  // Re-inserted at the end, keeping the map in expiry order
+  entries.delete(key)
+  entries.set(key, {
+    digest: digestOf(body),
+    response: { status, body: response, storedAt: now },
+    expiresAt: now + ttlSeconds * 1000,
+  })
+}
@@ -0,0 +1,226 @@
+// =============================================================================
+// JOURNAL STORAGE
+// =============================================================================
+// Durable Storage backed by an append-only file of JSON lines. Every mutation
+// is appended as one record before the call returns:
+//
+//   {"op":"queue.put","item":{...}}
+//   {"op":"queue.remove","id":"..."}
+//   {"op":"history.add","entry":{...}}
+//   {"op":"event.put","record":{...}}
+//   {"op":"dlq.put","entry":{...}}
+//   {"op":"dlq.remove","id":"..."}
+//   {"op":"subscription.put","subscription":{...}}
+//   {"op":"subscription.remove","id":"..."}
+//
+// On open the journal is replayed into an in-memory working copy, then
+// compacted: the live state is written to a temporary file as put/add
+// records and renamed over the journal. Compaction also runs whenever the
+// journal grows well beyond the live state, so the file stays bounded.
+//
+// A crash can leave a half-written last line; it is skipped on replay and
+// dropped by the compaction that follows. Writes go to the OS without fsync,
+// so a process crash loses nothing but a power loss may lose the last writes.
+// =============================================================================
+
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  writeSync,
+} from "node:fs"
+import { dirname } from "node:path"
+import type { DeadLetter } from "./dead-letter.js"
+import type { EventRecord } from "./event-log.js"
+import type { Subscription } from "./subscriptions.js"
+import {
+  createMemoryStorage,
+  type Storage,
+  type StorageLimits,
+} from "./storage.js"
+import type { ProcessedEvent, WebhookQueueItem } from "./types.js"
+
+/**
+ * One line of the journal
+ */
+type JournalRecord =
+  | { op: "queue.put"; item: WebhookQueueItem }
+  | { op: "queue.remove"; id: string }
+  | { op: "history.add"; entry: ProcessedEvent }
+  | { op: "event.put"; record: EventRecord }
+  | { op: "dlq.put"; entry: DeadLetter }
+  | { op: "dlq.remove"; id: string }
+  | { op: "subscription.put"; subscription: Subscription }
+  | { op: "subscription.remove"; id: string }
+
+/**
+ * Journal settings, in addition to the retention limits
+ * @property path - Journal file (parent directories are created)
+ * @property compactAfter - Minimum records appended before compacting
+ */
+export interface JournalOptions extends StorageLimits {
+  path: string
+  compactAfter?: number
+}
+
+/**
+ * Applies one journal record to the working copy
+ */
+const apply = (memory: Storage, record: JournalRecord): void => {
+  switch (record.op) {
+    case "queue.put":
+      return memory.putQueueItem(record.item)
+    case "queue.remove":
+      return memory.removeQueueItem(record.id)
+    case "history.add":
+      return memory.addHistory(record.entry)
+    case "event.put":
+      return memory.putEvent(record.record)
+    case "dlq.put":
+      return memory.putDeadLetter(record.entry)
+    case "dlq.remove":
+      return memory.removeDeadLetter(record.id)
+    case "subscription.put":
+      return memory.putSubscription(record.subscription)
+    case "subscription.remove":
+      return memory.removeSubscription(record.id)
+  }
+}
+
+/**
+ * Replays an existing journal into the working copy
+ * Unparseable lines (a torn write from a crash) are skipped with a warning
+ */
+const replay = (path: string, memory: Storage): void => {
+  if (!existsSync(path)) return
+
+  const lines = readFileSync(path, "utf8").split("\n")
+  lines.forEach((line, index) => {
+    if (!line.trim()) return
+    try {
+      apply(memory, JSON.parse(line))
+    } catch {
+      console.warn(`[STORAGE] Skipping unreadable journal line ${index + 1}`)
+    }
+  })
+}
+
+/**
+ * Records that rebuild the current state, oldest first
+ * History and DLQ are stored newest first, so they are written reversed
+ * to come back in the same order on replay
+ */
+const snapshot = (memory: Storage): JournalRecord[] => [
+  ...memory
+    .queueItems()
+    .map((item): JournalRecord => ({ op: "queue.put", item })),
+  ...[...memory.history()]
+    .reverse()
+    .map((entry): JournalRecord => ({ op: "history.add", entry })),
+  ...memory
+    .events()
+    .map((record): JournalRecord => ({ op: "event.put", record })),
+  ...[...memory.deadLetters()]
+    .reverse()
+    .map((entry): JournalRecord => ({ op: "dlq.put", entry })),
+  ...memory
+    .subscriptions()
+    .map((subscription): JournalRecord => ({
+      op: "subscription.put",
+      subscription,
+    })),
+]
+
+/**
+ * Opens (or creates) a journal-backed storage
+ *
+ * @param options - Journal path, retention limits and compaction threshold
+ * @returns Storage
+ * @throws Error if the journal directory or file cannot be written
+ *
+ * @example
+ * const storage = createJournalStorage({
+ *   path: "data/gateway.journal",
+ *   historyLimit: 20,
+ *   eventLimit: 10_000,
+ * })
+ * storage.putQueueItem(item) // appended before returning
+ */
+export const createJournalStorage = ({
+  path,
+  compactAfter = 1_000,
+  ...limits
+}: JournalOptions): Storage => {
+  const memory = createMemoryStorage(limits)
+  replay(path, memory)
+  mkdirSync(dirname(path), { recursive: true })
+
+  let fd: number | undefined
+  let appended = 0
+
+  /**
+   * Rewrites the journal from the live state and reopens it for appending
+   * The temporary file is synced before the rename, so a crash mid-way
+   * leaves either the old or the new journal, never a mix
+   */
+  const compact = (): void => {
+    if (fd !== undefined) closeSync(fd)
+
+    const tmpPath = `${path}.tmp`
+    const tmp = openSync(tmpPath, "w")
+    const lines = snapshot(memory).map((record) => JSON.stringify(record))
+    writeSync(tmp, lines.map((line) => `${line}\n`).join(""))
+    fsyncSync(tmp)
+    closeSync(tmp)
+    renameSync(tmpPath, path)
+
+    fd = openSync(path, "a")
+    appended = 0
+  }
+
+  /**
+   * Applies a mutation to the working copy and appends it to the journal
+   */
+  const write = (record: JournalRecord): void => {
+    apply(memory, record)
+    writeSync(fd!, `${JSON.stringify(record)}\n`)
+    appended++
+
+    const live =
+      memory.queueItems().length +
+      memory.history().length +
+      memory.events().length +
+      memory.deadLetters().length +
+      memory.subscriptions().length
+    if (appended >= compactAfter && appended > 2 * live) compact()
+  }
+
+  compact()
+
+  return {
+    queueItems: memory.queueItems,
+    putQueueItem: (item) => write({ op: "queue.put", item }),
+    removeQueueItem: (id) => write({ op: "queue.remove", id }),
+    history: memory.history,
+    addHistory: (entry) => write({ op: "history.add", entry }),
+    events: memory.events,
+    getEvent: memory.getEvent,
+    putEvent: (record) => write({ op: "event.put", record }),
+    deadLetters: memory.deadLetters,
+    putDeadLetter: (entry) => write({ op: "dlq.put", entry }),
+    removeDeadLetter: (id) => write({ op: "dlq.remove", id }),
+    subscriptions: memory.subscriptions,
+    putSubscription: (subscription) =>
+      write({ op: "subscription.put", subscription }),
+    removeSubscription: (id) => write({ op: "subscription.remove", id }),
+    close: () => {
+      compact()
+      closeSync(fd!)
+      fd = undefined
+    },
+  }
+}
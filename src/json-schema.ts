@@ -0,0 +1,439 @@
+// =============================================================================
+// JSON SCHEMA VALIDATION
+// =============================================================================
+// A small validator for the JSON Schema keywords that matter for webhook
+// payloads, so schemas can be written in plain JSON without a new dependency:
+//
+//   type, enum, const,
+//   properties, required, additionalProperties, minProperties, maxProperties,
+//   items, minItems, maxItems, uniqueItems,
+//   minLength, maxLength, pattern, format (date-time, date, email, uri, uuid),
+//   minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf,
+//   allOf, anyOf, oneOf, not
+//
+// Annotations ($schema, $id, title, description, default, examples,
+// deprecated) are allowed and ignored. Any other keyword (e.g. $ref) is
+// rejected when the schema is loaded, so a constraint is never silently
+// skipped.
+// =============================================================================
+
+import { isObject, isStringArray } from "./guards.js"
+
+/**
+ * A JSON Schema: an object of keywords, or true/false (accept/reject all)
+ */
+export type JsonSchema = boolean | { [keyword: string]: unknown }
+
+/**
+ * The validation keywords of an object schema, with the types checkSchema
+ * guarantees
+ */
+interface SchemaKeywords {
+  type?: string | string[]
+  enum?: unknown[]
+  const?: unknown
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: JsonSchema
+  minProperties?: number
+  maxProperties?: number
+  items?: JsonSchema
+  minItems?: number
+  maxItems?: number
+  uniqueItems?: boolean
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  format?: string
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  multipleOf?: number
+  allOf?: JsonSchema[]
+  anyOf?: JsonSchema[]
+  oneOf?: JsonSchema[]
+  not?: JsonSchema
+}
+
+/**
+ * One violation
+ * @property path - JSON Pointer to the offending value, e.g. "/data/items/0"
+ * @property message - What is wrong, e.g. "must be number"
+ */
+export interface SchemaError {
+  path: string
+  message: string
+}
+
+/**
+ * Keywords that are checked
+ */
+const VALIDATION_KEYWORDS = new Set([
+  "type",
+  "enum",
+  "const",
+  "properties",
+  "required",
+  "additionalProperties",
+  "minProperties",
+  "maxProperties",
+  "items",
+  "minItems",
+  "maxItems",
+  "uniqueItems",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "format",
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "multipleOf",
+  "allOf",
+  "anyOf",
+  "oneOf",
+  "not",
+])
+
+/**
+ * Keywords that are accepted but have no effect on validation
+ */
+const ANNOTATION_KEYWORDS = new Set([
+  "$schema",
+  "$id",
+  "$comment",
+  "title",
+  "description",
+  "default",
+  "examples",
+  "deprecated",
+])
+
+/**
+ * Checks for the supported `format` values
+ */
+const FORMATS: Record<string, (value: string) => boolean> = {
+  "date-time": (value) =>
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(
+      value
+    ) && !Number.isNaN(Date.parse(value)),
+  date: (value) =>
+    /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)),
+  email: (value) => /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value),
+  uri: (value) => URL.canParse(value),
+  uuid: (value) =>
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+      value
+    ),
+}
+
+/**
+ * Compiled `pattern` expressions
+ */
+const patterns = new Map<string, RegExp>()
+
+/**
+ * JSON type name of a value ("integer" for whole numbers)
+ */
+const typeOf = (value: unknown): string => {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  if (typeof value === "number" && Number.isInteger(value)) return "integer"
+  return typeof value
+}
+
+/**
+ * Tests a value against one `type` name
+ */
+const hasType = (value: unknown, type: string): boolean =>
+  type === "number" ? typeof value === "number" : typeOf(value) === type
+
+/**
+ * Structural equality for enum/const/uniqueItems
+ */
+const equal = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const aKeys = Object.keys(a)
+  const bKeys = Object.keys(b)
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) =>
+      equal(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key]
+      )
+    )
+  )
+}
+
+/**
+ * Escapes a property name for use in a JSON Pointer
+ */
+const pointer = (path: string, key: string | number): string =>
+  `${path}/${String(key).replace(/~/g, "~0").replace(/\//g, "~1")}`
+
+/**
+ * Verifies that a schema only uses supported keywords and valid values
+ *
+ * @param schema - Schema to check (recursively)
+ * @param where - Location prefix for error messages
+ * @throws Error naming the first unsupported or malformed keyword
+ */
+export const checkSchema = (schema: unknown, where: string): void => {
+  if (typeof schema === "boolean") return
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    throw new Error(`${where}: a schema must be an object or a boolean`)
+  }
+
+  for (const [keyword, value] of Object.entries(schema)) {
+    const at = `${where}.${keyword}`
+    if (ANNOTATION_KEYWORDS.has(keyword)) continue
+    if (!VALIDATION_KEYWORDS.has(keyword)) {
+      throw new Error(`${at}: unsupported keyword`)
+    }
+
+    switch (keyword) {
+      case "type":
+        if (typeof value !== "string" && !isStringArray(value)) {
+          throw new Error(`${at}: must be a type name or an array of them`)
+        }
+        break
+      case "properties":
+        if (!isObject(value)) {
+          throw new Error(`${at}: must be an object of schemas`)
+        }
+        Object.entries(value).forEach(([name, sub]) =>
+          checkSchema(sub, `${at}.${name}`)
+        )
+        break
+      case "items":
+      case "additionalProperties":
+      case "not":
+        checkSchema(value, at)
+        break
+      case "allOf":
+      case "anyOf":
+      case "oneOf":
+        if (!Array.isArray(value) || value.length === 0) {
+          throw new Error(`${at}: must be a non-empty array of schemas`)
+        }
+        value.forEach((sub, i) => checkSchema(sub, `${at}[${i}]`))
+        break
+      case "required":
+        if (!isStringArray(value)) {
+          throw new Error(`${at}: must be an array of property names`)
+        }
+        break
+      case "enum":
+        if (!Array.isArray(value)) throw new Error(`${at}: must be an array`)
+        break
+      case "minProperties":
+      case "maxProperties":
+      case "minItems":
+      case "maxItems":
+      case "minLength":
+      case "maxLength":
+        if (!Number.isInteger(value) || (value as number) < 0) {
+          throw new Error(`${at}: must be a non-negative integer`)
+        }
+        break
+      case "minimum":
+      case "maximum":
+      case "exclusiveMinimum":
+      case "exclusiveMaximum":
+        if (typeof value !== "number") {
+          throw new Error(`${at}: must be a number`)
+        }
+        break
+      case "multipleOf":
+        if (typeof value !== "number" || value <= 0) {
+          throw new Error(`${at}: must be a number above 0`)
+        }
+        break
+      case "uniqueItems":
+        if (typeof value !== "boolean") {
+          throw new Error(`${at}: must be a boolean`)
+        }
+        break
+      case "format":
+        if (typeof value !== "string") {
+          throw new Error(`${at}: must be a string`)
+        }
+        break
+      case "pattern":
+        if (typeof value !== "string") {
+          throw new Error(`${at}: must be a string`)
+        }
+        try {
+          patterns.set(value, new RegExp(value, "u"))
+        } catch {
+          throw new Error(`${at}: invalid regular expression`)
+        }
+        break
+    }
+  }
+}
+
+/**
+ * Validates a value against a schema
+ *
+ * @param schema - Schema that passed checkSchema
+ * @param value - Value to validate
+ * @param path - JSON Pointer of the value, used in error paths
+ * @returns SchemaError[] - Every violation found (empty if valid)
+ *
+ * @example
+ * validateJson({ type: "object", required: ["id"] }, {}, "/data")
+ * // [{ path: "/data", message: "must have required property 'id'" }]
+ */
+export const validateJson = (
+  schema: JsonSchema,
+  value: unknown,
+  path = ""
+): SchemaError[] => {
+  if (schema === true) return []
+  if (schema === false) return [{ path, message: "is not allowed" }]
+
+  // checkSchema has verified the keywords' types
+  const s = schema as SchemaKeywords
+  const errors: SchemaError[] = []
+  const fail = (message: string, at = path): void => {
+    errors.push({ path: at, message })
+  }
+
+  // A wrong type makes the remaining keywords meaningless
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? s.type : [s.type]
+    if (!types.some((type) => hasType(value, type))) {
+      fail(`must be ${types.join(" or ")}`)
+      return errors
+    }
+  }
+
+  if (s.const !== undefined && !equal(value, s.const)) {
+    fail(`must be equal to ${JSON.stringify(s.const)}`)
+  }
+  if (s.enum && !s.enum.some((option) => equal(value, option))) {
+    fail(`must be one of ${JSON.stringify(s.enum)}`)
+  }
+
+  if (typeof value === "string") {
+    const length = [...value].length
+    if (s.minLength !== undefined && length < s.minLength) {
+      fail(`must have at least ${s.minLength} characters`)
+    }
+    if (s.maxLength !== undefined && length > s.maxLength) {
+      fail(`must have at most ${s.maxLength} characters`)
+    }
+    if (s.pattern !== undefined) {
+      const regex = patterns.get(s.pattern) ?? new RegExp(s.pattern, "u")
+      if (!regex.test(value)) fail(`must match pattern "${s.pattern}"`)
+    }
+    // Unknown formats are ignored, as the specification allows
+    const format =
+      s.format !== undefined && Object.hasOwn(FORMATS, s.format)
+        ? FORMATS[s.format]
+        : undefined
+    if (format && !format(value)) fail(`must be a valid ${s.format}`)
+  }
+
+  if (typeof value === "number") {
+    if (s.minimum !== undefined && value < s.minimum) {
+      fail(`must be >= ${s.minimum}`)
+    }
+    if (s.maximum !== undefined && value > s.maximum) {
+      fail(`must be <= ${s.maximum}`)
+    }
+    if (s.exclusiveMinimum !== undefined && value <= s.exclusiveMinimum) {
+      fail(`must be > ${s.exclusiveMinimum}`)
+    }
+    if (s.exclusiveMaximum !== undefined && value >= s.exclusiveMaximum) {
+      fail(`must be < ${s.exclusiveMaximum}`)
+    }
+    if (s.multipleOf !== undefined && !Number.isInteger(value / s.multipleOf)) {
+      fail(`must be a multiple of ${s.multipleOf}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (s.minItems !== undefined && value.length < s.minItems) {
+      fail(`must have at least ${s.minItems} items`)
+    }
+    if (s.maxItems !== undefined && value.length > s.maxItems) {
+      fail(`must have at most ${s.maxItems} items`)
+    }
+    if (
+      s.uniqueItems === true &&
+      value.some(
+        (item, i) => value.findIndex((other) => equal(item, other)) !== i
+      )
+    ) {
+      fail("must not contain duplicate items")
+    }
+    const { items } = s
+    if (items !== undefined) {
+      value.forEach((item, i) =>
+        errors.push(...validateJson(items, item, pointer(path, i)))
+      )
+    }
+  }
+
+  if (isObject(value)) {
+    const keys = Object.keys(value)
+    const properties = s.properties ?? {}
+
+    // Only own properties count, so "constructor" or "__proto__" are never
+    // taken as present or declared through the prototype
+    for (const name of s.required ?? []) {
+      if (!Object.hasOwn(value, name)) {
+        fail(`must have required property '${name}'`)
+      }
+    }
+    if (s.minProperties !== undefined && keys.length < s.minProperties) {
+      fail(`must have at least ${s.minProperties} properties`)
+    }
+    if (s.maxProperties !== undefined && keys.length > s.maxProperties) {
+      fail(`must have at most ${s.maxProperties} properties`)
+    }
+
+    for (const key of keys) {
+      const at = pointer(path, key)
+      const declared = Object.hasOwn(properties, key)
+        ? properties[key]
+        : undefined
+      if (declared !== undefined) {
+        errors.push(...validateJson(declared, value[key], at))
+      } else if (s.additionalProperties === false) {
+        fail("is not allowed", at)
+      } else if (typeof s.additionalProperties === "object") {
+        errors.push(...validateJson(s.additionalProperties, value[key], at))
+      }
+    }
+  }
+
+  // Combinators
+  const matches = (sub: JsonSchema): boolean =>
+    validateJson(sub, value, path).length === 0
+  for (const sub of s.allOf ?? []) {
+    errors.push(...validateJson(sub, value, path))
+  }
+  if (s.anyOf && !s.anyOf.some(matches)) {
+    fail("must match at least one schema in anyOf")
+  }
+  if (s.oneOf) {
+    const matched = s.oneOf.filter(matches).length
+    if (matched !== 1) {
+      fail(`must match exactly one schema in oneOf (matched ${matched})`)
+    }
+  }
+  if (s.not !== undefined && matches(s.not)) {
+    fail("must not match the schema in not")
+  }
+
+  return errors
+}
@@ -0,0 +1,136 @@
+// =============================================================================
+// LIVE UPDATES
+// =============================================================================
+// In-process publish/subscribe for queue activity, served to browsers as
+// Server-Sent Events at GET /events/stream. Each message is a named SSE
+// event whose data is one JSON object:
+//
+//   event: success
+//   data: {"eventId":"...","event":"order.created","source":"shop",...}
+//
+// Clients that stop reading are disconnected once MAX_BUFFERED messages are
+// waiting, so a stalled browser tab cannot grow server memory. EventSource
+// reconnects on its own using the `retry` interval sent first.
+// =============================================================================
+
+/**
+ * What happened
+ * - enqueue: webhook accepted (or replayed) into the queue
+ * - attempt: delivery attempt started
+ * - success: delivered to every target
+ * - failure: attempt failed, retry scheduled
+ * - dead-letter: retries exhausted, moved to the DLQ
+ * - duplicate: delivery ID already seen, not enqueued
+ * - paused: remaining targets have open circuit breakers, attempt postponed
+ * - breaker: a target's circuit breaker changed state
+ */
+export type LiveEventType =
+  | "enqueue"
+  | "attempt"
+  | "success"
+  | "failure"
+  | "dead-letter"
+  | "duplicate"
+  | "paused"
+  | "breaker"
+
+/**
+ * Receives every published event
+ */
+type Subscriber = (type: LiveEventType, data: object) => void
+
+/**
+ * Messages a client may have queued before it is dropped
+ */
+const MAX_BUFFERED = 1_000
+
+/**
+ * Reconnect delay suggested to EventSource clients (ms)
+ */
+const RETRY_MS = 3_000
+
+/**
+ * Currently connected subscribers
+ */
+const subscribers = new Set<Subscriber>()
+
+/**
+ * Sends an event to every connected subscriber
+ *
+ * @param type - Event type (the SSE event name)
+ * @param data - JSON-serialisable payload
+ */
+export const publish = (type: LiveEventType, data: object): void => {
+  subscribers.forEach((subscriber) => subscriber(type, data))
+}
+
+/**
+ * Number of connected stream clients
+ */
+export const subscriberCount = (): number => subscribers.size
+
+/**
+ * Opens an SSE stream that receives every published event
+ *
+ * @param signal - Aborted when the client disconnects
+ * @param heartbeatMs - Interval of keep-alive comments, so proxies do not
+ *   close an idle connection
+ * @returns Response - text/event-stream response
+ */
+export const openEventStream = (
+  signal: AbortSignal,
+  heartbeatMs: number
+): Response => {
+  const encoder = new TextEncoder()
+  let cleanup = (): void => {}
+
+  const stream = new ReadableStream<Uint8Array>(
+    {
+      start(controller) {
+        const send = (chunk: string): void => {
+          // A client this far behind is not reading; let it reconnect
+          if ((controller.desiredSize ?? 0) <= -MAX_BUFFERED) {
+            cleanup()
+            controller.close()
+            return
+          }
+          controller.enqueue(encoder.encode(chunk))
+        }
+
+        const subscriber: Subscriber = (type, data) =>
+          send(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`)
+        const heartbeat = setInterval(() => send(": ping\n\n"), heartbeatMs)
+
+        cleanup = () => {
+          clearInterval(heartbeat)
+          subscribers.delete(subscriber)
+          signal.removeEventListener("abort", onAbort)
+        }
+        const onAbort = (): void => {
+          cleanup()
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the runtime
+          }
+        }
+
+        subscribers.add(subscriber)
+        signal.addEventListener("abort", onAbort)
+        send(`retry: ${RETRY_MS}\n\n`)
+      },
+      cancel() {
+        cleanup()
+      },
+    },
+    { highWaterMark: 0 }
+  )
+
+  return new Response(stream, {
+    headers: {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache",
+      connection: "keep-alive",
+    },
+  })
+}
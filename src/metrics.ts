@@ -0,0 +1,225 @@
+// =============================================================================
+// METRICS
+// =============================================================================
+// Minimal Prometheus registry: counters, callback gauges and histograms,
+// rendered in the text exposition format (version 0.0.4) for GET /metrics.
+//
+// Label values can come from request bodies (event names), so each metric
+// keeps at most MAX_SERIES label combinations; further combinations are
+// folded into a single series whose labels are all "_other".
+// =============================================================================
+
+/**
+ * Label name to value
+ */
+export type Labels = Record<string, string>
+
+/**
+ * Counter handle
+ * @property inc - Adds `by` (default 1) to the series for these labels
+ */
+export interface Counter {
+  inc: (labels?: Labels, by?: number) => void
+}
+
+/**
+ * Histogram handle
+ * @property observe - Records one value in the series for these labels
+ */
+export interface Histogram {
+  observe: (labels: Labels, value: number) => void
+}
+
+/**
+ * Default latency buckets in seconds (same as the Prometheus clients)
+ */
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+]
+
+/**
+ * Maximum label combinations kept per metric
+ */
+const MAX_SERIES = 1_000
+
+/**
+ * Label value used once a metric reaches MAX_SERIES
+ */
+const OVERFLOW_LABEL = "_other"
+
+/**
+ * Renderers of every registered metric, in registration order
+ */
+const registry: Array<() => string[]> = []
+
+/**
+ * Escapes a label value for the text format
+ */
+const escapeLabel = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"')
+
+/**
+ * Formats a label set as `{a="1",b="2"}` (empty string without labels)
+ */
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`
+  )
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : ""
+}
+
+/**
+ * Finds or creates the series for a label set, enforcing MAX_SERIES
+ *
+ * @param series - Series of one metric keyed by label values
+ * @param labelNames - The metric's label names, in order
+ * @param labels - Label values of the observation
+ * @param create - Builds an empty series for the given labels
+ */
+const seriesFor = <S>(
+  series: Map<string, S>,
+  labelNames: string[],
+  labels: Labels,
+  create: (labels: Labels) => S
+): S => {
+  let normalized: Labels = Object.fromEntries(
+    labelNames.map((name) => [name, labels[name] ?? ""])
+  )
+  let key = labelNames.map((name) => normalized[name]).join("\u0000")
+
+  if (!series.has(key) && series.size >= MAX_SERIES) {
+    normalized = Object.fromEntries(
+      labelNames.map((name) => [name, OVERFLOW_LABEL])
+    )
+    key = labelNames.map(() => OVERFLOW_LABEL).join("\u0000")
+  }
+
+  let entry = series.get(key)
+  if (!entry) {
+    entry = create(normalized)
+    series.set(key, entry)
+  }
+  return entry
+}
+
+/**
+ * HELP and TYPE lines for a metric
+ */
+const header = (name: string, help: string, type: string): string[] => [
+  `# HELP ${name} ${help}`,
+  `# TYPE ${name} ${type}`,
+]
+
+/**
+ * Registers a monotonically increasing counter
+ *
+ * @param name - Metric name, conventionally ending in _total
+ * @param help - One-line description
+ * @param labelNames - Labels every observation carries
+ * @returns Counter
+ *
+ * @example
+ * const received = createCounter("app_received_total", "Requests", ["source"])
+ * received.inc({ source: "shop" })
+ */
+export const createCounter = (
+  name: string,
+  help: string,
+  labelNames: string[] = []
+): Counter => {
+  const series = new Map<string, { labels: Labels; value: number }>()
+
+  registry.push(() => [
+    ...header(name, help, "counter"),
+    ...[...series.values()].map(
+      ({ labels, value }) => `${name}${formatLabels(labels)} ${value}`
+    ),
+  ])
+
+  return {
+    inc: (labels = {}, by = 1) => {
+      seriesFor(series, labelNames, labels, (l) => ({ labels: l, value: 0 }))
+        .value += by
+    },
+  }
+}
+
+/**
+ * Registers a gauge whose value is read when metrics are rendered
+ *
+ * @param name - Metric name
+ * @param help - One-line description
+ * @param collect - Returns the current value
+ */
+export const createGauge = (
+  name: string,
+  help: string,
+  collect: () => number
+): void => {
+  registry.push(() => [...header(name, help, "gauge"), `${name} ${collect()}`])
+}
+
+/**
+ * Registers a histogram with fixed upper bounds
+ *
+ * @param name - Metric name, conventionally ending in a unit (_seconds)
+ * @param help - One-line description
+ * @param labelNames - Labels every observation carries
+ * @param buckets - Ascending bucket upper bounds
+ * @returns Histogram
+ */
+export const createHistogram = (
+  name: string,
+  help: string,
+  labelNames: string[] = [],
+  buckets: number[] = DEFAULT_BUCKETS
+): Histogram => {
+  const series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >()
+
+  registry.push(() => [
+    ...header(name, help, "histogram"),
+    ...[...series.values()].flatMap(({ labels, counts, sum, count }) => {
+      // Bucket counts are stored per bucket and exposed cumulatively
+      let cumulative = 0
+      return [
+        ...buckets.map((bound, i) => {
+          cumulative += counts[i]!
+          const bucketLabels = formatLabels({ ...labels, le: String(bound) })
+          return `${name}_bucket${bucketLabels} ${cumulative}`
+        }),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]
+    }),
+  ])
+
+  return {
+    observe: (labels, value) => {
+      const entry = seriesFor(series, labelNames, labels, (l) => ({
+        labels: l,
+        counts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      }))
+      const index = buckets.findIndex((bound) => value <= bound)
+      if (index !== -1) entry.counts[index]!++
+      entry.sum += value
+      entry.count++
+    },
+  }
+}
+
+/**
+ * Renders every registered metric in the Prometheus text format
+ */
+export const renderMetrics = (): string =>
+  `${registry.flatMap((render) => render()).join("\n")}\n`
+
+/**
+ * Content-Type of the rendered output
+ */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8"
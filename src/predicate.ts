@@ -0,0 +1,141 @@
+// =============================================================================
+// ROUTE PREDICATES
+// =============================================================================
+// Conditions in route rules ("when"), written as short expressions over the
+// webhook, e.g.:
+//
+//   data.amount > 1000
+//   data.currency == "USD"
+//   data.country in ["DE", "FR"]
+//   headers.x-shop-topic != "orders/test"
+//   data.customer.vip exists
+//
+// The left side is a dotted path into { event, source, data, headers }; the
+// right side is a JSON literal. Ordering operators (<, <=, >, >=) only hold
+// when both sides are numbers or both are strings; == and != compare
+// structurally and never convert types ("10" != 10).
+// =============================================================================
+
+import { getPath } from "./transform.js"
+
+/**
+ * Comparison operators
+ */
+type Operator = "==" | "!=" | ">" | ">=" | "<" | "<=" | "in" | "exists"
+
+/**
+ * A compiled condition
+ * @property source - The expression as written, for listings and errors
+ * @property path - Dotted path of the tested value
+ * @property operator - Comparison
+ * @property value - Right-hand JSON literal (undefined for exists)
+ */
+export interface Predicate {
+  source: string
+  path: string
+  operator: Operator
+  value?: unknown
+}
+
+/**
+ * `<path> <operator> <literal>`, `<path> in [...]` or `<path> exists`
+ */
+const EXPRESSION =
+  /^\s*([^\s=!<>]+)\s*(?:(==|!=|>=|<=|>|<)\s*(.+?)|\s(in)\s+(\[.*\])|\s(exists))\s*$/
+
+/**
+ * Structural equality of JSON values
+ */
+const equal = (a: unknown, b: unknown): boolean =>
+  a === b ||
+  (typeof a === "object" &&
+    typeof b === "object" &&
+    a !== null &&
+    b !== null &&
+    JSON.stringify(a) === JSON.stringify(b))
+
+/**
+ * Compiles a condition
+ *
+ * @param expression - Condition text
+ * @param where - Location prefix for error messages
+ * @returns Predicate
+ * @throws Error if the expression or its literal cannot be parsed
+ *
+ * @example
+ * parsePredicate('data.currency == "USD"', "routes[0].when[0]")
+ */
+export const parsePredicate = (
+  expression: unknown,
+  where: string
+): Predicate => {
+  const match =
+    typeof expression === "string" ? EXPRESSION.exec(expression) : null
+  if (!match) {
+    throw new Error(
+      `${where}: expected "<path> <op> <value>", "<path> in [...]" or "<path> exists"`
+    )
+  }
+
+  const [all, path, comparison, literal, inOperator, list, exists] = match
+  const source = all.trim()
+  if (exists) return { source, path: path!, operator: "exists" }
+
+  const text = (literal ?? list)!
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    throw new Error(`${where}: "${text}" is not a JSON value`)
+  }
+
+  return {
+    source,
+    path: path!,
+    operator: (comparison ?? inOperator) as Operator,
+    value,
+  }
+}
+
+/**
+ * Evaluates a condition against a webhook
+ *
+ * @param predicate - Compiled condition
+ * @param subject - { event, source, data, headers }
+ * @returns boolean - True if the condition holds
+ */
+export const testPredicate = (
+  predicate: Predicate,
+  subject: unknown
+): boolean => {
+  const actual = getPath(subject, predicate.path)
+  const expected = predicate.value
+
+  switch (predicate.operator) {
+    case "exists":
+      return actual !== undefined
+    case "==":
+      return equal(actual, expected)
+    case "!=":
+      return !equal(actual, expected)
+    case "in":
+      return (expected as unknown[]).some((option) => equal(actual, option))
+  }
+
+  const comparable =
+    (typeof actual === "number" && typeof expected === "number") ||
+    (typeof actual === "string" && typeof expected === "string")
+  if (!comparable) return false
+
+  const [a, b] = [actual, expected] as [number | string, number | string]
+  switch (predicate.operator) {
+    case ">":
+      return a > b
+    case ">=":
+      return a >= b
+    case "<":
+      return a < b
+    case "<=":
+      return a <= b
+  }
+}
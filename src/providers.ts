@@ -0,0 +1,378 @@
+// =============================================================================
+// PROVIDER ADAPTERS
+// =============================================================================
+// Built-in support for webhooks sent by well-known providers. A source that
+// declares `"provider": "stripe"` needs no scheme or header settings: the
+// adapter knows where the provider puts its signature, how it signs, whether
+// it signs a timestamp, and where the event name lives.
+//
+//   provider  signature header       signed content              event name
+//   github    X-Hub-Signature-256    sha256=HMAC(body)           X-GitHub-Event[.action]
+//   stripe    Stripe-Signature       t=,v1=HMAC("t.body")        body.type
+//   slack     X-Slack-Signature      v0=HMAC("v0:ts:body")       body.event.type
+//   shopify   X-Shopify-Hmac-Sha256  base64 HMAC(body)           X-Shopify-Topic
+//   twilio    X-Twilio-Signature     base64 HMAC-SHA1(url+form)  call.<status> or
+//                                                                message.<status>
+//
+// Adapters turn the provider's request into a WebhookPayload: the event name
+// is extracted as above (with "/" replaced by "." so Shopify topics read like
+// our own event names) and `data` is the provider's body as sent. The
+// provider's own delivery ID (X-GitHub-Delivery, Stripe event ID, ...) is
+// used for duplicate detection.
+//
+// Slack's url_verification handshake is answered with its challenge once the
+// signature has been verified; it is never queued.
+// =============================================================================
+
+import { createHmac } from "node:crypto"
+import {
+  digestsMatch,
+  verifyHmacSignature,
+  type SignatureResult,
+  type VerificationKey,
+} from "./signature.js"
+
+/**
+ * Providers with a built-in adapter
+ */
+export const PROVIDER_IDS = [
+  "github",
+  "stripe",
+  "slack",
+  "shopify",
+  "twilio",
+] as const
+
+export type ProviderId = (typeof PROVIDER_IDS)[number]
+
+/**
+ * What an adapter needs to know about an incoming request
+ * @property rawBody - Exact bytes received on the wire
+ * @property headers - Request headers (lower-case names)
+ * @property url - Public URL the provider sent the request to (Twilio signs
+ *   it)
+ */
+export interface ProviderRequest {
+  rawBody: Buffer
+  headers: Record<string, string | undefined>
+  url: string
+}
+
+/**
+ * A provider request normalised into the gateway's terms
+ * @property event - Event name ("unknown" if the body does not carry one)
+ * @property data - The provider's body
+ * @property deliveryId - Provider's delivery ID, if it sends one
+ * @property challenge - Slack url_verification challenge to echo back
+ */
+export interface NormalizedWebhook {
+  event: string
+  data: unknown
+  deliveryId?: string
+  challenge?: string
+}
+
+/**
+ * Built-in support for one provider
+ * @property id - Provider ID, as declared by a source
+ * @property signatureHeader - Header carrying the provider's signature
+ * @property contentType - Body encoding the provider sends
+ * @property verify - Checks the signature against one secret
+ * @property normalize - Extracts event name, data and delivery ID; never
+ *   throws, so even a malformed request can be counted and logged
+ * @property sign - Headers that make a body look sent by the provider (test
+ *   tooling); `event` is used where the provider sends it as a header
+ */
+export interface ProviderAdapter {
+  id: ProviderId
+  signatureHeader: string
+  contentType: "application/json" | "application/x-www-form-urlencoded"
+  verify: (request: ProviderRequest, secret: string) => SignatureResult
+  normalize: (request: ProviderRequest, body: unknown) => NormalizedWebhook
+  sign: (
+    request: ProviderRequest,
+    secret: string,
+    event: string
+  ) => Record<string, string>
+}
+
+/**
+ * Reads a string property of an untrusted object
+ */
+const stringAt = (value: unknown, key: string): string | undefined => {
+  const field = (value as Record<string, unknown> | null)?.[key]
+  return typeof field === "string" && field.length > 0 ? field : undefined
+}
+
+/**
+ * Computes an HMAC digest with the given algorithm
+ */
+const hmac = (
+  algorithm: "sha1" | "sha256",
+  payload: Buffer | string,
+  secret: string
+): Buffer => createHmac(algorithm, secret).update(payload).digest()
+
+/**
+ * Unix seconds, as providers sign timestamps
+ */
+const unixSeconds = (): number => Math.floor(Date.now() / 1000)
+
+const mismatch: SignatureResult = {
+  valid: false,
+  reason: "HMAC digest mismatch",
+}
+
+/**
+ * GitHub: X-Hub-Signature-256 is `sha256=<hex>` over the raw body
+ */
+const github: ProviderAdapter = {
+  id: "github",
+  signatureHeader: "x-hub-signature-256",
+  contentType: "application/json",
+  verify: ({ rawBody, headers }, secret) => {
+    const signature = headers["x-hub-signature-256"] ?? ""
+    return signature.startsWith("sha256=")
+      ? verifyHmacSignature(rawBody, signature, secret)
+      : { valid: false, reason: "Expected a sha256= signature" }
+  },
+  normalize: ({ headers }, body) => {
+    const event = headers["x-github-event"] ?? "unknown"
+    const action = stringAt(body, "action")
+    const deliveryId = headers["x-github-delivery"]
+    return {
+      event: action ? `${event}.${action}` : event,
+      data: body,
+      ...(deliveryId && { deliveryId }),
+    }
+  },
+  sign: ({ rawBody }, secret, event) => ({
+    "x-hub-signature-256": `sha256=${hmac("sha256", rawBody, secret).toString("hex")}`,
+    "x-github-event": event,
+  }),
+}
+
+/**
+ * Stripe: Stripe-Signature is `t=<unix>,v1=<hex>` over "<t>.<body>"
+ */
+const stripe: ProviderAdapter = {
+  id: "stripe",
+  signatureHeader: "stripe-signature",
+  contentType: "application/json",
+  verify: ({ rawBody, headers }, secret) => {
+    const signature = headers["stripe-signature"] ?? ""
+    const result = verifyHmacSignature(rawBody, signature, secret)
+    // A bare digest would verify without the timestamp Stripe always signs
+    return result.valid && result.timestamp === undefined
+      ? { valid: false, reason: "Missing timestamp" }
+      : result
+  },
+  normalize: (_request, body) => {
+    const deliveryId = stringAt(body, "id")
+    return {
+      event: stringAt(body, "type") ?? "unknown",
+      data: body,
+      ...(deliveryId && { deliveryId }),
+    }
+  },
+  sign: ({ rawBody }, secret) => {
+    const timestamp = unixSeconds()
+    const digest = hmac(
+      "sha256",
+      Buffer.concat([Buffer.from(`${timestamp}.`), rawBody]),
+      secret
+    )
+    return { "stripe-signature": `t=${timestamp},v1=${digest.toString("hex")}` }
+  },
+}
+
+/**
+ * Slack: X-Slack-Signature is `v0=<hex>` over "v0:<timestamp>:<body>",
+ * with the timestamp in X-Slack-Request-Timestamp
+ */
+const slack: ProviderAdapter = {
+  id: "slack",
+  signatureHeader: "x-slack-signature",
+  contentType: "application/json",
+  verify: ({ rawBody, headers }, secret) => {
+    const signature = headers["x-slack-signature"] ?? ""
+    const timestamp = headers["x-slack-request-timestamp"]
+    if (!timestamp || !/^\d+$/.test(timestamp)) {
+      return { valid: false, reason: "Missing timestamp" }
+    }
+    if (!signature.startsWith("v0=")) {
+      return { valid: false, reason: "Expected a v0= signature" }
+    }
+
+    const expected = hmac(
+      "sha256",
+      Buffer.concat([Buffer.from(`v0:${timestamp}:`), rawBody]),
+      secret
+    )
+    const candidate = Buffer.from(signature.slice("v0=".length), "hex")
+    return digestsMatch(expected, candidate)
+      ? { valid: true, timestamp: Number(timestamp) }
+      : mismatch
+  },
+  normalize: (_request, body) => {
+    const type = stringAt(body, "type")
+    if (type === "url_verification") {
+      const challenge = stringAt(body, "challenge")
+      return { event: type, data: body, ...(challenge && { challenge }) }
+    }
+
+    // Events API callbacks wrap the actual event; anything else (e.g.
+    // app_rate_limited) is named by its own type
+    const deliveryId = stringAt(body, "event_id")
+    const inner =
+      type === "event_callback"
+        ? stringAt((body as { event?: unknown } | null)?.event, "type")
+        : type
+    return {
+      event: inner ?? "unknown",
+      data: body,
+      ...(deliveryId && { deliveryId }),
+    }
+  },
+  sign: ({ rawBody }, secret) => {
+    const timestamp = unixSeconds()
+    const digest = hmac(
+      "sha256",
+      Buffer.concat([Buffer.from(`v0:${timestamp}:`), rawBody]),
+      secret
+    )
+    return {
+      "x-slack-request-timestamp": String(timestamp),
+      "x-slack-signature": `v0=${digest.toString("hex")}`,
+    }
+  },
+}
+
+/**
+ * Shopify: X-Shopify-Hmac-Sha256 is the base64 digest of the raw body
+ */
+const shopify: ProviderAdapter = {
+  id: "shopify",
+  signatureHeader: "x-shopify-hmac-sha256",
+  contentType: "application/json",
+  verify: ({ rawBody, headers }, secret) => {
+    const candidate = Buffer.from(
+      headers["x-shopify-hmac-sha256"] ?? "",
+      "base64"
+    )
+    return digestsMatch(hmac("sha256", rawBody, secret), candidate)
+      ? { valid: true }
+      : mismatch
+  },
+  normalize: ({ headers }, body) => {
+    const deliveryId = headers["x-shopify-webhook-id"]
+    return {
+      // "orders/create" -> "orders.create"
+      event: (headers["x-shopify-topic"] ?? "unknown").replaceAll("/", "."),
+      data: body,
+      ...(deliveryId && { deliveryId }),
+    }
+  },
+  sign: ({ rawBody }, secret, event) => ({
+    "x-shopify-hmac-sha256": hmac("sha256", rawBody, secret).toString("base64"),
+    "x-shopify-topic": event.replaceAll(".", "/"),
+  }),
+}
+
+/**
+ * Content Twilio signs: the full URL followed by every form parameter's
+ * name and value, sorted by name
+ */
+const twilioSignedContent = ({ rawBody, url }: ProviderRequest): string =>
+  [...new URLSearchParams(rawBody.toString("utf8"))]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .reduce((content, [name, value]) => content + name + value, url)
+
+/**
+ * Twilio: X-Twilio-Signature is the base64 HMAC-SHA1 of the request URL and
+ * its form parameters, keyed with the account's auth token
+ */
+const twilio: ProviderAdapter = {
+  id: "twilio",
+  signatureHeader: "x-twilio-signature",
+  contentType: "application/x-www-form-urlencoded",
+  verify: (request, secret) => {
+    const candidate = Buffer.from(
+      request.headers["x-twilio-signature"] ?? "",
+      "base64"
+    )
+    const expected = hmac("sha1", twilioSignedContent(request), secret)
+    return digestsMatch(expected, candidate) ? { valid: true } : mismatch
+  },
+  normalize: ({ headers }, body) => {
+    // Status callbacks: calls carry CallStatus, messages MessageStatus (or
+    // SmsStatus on incoming messages)
+    const callStatus = stringAt(body, "CallStatus")
+    const messageStatus =
+      stringAt(body, "MessageStatus") ?? stringAt(body, "SmsStatus")
+    const event = stringAt(body, "CallSid")
+      ? `call.${callStatus ?? "unknown"}`
+      : stringAt(body, "MessageSid")
+        ? `message.${messageStatus ?? "unknown"}`
+        : "unknown"
+    const deliveryId = headers["i-twilio-idempotency-token"]
+    return { event, data: body, ...(deliveryId && { deliveryId }) }
+  },
+  sign: (request, secret) => ({
+    "x-twilio-signature": hmac(
+      "sha1",
+      twilioSignedContent(request),
+      secret
+    ).toString("base64"),
+  }),
+}
+
+const adapters: Record<ProviderId, ProviderAdapter> = {
+  github,
+  stripe,
+  slack,
+  shopify,
+  twilio,
+}
+
+/**
+ * Checks whether a value names a built-in provider
+ */
+export const isProviderId = (value: unknown): value is ProviderId =>
+  PROVIDER_IDS.includes(value as ProviderId)
+
+/**
+ * Looks up a provider's adapter
+ */
+export const getProvider = (id: ProviderId): ProviderAdapter => adapters[id]
+
+/**
+ * Verifies a provider request against every usable key in turn
+ * Providers do not say which secret they signed with, so rotation relies on
+ * trying each key.
+ *
+ * @param adapter - Adapter of the source's provider
+ * @param request - Incoming request
+ * @param keys - Keys currently accepted for verification
+ * @returns SignatureResult - Includes the matching keyId when valid
+ *
+ * @example
+ * verifyProviderSignature(getProvider("stripe"), request, keys)
+ * // { valid: true, timestamp: 1700000000, keyId: "primary" }
+ */
+export const verifyProviderSignature = (
+  adapter: ProviderAdapter,
+  request: ProviderRequest,
+  keys: VerificationKey[]
+): SignatureResult => {
+  if (!request.headers[adapter.signatureHeader]) {
+    return { valid: false, reason: "Missing signature" }
+  }
+
+  let result: SignatureResult = { valid: false, reason: "No usable keys" }
+  for (const key of keys) {
+    result = adapter.verify(request, key.secret)
+    if (result.valid) return { ...result, keyId: key.kid }
+  }
+  return result
+}
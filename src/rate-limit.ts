@@ -0,0 +1,121 @@
+// =============================================================================
+// RATE LIMITING
+// =============================================================================
+// Token buckets keyed by an arbitrary string (source ID, client IP). A bucket
+// holds up to `burst` tokens and refills at `perSecond` tokens per second;
+// each request takes one token or is refused with the time until the next
+// token is available. The limit is passed on every call, so a reloaded
+// configuration applies to existing buckets at once.
+// =============================================================================
+
+/**
+ * Sustained rate and burst size of a bucket
+ * @property perSecond - Tokens added per second (0 = unlimited)
+ * @property burst - Maximum tokens, i.e. requests allowed back to back
+ */
+export interface RateLimit {
+  perSecond: number
+  burst: number
+}
+
+/**
+ * Outcome of taking a token
+ * - allowed: the request may proceed
+ * - refused: retry after `retryAfterSeconds`; `firstRefusal` is true for the
+ *   first refusal since the key was last allowed through
+ */
+export type RateDecision =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number; firstRefusal: boolean }
+
+/**
+ * A set of buckets
+ */
+export interface RateLimiter {
+  take: (key: string, limit: RateLimit) => RateDecision
+}
+
+/**
+ * State of one key's bucket
+ * @property tokens - Tokens left at `updatedAt`
+ * @property updatedAt - Last refill (Unix ms)
+ * @property limit - Limit in force at the last refill
+ * @property refusing - Whether the last request was refused
+ */
+interface Bucket {
+  tokens: number
+  updatedAt: number
+  limit: RateLimit
+  refusing: boolean
+}
+
+/**
+ * Tokens in a bucket after refilling up to `now`
+ */
+const refill = (bucket: Bucket, now: number): number =>
+  Math.min(
+    bucket.limit.burst,
+    bucket.tokens + ((now - bucket.updatedAt) / 1000) * bucket.limit.perSecond
+  )
+
+/**
+ * Creates a set of token buckets
+ *
+ * @param maxKeys - Buckets kept before full (idle) ones are swept; if all
+ *   are in use, the oldest is evicted
+ * @returns RateLimiter
+ *
+ * @example
+ * const perIp = createRateLimiter()
+ * const decision = perIp.take("203.0.113.7", { perSecond: 10, burst: 20 })
+ * if (!decision.allowed) console.log(decision.retryAfterSeconds)
+ */
+export const createRateLimiter = (maxKeys = 10_000): RateLimiter => {
+  const buckets = new Map<string, Bucket>()
+
+  // Full buckets behave exactly like new ones, so they can be dropped
+  const sweep = (now: number): void => {
+    buckets.forEach((bucket, key) => {
+      if (refill(bucket, now) >= bucket.limit.burst) buckets.delete(key)
+    })
+    if (buckets.size >= maxKeys) {
+      buckets.delete(buckets.keys().next().value!)
+    }
+  }
+
+  return {
+    take: (key, limit) => {
+      if (limit.perSecond <= 0) return { allowed: true }
+
+      const now = Date.now()
+      let bucket = buckets.get(key)
+      if (!bucket) {
+        if (buckets.size >= maxKeys) sweep(now)
+        bucket = { tokens: limit.burst, updatedAt: now, limit, refusing: false }
+        buckets.set(key, bucket)
+      }
+
+      // Refill at the previous rate, capped by the (possibly reloaded) burst
+      bucket.tokens = Math.min(refill(bucket, now), limit.burst)
+      bucket.updatedAt = now
+      bucket.limit = limit
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1
+        bucket.refusing = false
+        return { allowed: true }
+      }
+
+      const firstRefusal = !bucket.refusing
+      bucket.refusing = true
+      return {
+        allowed: false,
+        retryAfterSeconds: Math.max(
+          1,
+          Math.ceil((1 - bucket.tokens) / limit.perSecond)
+        ),
+        firstRefusal,
+      }
+    },
+  }
+}
@@ -0,0 +1,113 @@
+// =============================================================================
+// RAW REQUEST BODY CAPTURE
+// =============================================================================
+// Signatures are computed by the sender over the exact bytes they sent.
+// Re-serialising the parsed body (JSON.stringify) changes whitespace and key
+// order, so the original bytes are captured during Elysia's parse phase and
+// kept alongside the request for the handler to verify against.
+//
+// Bodies are read up to a size limit. A larger Content-Length is refused
+// before reading, and a body without one is cut off once it passes the limit,
+// so an oversized request never sits in memory in full.
+//
+// Bodies are JSON, except form posts (application/x-www-form-urlencoded, as
+// sent by Twilio), which parse to an object of their fields, and NDJSON
+// batches (application/x-ndjson), which are left as text for the batch
+// handler to read line by line.
+// =============================================================================
+
+/**
+ * Raw request bytes keyed by the incoming Request object
+ * A WeakMap lets each buffer be garbage-collected together with its request
+ */
+const rawBodies = new WeakMap<Request, Buffer>()
+
+/**
+ * Thrown when a body exceeds the size limit
+ * Elysia wraps it in a parse error; find it as the error's `cause`.
+ * @property limit - Maximum body size in bytes
+ * @property size - Declared Content-Length (undefined if the body was cut off
+ *   while streaming)
+ */
+export class PayloadTooLargeError extends Error {
+  limit: number
+  size: number | undefined
+
+  constructor(limit: number, size?: number) {
+    super(
+      size === undefined
+        ? `Payload exceeds the limit of ${limit} bytes`
+        : `Payload of ${size} bytes exceeds the limit of ${limit} bytes`
+    )
+    this.limit = limit
+    this.size = size
+  }
+}
+
+/**
+ * Reads a request body, giving up once it passes `limit` bytes
+ * @throws PayloadTooLargeError
+ */
+const readBody = async (request: Request, limit: number): Promise<Buffer> => {
+  if (!request.body) return Buffer.alloc(0)
+
+  const chunks: Uint8Array[] = []
+  let size = 0
+  const reader = request.body.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > limit) {
+      await reader.cancel()
+      throw new PayloadTooLargeError(limit)
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Creates an Elysia `parse` hook that reads the body as raw bytes, stores
+ * them and returns the parsed JSON (or form fields) so schema validation
+ * still applies
+ *
+ * An empty body parses to an empty object; malformed JSON throws, which
+ * Elysia reports as a 400 parse error.
+ *
+ * @param maxBytes - Returns the current body size limit
+ * @throws PayloadTooLargeError (as the parse error's cause)
+ *
+ * @example
+ * app.post("/webhook", handler, {
+ *   parse: captureRawBody(() => 1_048_576),
+ *   body: schema,
+ * })
+ */
+export const captureRawBody =
+  (maxBytes: () => number) =>
+  async ({ request }: { request: Request }): Promise<unknown> => {
+    const limit = maxBytes()
+    const declared = Number(request.headers.get("content-length"))
+    if (declared > limit) throw new PayloadTooLargeError(limit, declared)
+
+    const raw = await readBody(request, limit)
+    rawBodies.set(request, raw)
+    if (raw.length === 0) return {}
+
+    const text = raw.toString("utf8")
+    const contentType = request.headers.get("content-type") ?? ""
+    if (contentType.startsWith("application/x-www-form-urlencoded")) {
+      return Object.fromEntries(new URLSearchParams(text))
+    }
+    return contentType.startsWith("application/x-ndjson")
+      ? text
+      : JSON.parse(text)
+  }
+
+/**
+ * Returns the raw bytes captured for a request
+ * Falls back to an empty buffer if the route did not use `captureRawBody`
+ */
+export const getRawBody = (request: Request): Buffer =>
+  rawBodies.get(request) ?? Buffer.alloc(0)
@@ -0,0 +1,96 @@
+// =============================================================================
+// REPLAY PROTECTION
+// =============================================================================
+// Two independent defences against a captured request being sent again:
+//
+//   1. Timestamp tolerance: signed timestamps (Stripe-style `t=` or JWT `iat`)
+//      must fall within a window around the server clock.
+//   2. Delivery-ID dedup: each delivery ID (e.g. `x-webhook-id`) is accepted
+//      once per TTL; later copies are reported as duplicates.
+// =============================================================================
+
+/**
+ * Outcome of the timestamp tolerance check
+ * @property ok - True if the timestamp is absent or within tolerance
+ * @property reason - Why the timestamp was rejected
+ */
+export interface TimestampCheck {
+  ok: boolean
+  reason?: string
+}
+
+/**
+ * Delivery IDs seen recently, mapped to their expiry time (Unix ms)
+ * Entries share one TTL (unless it is reloaded), so expired entries collect
+ * at the front of the map. After the TTL is lowered some may sit behind
+ * newer ones; lookups compare the expiry, so they count as unseen.
+ */
+const seenDeliveries = new Map<string, number>()
+
+/**
+ * Checks a signed timestamp against the allowed clock skew
+ *
+ * Signatures without a timestamp (e.g. GitHub `sha256=`) are accepted here
+ * and rely on delivery-ID dedup instead.
+ *
+ * @param timestamp - Signed timestamp in Unix seconds, if any
+ * @param toleranceSeconds - Maximum allowed distance from now
+ * @param now - Current time in Unix ms (defaults to Date.now())
+ * @returns TimestampCheck
+ *
+ * @example
+ * checkTimestamp(Math.floor(Date.now() / 1000), 300) // { ok: true }
+ * checkTimestamp(1700000000, 300) // { ok: false, reason: "..." }
+ */
+export const checkTimestamp = (
+  timestamp: number | undefined,
+  toleranceSeconds: number,
+  now: number = Date.now()
+): TimestampCheck => {
+  if (timestamp === undefined) return { ok: true }
+
+  const skew = Math.abs(now / 1000 - timestamp)
+  return skew <= toleranceSeconds
+    ? { ok: true }
+    : {
+        ok: false,
+        reason: `Timestamp is ${Math.round(skew)}s from server time (tolerance ${toleranceSeconds}s)`,
+      }
+}
+
+/**
+ * Drops expired delivery IDs from the front of the store
+ */
+const pruneDeliveries = (now: number): void => {
+  for (const [id, expiresAt] of seenDeliveries) {
+    if (expiresAt > now) break
+    seenDeliveries.delete(id)
+  }
+}
+
+/**
+ * Atomically checks and records a delivery ID
+ *
+ * @param deliveryId - Sender-provided unique delivery identifier
+ * @param ttlSeconds - How long the ID is remembered
+ * @param now - Current time in Unix ms (defaults to Date.now())
+ * @returns boolean - True on first sight, false if it is a duplicate
+ *
+ * @example
+ * claimDelivery("evt_123", 86400) // true
+ * claimDelivery("evt_123", 86400) // false (duplicate)
+ */
+export const claimDelivery = (
+  deliveryId: string,
+  ttlSeconds: number,
+  now: number = Date.now()
+): boolean => {
+  pruneDeliveries(now)
+  const expiresAt = seenDeliveries.get(deliveryId)
+  if (expiresAt !== undefined && expiresAt > now) return false
+
+  // Re-inserted at the end, keeping the map in expiry order
+  seenDeliveries.delete(deliveryId)
+  seenDeliveries.set(deliveryId, now + ttlSeconds * 1000)
+  return true
+}
@@ -0,0 +1,233 @@
+// =============================================================================
+// WEBHOOK SIGNATURE VERIFICATION
+// =============================================================================
+// Verifies that an incoming webhook was produced by a holder of the shared
+// secret. Two schemes are supported:
+//
+//   - hmac-sha256: HMAC over the exact raw request bytes. Accepted formats:
+//       sha256=<hex>               (GitHub style)
+//       t=<unix>,v1=<hex>[,v1=...] (Stripe style, signs "<t>.<body>")
+//       <base64> or <hex>          (Shopify style, bare digest)
+//   - jwt: a JWT signed with the secret (legacy mode, not bound to the body)
+//
+// Sources of well-known providers (GitHub, Stripe, ...) are verified by their
+// provider adapter instead, see providers.ts.
+//
+// All digest comparisons are constant-time. Verification runs against a key
+// ring: the key named by the sender (kid header or JWT `kid`) or, if none is
+// named, every usable key in turn.
+// =============================================================================
+
+import { createHmac, timingSafeEqual } from "node:crypto"
+import jwt from "jsonwebtoken"
+
+/**
+ * Supported signature schemes
+ */
+export type SignatureScheme = "hmac-sha256" | "jwt"
+
+/**
+ * A secret that may verify a signature
+ * @property kid - Key ID
+ * @property secret - Shared secret
+ */
+export interface VerificationKey {
+  kid: string
+  secret: string
+}
+
+/**
+ * Outcome of a signature check
+ * @property valid - True if the signature matches
+ * @property reason - Why verification failed (only set when invalid)
+ * @property timestamp - Signed timestamp in Unix seconds, when the format
+ *   carries one (Stripe-style `t=`, JWT `iat`); used for replay checks
+ * @property keyId - ID of the key that verified the signature
+ */
+export interface SignatureResult {
+  valid: boolean
+  reason?: string
+  timestamp?: number
+  keyId?: string
+}
+
+/**
+ * Computes the HMAC-SHA256 digest of a payload
+ *
+ * @param payload - Bytes (or string) to sign
+ * @param secret - Shared secret
+ * @returns Buffer - Raw 32-byte digest
+ */
+const hmacDigest = (payload: Buffer | string, secret: string): Buffer =>
+  createHmac("sha256", secret).update(payload).digest()
+
+/**
+ * Constant-time comparison of an expected digest with a candidate
+ * Length is checked first because timingSafeEqual throws on mismatch;
+ * the length of a SHA-256 digest is public, so this leaks nothing.
+ */
+export const digestsMatch = (expected: Buffer, candidate: Buffer): boolean =>
+  expected.length === candidate.length && timingSafeEqual(expected, candidate)
+
+/**
+ * Decodes a bare digest that may be hex or base64 encoded
+ * Returns an empty buffer for anything that is neither
+ */
+const decodeDigest = (value: string): Buffer => {
+  if (/^[0-9a-f]{64}$/i.test(value)) return Buffer.from(value, "hex")
+  if (/^[A-Za-z0-9+/]+={0,2}$/.test(value)) return Buffer.from(value, "base64")
+  return Buffer.alloc(0)
+}
+
+/**
+ * Verifies an HMAC-SHA256 signature header against the raw request body
+ *
+ * @param rawBody - Exact bytes received on the wire
+ * @param header - Signature header value in any supported format
+ * @param secret - Shared secret
+ * @returns SignatureResult
+ *
+ * @example
+ * verifyHmacSignature(raw, "sha256=5d41402abc4b...", secret)
+ * verifyHmacSignature(raw, "t=1700000000,v1=5d41402abc4b...", secret)
+ * verifyHmacSignature(raw, "XUFAKrxLKna5cZ2REBfFkg==", secret)
+ */
+export const verifyHmacSignature = (
+  rawBody: Buffer,
+  header: string,
+  secret: string
+): SignatureResult => {
+  const value = header.trim()
+
+  // GitHub style: sha256=<hex>
+  if (value.startsWith("sha256=")) {
+    const candidate = Buffer.from(value.slice("sha256=".length), "hex")
+    return digestsMatch(hmacDigest(rawBody, secret), candidate)
+      ? { valid: true }
+      : { valid: false, reason: "HMAC digest mismatch" }
+  }
+
+  // Stripe style: t=<timestamp>,v1=<hex>[,v1=<hex>...]
+  // Commas never appear in a bare base64/hex digest
+  if (value.includes(",")) {
+    const parts = value.split(",").map((part) => part.trim().split("="))
+    const timestamp = parts.find(([key]) => key === "t")?.[1]
+    const candidates = parts
+      .filter(([key]) => key === "v1")
+      .map(([, digest]) => Buffer.from(digest ?? "", "hex"))
+
+    if (!timestamp) return { valid: false, reason: "Missing timestamp" }
+
+    // Signed payload is "<timestamp>.<raw body>"
+    const expected = hmacDigest(
+      Buffer.concat([Buffer.from(`${timestamp}.`), rawBody]),
+      secret
+    )
+    return candidates.some((candidate) => digestsMatch(expected, candidate))
+      ? { valid: true, timestamp: Number(timestamp) }
+      : { valid: false, reason: "HMAC digest mismatch" }
+  }
+
+  // Shopify style: bare base64 (or hex) digest
+  return digestsMatch(hmacDigest(rawBody, secret), decodeDigest(value))
+    ? { valid: true }
+    : { valid: false, reason: "HMAC digest mismatch" }
+}
+
+/**
+ * Verifies a JWT signed with the shared secret
+ * Checks format, signature and expiry; the body itself is not covered.
+ * The `iat` claim is reported as the signed timestamp and is required:
+ * without it a token would pass the timestamp tolerance check and could be
+ * replayed until it expires. `exp` is only an expiry, enforced here.
+ *
+ * @param token - JWT from the signature header
+ * @param secret - Shared secret
+ * @returns SignatureResult
+ */
+export const verifyJwtSignature = (
+  token: string,
+  secret: string
+): SignatureResult => {
+  try {
+    const claims = jwt.verify(token, secret)
+    const timestamp = typeof claims === "string" ? undefined : claims.iat
+    return timestamp === undefined
+      ? { valid: false, reason: "JWT has no iat claim" }
+      : { valid: true, timestamp }
+  } catch (err) {
+    // Token is invalid, expired, or malformed
+    return { valid: false, reason: (err as Error).message }
+  }
+}
+
+/**
+ * Reads the `kid` from a JWT header without verifying the token
+ * @returns Key ID or undefined if absent or the token is malformed
+ */
+const jwtKeyId = (token: string): string | undefined => {
+  const decoded = jwt.decode(token, { complete: true })
+  return decoded?.header.kid
+}
+
+/**
+ * Validates the signature of an incoming webhook request
+ *
+ * Security Flow:
+ * 1. Check if signature header exists
+ * 2. Pick candidate keys: the named key (kid header, then JWT `kid`),
+ *    otherwise every usable key
+ * 3. Dispatch to the configured scheme for each candidate
+ * 4. HMAC is computed over the exact raw bytes, never a re-serialised body
+ *
+ * @param rawBody - Raw request bytes
+ * @param signature - Value of the signature header
+ * @param scheme - Verification scheme to apply
+ * @param keys - Keys currently accepted for verification
+ * @param keyId - Key ID named by the sender's kid header (optional)
+ * @returns SignatureResult - Includes the matching keyId when valid
+ *
+ * @example
+ * validateSignature(raw, "sha256=...", "hmac-sha256", keys) // { valid: true, keyId: "primary" }
+ * validateSignature(raw, "invalid-token", "jwt", keys) // { valid: false, ... }
+ */
+export const validateSignature = (
+  rawBody: Buffer,
+  signature: string,
+  scheme: SignatureScheme,
+  keys: VerificationKey[],
+  keyId?: string
+): SignatureResult => {
+  // Early return if no signature provided
+  if (!signature) return { valid: false, reason: "Missing signature" }
+
+  // A named key must be one of the usable keys; retired or unknown IDs fail
+  const named = keyId ?? (scheme === "jwt" ? jwtKeyId(signature) : undefined)
+  const candidates = named ? keys.filter((key) => key.kid === named) : keys
+  if (candidates.length === 0) {
+    return {
+      valid: false,
+      reason: named ? `Unknown or unusable key ID: ${named}` : "No usable keys",
+    }
+  }
+
+  let result: SignatureResult = { valid: false, reason: "No usable keys" }
+  for (const key of candidates) {
+    result =
+      scheme === "jwt"
+        ? verifyJwtSignature(signature, key.secret)
+        : verifyHmacSignature(rawBody, signature, key.secret)
+    if (result.valid) return { ...result, keyId: key.kid }
+  }
+  return result
+}
+
+/**
+ * Produces a GitHub-style signature header value for a payload
+ * Used by the dashboard test tooling to sign exactly what it sends.
+ *
+ * @example
+ * signHmac('{"event":"test"}', SECRET) // "sha256=9c3f..."
+ */
+export const signHmac = (payload: Buffer | string, secret: string): string =>
+  `sha256=${hmacDigest(payload, secret).toString("hex")}`
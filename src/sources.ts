@@ -0,0 +1,456 @@
+// =============================================================================
+// WEBHOOK SOURCE REGISTRY
+// =============================================================================
+// Each provider that sends webhooks to the gateway is a "source" with its own
+// key ring, signature scheme, signature header and event allow-list. Sources
+// are loaded once at startup from a JSON file:
+//
+//   {
+//     "sources": [
+//       {
+//         "id": "shop",
+//         "scheme": "hmac-sha256",
+//         "signatureHeader": "x-shop-signature",
+//         "allowedEvents": ["order.*", "refund.created"],
+//         "rateLimit": { "perSecond": 50, "burst": 100 },
+//         "idempotencyKeyField": "data.eventId",
+//         "keys": [
+//           { "kid": "2025-01", "secretEnv": "SHOP_SECRET_2025_01" },
+//           { "kid": "2024-07", "secret": "...", "status": "verifying-only" }
+//         ]
+//       }
+//     ]
+//   }
+//
+// A single "secret"/"secretEnv" is shorthand for one active key "primary".
+// Sources of a well-known provider declare it instead of a scheme and header,
+// e.g. { "id": "payments", "provider": "stripe", "secretEnv": "..." }; the
+// provider adapter then verifies and normalises its requests (see
+// providers.ts).
+// Repeated requests are recognised by an idempotency key, read from the
+// "idempotencyKeyHeader" (default Idempotency-Key) or else from the body at
+// "idempotencyKeyField" if set.
+// Signatures without a signed timestamp (plain HMAC) can be resent unchanged
+// once the delivery ID has expired or when none is sent; "requireTimestamp"
+// refuses them for senders known to sign one.
+// Each source is served at POST /webhook/:id. The legacy POST /webhook route
+// maps to the "default" source.
+//
+// Key rotation: keys have a status and an optional validity window.
+//   - active: used to sign (test tooling) and accepted for verification
+//   - verifying-only: still accepted, never used to sign
+//   - retired: rejected
+// Keys can be added and retired at runtime through the admin API; runtime
+// changes live in memory and are not written back to the file.
+// =============================================================================
+
+import { existsSync, readFileSync } from "node:fs"
+import { matchesAnyGlob } from "./glob.js"
+import { isObject, isStringArray } from "./guards.js"
+import {
+  getProvider,
+  isProviderId,
+  PROVIDER_IDS,
+  type ProviderId,
+} from "./providers.js"
+import type { RateLimit } from "./rate-limit.js"
+import type { SignatureScheme } from "./signature.js"
+
+/**
+ * Source used by the legacy single-route endpoint
+ */
+export const DEFAULT_SOURCE_ID = "default"
+
+/**
+ * Header carrying the idempotency key unless a source names another
+ */
+export const IDEMPOTENCY_KEY_HEADER = "idempotency-key"
+
+/**
+ * Lifecycle state of a signing key
+ */
+export type KeyStatus = "active" | "verifying-only" | "retired"
+
+/**
+ * Every key status, in lifecycle order
+ */
+const KEY_STATUSES: KeyStatus[] = ["active", "verifying-only", "retired"]
+
+/**
+ * One secret in a source's key ring
+ * @property kid - Key ID, referenced by senders via header or JWT `kid`
+ * @property secret - Shared secret
+ * @property status - Lifecycle state (see KeyStatus)
+ * @property notBefore - Key is unusable before this time (Unix ms)
+ * @property notAfter - Key is unusable after this time (Unix ms)
+ * @property createdAt - When the key was registered (Unix ms)
+ */
+export interface SigningKey {
+  kid: string
+  secret: string
+  status: KeyStatus
+  notBefore?: number
+  notAfter?: number
+  createdAt: number
+}
+
+/**
+ * Public view of a key, safe to expose through the API
+ */
+export type PublicSigningKey = Omit<SigningKey, "secret">
+
+/**
+ * Runtime configuration for one webhook source
+ * @property id - URL-safe identifier, used in /webhook/:id
+ * @property keys - Key ring used for signature verification
+ * @property provider - Built-in provider adapter that verifies and
+ *   normalises requests (optional; replaces scheme and signature header)
+ * @property scheme - Signature scheme expected from this sender
+ * @property signatureHeader - Request header carrying the signature
+ * @property keyIdHeader - Request header naming the key used (optional)
+ * @property allowedEvents - Event name globs accepted (undefined = all)
+ * @property rateLimit - Requests accepted from this source (undefined = the
+ *   gateway-wide per-source limit)
+ * @property idempotencyKeyHeader - Request header carrying the idempotency
+ *   key
+ * @property idempotencyKeyField - Body path holding the idempotency key when
+ *   the header is absent (optional)
+ * @property requireTimestamp - Refuse requests whose signature carries no
+ *   signed timestamp (optional)
+ */
+export interface WebhookSource {
+  id: string
+  keys: SigningKey[]
+  provider?: ProviderId
+  scheme: SignatureScheme
+  signatureHeader: string
+  keyIdHeader: string
+  allowedEvents?: string[]
+  rateLimit?: RateLimit
+  idempotencyKeyHeader: string
+  idempotencyKeyField?: string
+  requireTimestamp?: boolean
+}
+
+/**
+ * Public view of a source, safe to expose through the API
+ */
+export type PublicWebhookSource = Omit<WebhookSource, "keys"> & {
+  keys: PublicSigningKey[]
+}
+
+/**
+ * Loaded sources keyed by ID
+ */
+const sources = new Map<string, WebhookSource>()
+
+/**
+ * Converts an optional ISO date string or Unix ms value to Unix ms
+ * @throws Error if the value is present but not a valid date
+ */
+export const parseTime = (
+  value: unknown,
+  field: string
+): number | undefined => {
+  if (value === undefined || value === null) return undefined
+  const time = typeof value === "number" ? value : Date.parse(String(value))
+  if (Number.isNaN(time)) throw new Error(`"${field}" is not a valid date`)
+  return time
+}
+
+/**
+ * Validates a raw key definition (from the sources file or the admin API)
+ *
+ * @param raw - Untrusted key object
+ * @param where - Location prefix for error messages
+ * @returns SigningKey
+ * @throws Error describing the first invalid field
+ */
+export const parseKey = (raw: unknown, where: string): SigningKey => {
+  if (!isObject(raw) || typeof raw.kid !== "string" || raw.kid.length === 0) {
+    throw new Error(`${where}: "kid" must be a non-empty string`)
+  }
+  const kid = raw.kid
+
+  // The secret may be inline or referenced from an environment variable
+  const secret =
+    typeof raw.secretEnv === "string" ? process.env[raw.secretEnv] : raw.secret
+  if (typeof secret !== "string" || secret.length === 0) {
+    throw new Error(
+      `${where} (${kid}): provide "secret" or "secretEnv" pointing at a set variable`
+    )
+  }
+
+  const status = raw.status ?? "active"
+  if (!KEY_STATUSES.includes(status as KeyStatus)) {
+    throw new Error(`${where} (${kid}): unknown status "${String(status)}"`)
+  }
+
+  try {
+    const notBefore = parseTime(raw.notBefore, "notBefore")
+    const notAfter = parseTime(raw.notAfter, "notAfter")
+    return {
+      kid,
+      secret,
+      status: status as KeyStatus,
+      createdAt: Date.now(),
+      ...(notBefore !== undefined && { notBefore }),
+      ...(notAfter !== undefined && { notAfter }),
+    }
+  } catch (err) {
+    throw new Error(`${where} (${kid}): ${(err as Error).message}`)
+  }
+}
+
+/**
+ * Checks a source's "rateLimit" setting
+ */
+const isRateLimit = (value: unknown): value is RateLimit =>
+  isObject(value) &&
+  typeof value.perSecond === "number" &&
+  value.perSecond >= 0 &&
+  typeof value.burst === "number" &&
+  Number.isInteger(value.burst) &&
+  value.burst >= 1
+
+/**
+ * Reads an optional header name from a source entry, lower-cased
+ * @throws Error if the field is present but not a non-empty string
+ */
+const readHeaderName = (
+  raw: Record<string, unknown>,
+  field: string,
+  fallback: string,
+  where: string
+): string => {
+  const name = raw[field] ?? fallback
+  if (typeof name !== "string" || name.length === 0) {
+    throw new Error(`${where}: "${field}" must be a header name`)
+  }
+  return name.toLowerCase()
+}
+
+/**
+ * Validates one raw entry from the sources file
+ * Throws with the offending entry's position so config mistakes are obvious
+ */
+const parseSource = (raw: unknown, index: number): WebhookSource => {
+  const where = `sources[${index}]`
+
+  if (
+    !isObject(raw) ||
+    typeof raw.id !== "string" ||
+    !/^[a-z0-9_-]+$/i.test(raw.id)
+  ) {
+    throw new Error(`${where}: "id" must be a URL-safe string`)
+  }
+  const id = raw.id
+  const at = `${where} (${id})`
+
+  // Either a full key ring or the single-secret shorthand
+  const rawKeys: unknown[] = Array.isArray(raw.keys)
+    ? raw.keys
+    : [{ kid: "primary", secret: raw.secret, secretEnv: raw.secretEnv }]
+  const keys = rawKeys.map((key, k) =>
+    parseKey(key, `${where} (${id}).keys[${k}]`)
+  )
+  if (keys.length === 0) {
+    throw new Error(`${where} (${id}): at least one key is required`)
+  }
+
+  const provider = raw.provider
+  if (provider !== undefined && !isProviderId(provider)) {
+    throw new Error(
+      `${where} (${id}): unknown provider "${String(provider)}" ` +
+        `(expected one of ${PROVIDER_IDS.join(", ")})`
+    )
+  }
+  if (provider && (raw.scheme ?? raw.signatureHeader) !== undefined) {
+    throw new Error(
+      `${where} (${id}): "scheme" and "signatureHeader" are implied by "provider"`
+    )
+  }
+
+  const scheme = raw.scheme ?? "hmac-sha256"
+  if (scheme !== "hmac-sha256" && scheme !== "jwt") {
+    throw new Error(`${where} (${id}): unknown scheme "${String(scheme)}"`)
+  }
+
+  const allowedEvents = raw.allowedEvents
+  if (allowedEvents !== undefined && !isStringArray(allowedEvents)) {
+    throw new Error(`${where} (${id}): "allowedEvents" must be a string array`)
+  }
+
+  const rateLimit = raw.rateLimit
+  if (rateLimit !== undefined && !isRateLimit(rateLimit)) {
+    throw new Error(
+      `${where} (${id}): "rateLimit" needs "perSecond" >= 0 and an ` +
+        `integer "burst" >= 1`
+    )
+  }
+
+  const idempotencyKeyField = raw.idempotencyKeyField
+  if (
+    idempotencyKeyField !== undefined &&
+    (typeof idempotencyKeyField !== "string" ||
+      idempotencyKeyField.length === 0)
+  ) {
+    throw new Error(
+      `${where} (${id}): "idempotencyKeyField" must be a path such as data.id`
+    )
+  }
+
+  if (
+    raw.requireTimestamp !== undefined &&
+    typeof raw.requireTimestamp !== "boolean"
+  ) {
+    throw new Error(`${where} (${id}): "requireTimestamp" must be a boolean`)
+  }
+
+  return {
+    id,
+    keys,
+    ...(provider && { provider }),
+    scheme,
+    signatureHeader: provider
+      ? getProvider(provider).signatureHeader
+      : readHeaderName(raw, "signatureHeader", "x-signature", at),
+    keyIdHeader: readHeaderName(raw, "keyIdHeader", "x-signature-kid", at),
+    idempotencyKeyHeader: readHeaderName(
+      raw,
+      "idempotencyKeyHeader",
+      IDEMPOTENCY_KEY_HEADER,
+      at
+    ),
+    ...(allowedEvents && { allowedEvents }),
+    ...(rateLimit && {
+      rateLimit: { perSecond: rateLimit.perSecond, burst: rateLimit.burst },
+    }),
+    ...(idempotencyKeyField && { idempotencyKeyField }),
+    ...(raw.requireTimestamp === true && { requireTimestamp: true }),
+  }
+}
+
+/**
+ * Loads the source registry
+ *
+ * The fallback source is always registered as "default" unless the file
+ * defines its own, so the legacy /webhook route keeps working.
+ *
+ * @param path - JSON file with a "sources" array (missing file = no extras)
+ * @param fallback - Default source built from the global settings
+ * @throws Error if the file exists but is malformed
+ */
+export const loadSources = (path: string, fallback: WebhookSource): void => {
+  sources.clear()
+  sources.set(fallback.id, fallback)
+
+  if (!existsSync(path)) return
+
+  const file = JSON.parse(readFileSync(path, "utf8"))
+  if (!Array.isArray(file?.sources)) {
+    throw new Error(`${path}: expected a top-level "sources" array`)
+  }
+
+  file.sources.forEach((raw: unknown, index: number) => {
+    const source = parseSource(raw, index)
+    sources.set(source.id, source)
+  })
+}
+
+/**
+ * Looks up a source by ID
+ * @returns WebhookSource or undefined if not registered
+ */
+export const getSource = (id: string): WebhookSource | undefined =>
+  sources.get(id)
+
+/**
+ * Strips secrets from a key for API responses
+ */
+export const toPublicKey = ({
+  secret: _secret,
+  ...rest
+}: SigningKey): PublicSigningKey => rest
+
+/**
+ * Lists all sources without their secrets
+ */
+export const listSources = (): PublicWebhookSource[] =>
+  [...sources.values()].map((source) => ({
+    ...source,
+    keys: source.keys.map(toPublicKey),
+  }))
+
+/**
+ * Checks a source's event allow-list
+ * @returns boolean - True if the source accepts this event name
+ */
+export const isEventAllowed = (source: WebhookSource, event: string): boolean =>
+  !source.allowedEvents || matchesAnyGlob(source.allowedEvents, event)
+
+// =============================================================================
+// KEY RING
+// =============================================================================
+
+/**
+ * Checks whether a key's validity window contains a point in time
+ */
+const inWindow = (key: SigningKey, now: number): boolean =>
+  (key.notBefore === undefined || key.notBefore <= now) &&
+  (key.notAfter === undefined || now <= key.notAfter)
+
+/**
+ * Keys currently accepted for verification
+ * Active and verifying-only keys inside their validity window
+ *
+ * @param source - Source whose key ring to read
+ * @param now - Current time in Unix ms (defaults to Date.now())
+ */
+export const verificationKeys = (
+  source: WebhookSource,
+  now: number = Date.now()
+): SigningKey[] =>
+  source.keys.filter((key) => key.status !== "retired" && inWindow(key, now))
+
+/**
+ * Key used to produce signatures for a source
+ * The most recently registered active key inside its validity window
+ *
+ * @returns SigningKey or undefined if the source has no usable active key
+ */
+export const currentSigningKey = (
+  source: WebhookSource,
+  now: number = Date.now()
+): SigningKey | undefined =>
+  source.keys
+    .filter((key) => key.status === "active" && inWindow(key, now))
+    .sort((a, b) => b.createdAt - a.createdAt)[0]
+
+/**
+ * Adds a key to a source's key ring
+ * @throws Error if the key ID is already taken
+ */
+export const addKey = (source: WebhookSource, key: SigningKey): void => {
+  if (source.keys.some((existing) => existing.kid === key.kid)) {
+    throw new Error(`Key ID "${key.kid}" already exists for source ${source.id}`)
+  }
+  source.keys.push(key)
+}
+
+/**
+ * Changes the status and/or validity window of an existing key
+ *
+ * @returns SigningKey - The updated key, or undefined if the ID is unknown
+ */
+export const updateKey = (
+  source: WebhookSource,
+  kid: string,
+  changes: Partial<Pick<SigningKey, "status" | "notBefore" | "notAfter">>
+): SigningKey | undefined => {
+  const key = source.keys.find((existing) => existing.kid === kid)
+  if (!key) return undefined
+
+  Object.assign(key, changes)
+  return key
+}
@@ -0,0 +1,213 @@
+// =============================================================================
+// STORAGE
+// =============================================================================
+// Pluggable persistence for the queue, the processed-event history, the
+// event log, the dead-letter queue and the outgoing subscriptions. The
+// server, the event log, the DLQ and the subscription module only talk to
+// the Storage interface; which implementation backs it is chosen at startup:
+//
+//   - memory:  plain arrays, lost on restart (development, tests)
+//   - journal: append-only file journal, survives restarts and crashes
+//              (see journal-storage.ts)
+//
+// Reads return live arrays so hot paths (claiming due items, stats) stay
+// cheap. Every mutation must go through the interface, even when the caller
+// already changed the object in place, so durable implementations see it.
+// =============================================================================
+
+import type { DeadLetter } from "./dead-letter.js"
+import type { EventRecord } from "./event-log.js"
+import type { Subscription } from "./subscriptions.js"
+import type {
+  DeliveryAttempt,
+  ProcessedEvent,
+  WebhookQueueItem,
+} from "./types.js"
+
+/**
+ * Persistence backend for gateway state
+ * @property queueItems - Queued items, oldest first
+ * @property putQueueItem - Inserts an item or replaces the one with its ID
+ * @property removeQueueItem - Deletes an item (delivered or dead-lettered)
+ * @property history - Processed-event history, newest first
+ * @property addHistory - Prepends a history entry, dropping the oldest
+ *   beyond the configured limit
+ * @property events - Event log, oldest first
+ * @property getEvent - Looks up an event log record by ID
+ * @property putEvent - Inserts a record or replaces the one with its ID,
+ *   dropping the oldest beyond the configured limit
+ * @property deadLetters - Dead-lettered webhooks, newest first
+ * @property putDeadLetter - Inserts an entry or replaces the one with its ID
+ * @property removeDeadLetter - Deletes an entry (replayed or purged)
+ * @property subscriptions - Outgoing subscriptions, oldest first
+ * @property putSubscription - Inserts a subscription or replaces the one
+ *   with its ID
+ * @property removeSubscription - Deletes a subscription
+ * @property close - Flushes and releases resources on shutdown
+ */
+export interface Storage {
+  queueItems: () => readonly WebhookQueueItem[]
+  putQueueItem: (item: WebhookQueueItem) => void
+  removeQueueItem: (id: string) => void
+  history: () => readonly ProcessedEvent[]
+  addHistory: (entry: ProcessedEvent) => void
+  events: () => readonly EventRecord[]
+  getEvent: (id: string) => EventRecord | undefined
+  putEvent: (record: EventRecord) => void
+  deadLetters: () => readonly DeadLetter[]
+  putDeadLetter: (entry: DeadLetter) => void
+  removeDeadLetter: (id: string) => void
+  subscriptions: () => readonly Subscription[]
+  putSubscription: (subscription: Subscription) => void
+  removeSubscription: (id: string) => void
+  close: () => void
+}
+
+/**
+ * Retention limits shared by all backends
+ * @property historyLimit - Maximum history entries kept (rolling window)
+ * @property eventLimit - Maximum event log records kept (oldest dropped)
+ */
+export interface StorageLimits {
+  historyLimit: number
+  eventLimit: number
+}
+
+/**
+ * Creates a storage backend that keeps everything in memory
+ * Also used by the journal backend as its working copy
+ *
+ * @param limits - History and event log retention
+ * @returns Storage
+ */
+export const createMemoryStorage = ({
+  historyLimit,
+  eventLimit,
+}: StorageLimits): Storage => {
+  const queue: WebhookQueueItem[] = []
+  const history: ProcessedEvent[] = []
+  const events: EventRecord[] = []
+  const eventsById = new Map<string, EventRecord>()
+  const deadLetters: DeadLetter[] = []
+  const subscriptions: Subscription[] = []
+
+  return {
+    queueItems: () => queue,
+    putQueueItem: (item) => {
+      const index = queue.findIndex((existing) => existing.id === item.id)
+      if (index === -1) queue.push(item)
+      else queue[index] = item
+    },
+    removeQueueItem: (id) => {
+      const index = queue.findIndex((item) => item.id === id)
+      if (index !== -1) queue.splice(index, 1)
+    },
+    history: () => history,
+    addHistory: (entry) => {
+      history.unshift(entry)
+      if (history.length > historyLimit) history.length = historyLimit
+    },
+    events: () => events,
+    getEvent: (id) => eventsById.get(id),
+    putEvent: (record) => {
+      if (eventsById.has(record.id)) {
+        // Updates almost always hit recent records, so search from the end
+        const index = events.findLastIndex(
+          (existing) => existing.id === record.id
+        )
+        events[index] = record
+      } else {
+        events.push(record)
+        if (events.length > eventLimit) {
+          eventsById.delete(events.shift()!.id)
+        }
+      }
+      eventsById.set(record.id, record)
+    },
+    deadLetters: () => deadLetters,
+    putDeadLetter: (entry) => {
+      const index = deadLetters.findIndex((existing) => existing.id === entry.id)
+      if (index === -1) deadLetters.unshift(entry)
+      else deadLetters[index] = entry
+    },
+    removeDeadLetter: (id) => {
+      const index = deadLetters.findIndex((entry) => entry.id === id)
+      if (index !== -1) deadLetters.splice(index, 1)
+    },
+    subscriptions: () => subscriptions,
+    putSubscription: (subscription) => {
+      const index = subscriptions.findIndex(
+        (existing) => existing.id === subscription.id
+      )
+      if (index === -1) subscriptions.push(subscription)
+      else subscriptions[index] = subscription
+    },
+    removeSubscription: (id) => {
+      const index = subscriptions.findIndex((existing) => existing.id === id)
+      if (index !== -1) subscriptions.splice(index, 1)
+    },
+    close: () => {},
+  }
+}
+
+/**
+ * Releases queue items left claimed by a previous run
+ * An item still marked as claimed was mid-delivery when the process died:
+ * the attempt is recorded as interrupted (without using up a retry) and the
+ * item is due again. Targets may receive that delivery twice and can dedup
+ * on x-webhook-id.
+ *
+ * @param storage - Storage just opened, before the worker starts
+ * @param now - Current time in Unix ms (defaults to Date.now())
+ * @returns The interrupted items, each with the attempt added to it
+ *
+ * @example
+ * releaseInterrupted(storage).forEach(({ item, attempt }) =>
+ *   updateEvent(item.eventId, "queued", attempt)
+ * )
+ */
+export const releaseInterrupted = (
+  storage: Storage,
+  now: number = Date.now()
+): { item: WebhookQueueItem; attempt: DeliveryAttempt }[] =>
+  storage
+    .queueItems()
+    .filter((item) => item.claimedAt !== undefined)
+    .map((item) => {
+      const attempt: DeliveryAttempt = {
+        at: now,
+        ok: false,
+        error: "Interrupted by restart",
+      }
+      delete item.claimedAt
+      item.nextAttemptAt = now
+      item.attempts.push(attempt)
+      storage.putQueueItem(item)
+      return { item, attempt }
+    })
+
+/**
+ * Picks the next queue item that is due for an attempt
+ * Oldest first; items waiting out a backoff delay or already in flight
+ * are skipped. An item with an ordering key also waits while an older item
+ * with the same key is still queued, so a failing item holds up only its
+ * own partition.
+ *
+ * @param items - Queue items, oldest first
+ * @param now - Current time in Unix ms
+ * @returns WebhookQueueItem or undefined if nothing is due
+ */
+export const nextDueItem = (
+  items: readonly WebhookQueueItem[],
+  now: number
+): WebhookQueueItem | undefined => {
+  const partitionHeads = new Set<string>()
+  return items.find((candidate) => {
+    const key = candidate.orderingKey
+    if (key !== undefined) {
+      if (partitionHeads.has(key)) return false
+      partitionHeads.add(key)
+    }
+    return candidate.claimedAt === undefined && candidate.nextAttemptAt <= now
+  })
+}
@@ -0,0 +1,287 @@
+// =============================================================================
+// OUTGOING SUBSCRIPTIONS
+// =============================================================================
+// Lets the gateway publish events to customers. A subscriber registers a URL
+// and the event names it wants (globs such as "order.*"); the gateway
+// generates a signing secret for it:
+//
+//   POST /subscriptions
+//   { "url": "https://customer.example/hooks", "events": ["order.*"] }
+//   -> { "id": "sub_3f9c...", "secret": "whsec_...", ... }
+//
+// Every accepted webhook or internally published event whose name matches
+// an active subscription is queued for that subscriber next to its route
+// targets. Subscribers are delivery targets like any other: same signed
+// request (x-gateway-signature with the subscriber's secret), retries,
+// dead-letter queue and circuit breaker. Deliveries carry the subscription
+// ID in x-gateway-subscription.
+//
+// Subscriptions are kept in the configured Storage, so with the journal
+// backend they survive restarts. The secret is only returned when the
+// subscription is created. Each subscriber's recent delivery attempts are
+// kept in memory for its delivery-history endpoint.
+// =============================================================================
+
+import { randomBytes } from "node:crypto"
+import type { DeliveryResult, ForwardTarget } from "./forwarder.js"
+import { matchesAnyGlob } from "./glob.js"
+import { isObject, isStringArray } from "./guards.js"
+import { createMemoryStorage, type Storage } from "./storage.js"
+
+/**
+ * Header naming the subscription a delivery is for
+ */
+export const SUBSCRIPTION_HEADER = "x-gateway-subscription"
+
+/**
+ * Delivery attempts kept per subscription, newest first
+ */
+const MAX_DELIVERIES_PER_SUBSCRIPTION = 100
+
+/**
+ * A customer endpoint receiving published events
+ * @property id - Generated ID ("sub_..."), also its delivery target ID
+ * @property url - Endpoint receiving POSTed events
+ * @property events - Event name globs the subscriber wants
+ * @property secret - Generated secret for the outgoing signature
+ * @property description - Free-form note, e.g. the customer's name
+ * @property active - Inactive subscriptions receive no new events
+ * @property createdAt - When the subscription was created (Unix ms)
+ * @property updatedAt - When it was last changed (Unix ms)
+ */
+export interface Subscription {
+  id: string
+  url: string
+  events: string[]
+  secret: string
+  description?: string
+  active: boolean
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * Public view of a subscription, safe to expose through the API
+ */
+export type PublicSubscription = Omit<Subscription, "secret">
+
+/**
+ * Fields a subscriber may set on create or update
+ */
+export type SubscriptionChanges = Partial<
+  Pick<Subscription, "url" | "events" | "description" | "active">
+>
+
+/**
+ * One delivery attempt to a subscriber
+ * @property eventId - Event log ID of the delivered event
+ * @property event - Event name
+ * @property deliveryId - Delivery ID sent as x-webhook-id, if any
+ * @property at - When the attempt finished (Unix ms)
+ */
+export type SubscriptionDelivery = Omit<DeliveryResult, "target"> & {
+  eventId: string
+  event: string
+  deliveryId?: string
+  at: number
+}
+
+/**
+ * Backend holding the subscriptions; in memory until initSubscriptions is
+ * called
+ */
+let storage: Storage = createMemoryStorage({ historyLimit: 0, eventLimit: 0 })
+
+/**
+ * Recent delivery attempts keyed by subscription ID, newest first
+ */
+const deliveries = new Map<string, SubscriptionDelivery[]>()
+
+/**
+ * Selects the storage backend for subscriptions
+ * Call once at startup, before any subscription is read
+ */
+export const initSubscriptions = (backend: Storage): void => {
+  storage = backend
+}
+
+/**
+ * Validates the fields of a create or update request
+ *
+ * @param raw - Untrusted request body
+ * @returns SubscriptionChanges - Only the fields present in the body
+ * @throws Error describing the first invalid field
+ */
+const parseChanges = (raw: unknown): SubscriptionChanges => {
+  const { url, events, description, active } = isObject(raw) ? raw : {}
+  if (
+    url !== undefined &&
+    (typeof url !== "string" || !/^https?:\/\//.test(url))
+  ) {
+    throw new Error(`"url" must be an http(s) URL`)
+  }
+  if (
+    events !== undefined &&
+    (!isStringArray(events) ||
+      events.length === 0 ||
+      !events.every((e) => e.length > 0))
+  ) {
+    throw new Error(`"events" must be a non-empty array of event name globs`)
+  }
+  if (description !== undefined && typeof description !== "string") {
+    throw new Error(`"description" must be a string`)
+  }
+  if (active !== undefined && typeof active !== "boolean") {
+    throw new Error(`"active" must be a boolean`)
+  }
+
+  return {
+    ...(url !== undefined && { url }),
+    ...(events !== undefined && { events: [...events] }),
+    ...(description !== undefined && { description }),
+    ...(active !== undefined && { active }),
+  }
+}
+
+/**
+ * Strips the secret from a subscription for API responses
+ */
+export const toPublicSubscription = ({
+  secret: _secret,
+  ...rest
+}: Subscription): PublicSubscription => rest
+
+/**
+ * Registers a subscriber with a generated ID and signing secret
+ *
+ * @param raw - Untrusted body with url, events and optional description
+ * @returns Subscription - Including the secret, which is not shown again
+ * @throws Error if a field is missing or invalid
+ *
+ * @example
+ * createSubscription({ url: "https://customer.example/hooks", events: ["order.*"] })
+ * // { id: "sub_3f9c...", secret: "whsec_...", active: true, ... }
+ */
+export const createSubscription = (raw: unknown): Subscription => {
+  const changes = parseChanges(raw)
+  if (!changes.url || !changes.events) {
+    throw new Error(`"url" and "events" are required`)
+  }
+
+  const now = Date.now()
+  const subscription: Subscription = {
+    id: `sub_${randomBytes(8).toString("hex")}`,
+    url: changes.url,
+    events: changes.events,
+    secret: `whsec_${randomBytes(24).toString("base64url")}`,
+    active: changes.active ?? true,
+    createdAt: now,
+    updatedAt: now,
+    ...(changes.description !== undefined && {
+      description: changes.description,
+    }),
+  }
+  storage.putSubscription(subscription)
+  return subscription
+}
+
+/**
+ * Looks up a subscription by ID
+ */
+export const getSubscription = (id: string): Subscription | undefined =>
+  storage.subscriptions().find((subscription) => subscription.id === id)
+
+/**
+ * Lists all subscriptions without their secrets, oldest first
+ */
+export const listSubscriptions = (): PublicSubscription[] =>
+  storage.subscriptions().map(toPublicSubscription)
+
+/**
+ * Changes a subscription's URL, events, description or active flag
+ *
+ * @returns Subscription - The updated subscription, or undefined if the ID
+ *   is unknown
+ * @throws Error if a field is invalid
+ */
+export const updateSubscription = (
+  id: string,
+  raw: unknown
+): Subscription | undefined => {
+  const existing = getSubscription(id)
+  if (!existing) return undefined
+
+  const updated = { ...existing, ...parseChanges(raw), updatedAt: Date.now() }
+  storage.putSubscription(updated)
+  return updated
+}
+
+/**
+ * Removes a subscription and its delivery history
+ * Deliveries already queued for it are dropped on their next attempt.
+ *
+ * @returns boolean - False if the ID is unknown
+ */
+export const deleteSubscription = (id: string): boolean => {
+  if (!getSubscription(id)) return false
+  storage.removeSubscription(id)
+  deliveries.delete(id)
+  return true
+}
+
+/**
+ * IDs of the active subscriptions that want an event
+ */
+export const subscriptionsFor = (event: string): string[] =>
+  storage
+    .subscriptions()
+    .filter(
+      (subscription) =>
+        subscription.active && matchesAnyGlob(subscription.events, event)
+    )
+    .map((subscription) => subscription.id)
+
+/**
+ * Delivery target for a subscription
+ *
+ * @param id - Subscription ID
+ * @param timeoutMs - Request timeout
+ * @returns ForwardTarget or undefined if the ID is unknown
+ */
+export const subscriptionTarget = (
+  id: string,
+  timeoutMs: number
+): ForwardTarget | undefined => {
+  const subscription = getSubscription(id)
+  return (
+    subscription && {
+      id: subscription.id,
+      url: subscription.url,
+      headers: { [SUBSCRIPTION_HEADER]: subscription.id },
+      timeoutMs,
+      secret: subscription.secret,
+    }
+  )
+}
+
+/**
+ * Records a delivery attempt in a subscriber's history
+ * The oldest attempt is dropped beyond MAX_DELIVERIES_PER_SUBSCRIPTION.
+ */
+export const recordSubscriptionDelivery = (
+  id: string,
+  delivery: SubscriptionDelivery
+): void => {
+  const history = deliveries.get(id) ?? []
+  history.unshift(delivery)
+  if (history.length > MAX_DELIVERIES_PER_SUBSCRIPTION) {
+    history.length = MAX_DELIVERIES_PER_SUBSCRIPTION
+  }
+  deliveries.set(id, history)
+}
+
+/**
+ * A subscriber's recent delivery attempts, newest first
+ */
+export const subscriptionDeliveries = (id: string): SubscriptionDelivery[] =>
+  deliveries.get(id) ?? []
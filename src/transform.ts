@@ -0,0 +1,458 @@
+// =============================================================================
+// PAYLOAD TRANSFORMS
+// =============================================================================
+// Declarative steps that reshape a payload before it is forwarded. A route's
+// "transform" is a list of steps applied in order to a copy of the
+// WebhookPayload ({ event, data, source }); the result is the request body:
+//
+//   "transform": [
+//     { "rename": { "data.userId": "data.user_id" } },
+//     { "drop": ["data.internalNotes"] },
+//     { "set": { "data.name": "{{data.first}} {{data.last}}" } },
+//     { "extract": { "data.skus": "$.data.items[*].sku" } },
+//     { "envelope": "cloudevents" }
+//   ]
+//
+// Steps:
+//   - rename: moves values from one dotted path to another
+//   - drop: removes dotted paths
+//   - set: writes values; strings may contain {{path}} placeholders, where
+//     path is a dotted path, a JSONPath ($...) or meta.eventId,
+//     meta.deliveryId, meta.receivedAt, meta.now. A string that is a single
+//     placeholder keeps the value's type.
+//   - extract: writes the result of a JSONPath query. Queries with * or ..
+//     yield an array of every match.
+//   - envelope: wraps `data` in a CloudEvents 1.0 structure with id (the
+//     delivery ID, else the event ID), source, type and time
+//
+// Dotted paths address object keys and array indexes ("data.items.0.sku").
+// Missing paths are skipped rather than failing the delivery.
+// Keys __proto__, constructor and prototype are refused, and only own
+// properties are followed, so a transform cannot reach Object.prototype.
+// =============================================================================
+
+import { isObject, isStringArray, isStringMap } from "./guards.js"
+import type { WebhookPayload } from "./types.js"
+
+/**
+ * One transform step
+ */
+export type TransformStep =
+  | { rename: Record<string, string> }
+  | { drop: string[] }
+  | { set: Record<string, unknown> }
+  | { extract: Record<string, string> }
+  | { envelope: "cloudevents" }
+
+/**
+ * Facts about the webhook available to templates and the envelope
+ * @property eventId - Event log ID
+ * @property deliveryId - Sender's delivery ID, if one was provided
+ * @property receivedAt - When the webhook arrived (Unix ms)
+ */
+export interface TransformMeta {
+  eventId: string
+  deliveryId?: string | undefined
+  receivedAt: number
+}
+
+/**
+ * One step of a compiled JSONPath query
+ * - child: a key or array index
+ * - wildcard: every child
+ * - descend: a key (or every value, for "*") at any depth
+ */
+type PathSegment =
+  | { kind: "child"; key: string | number }
+  | { kind: "wildcard" }
+  | { kind: "descend"; key: string }
+
+/**
+ * Compiled JSONPath queries
+ */
+const compiledPaths = new Map<string, PathSegment[]>()
+
+/**
+ * Placeholder syntax in `set` values
+ */
+const PLACEHOLDER = /\{\{\s*([^}]+?)\s*\}\}/g
+
+/**
+ * Compiles the supported JSONPath subset:
+ * $, .name, ['name'], [0], [-1], .*, [*], ..name, ..*
+ *
+ * @throws Error if the query uses unsupported syntax
+ */
+const compileJsonPath = (query: string): PathSegment[] => {
+  const cached = compiledPaths.get(query)
+  if (cached) return cached
+
+  if (!query.startsWith("$")) {
+    throw new Error(`JSONPath "${query}" must start with "$"`)
+  }
+
+  const segments: PathSegment[] = []
+  const token =
+    /^(?:\.\.([\w$-]+|\*)|\.([\w$-]+|\*)|\[\s*(\*|-?\d+|'[^']*'|"[^"]*")\s*\])/
+  let rest = query.slice(1)
+
+  while (rest.length > 0) {
+    const match = token.exec(rest)
+    if (!match) {
+      throw new Error(`JSONPath "${query}": unsupported syntax at "${rest}"`)
+    }
+    const [all, descend, dotted, bracket] = match
+    if (descend !== undefined) {
+      segments.push({ kind: "descend", key: descend })
+    } else {
+      const key = (dotted ?? bracket)!
+      if (key === "*") {
+        segments.push({ kind: "wildcard" })
+      } else if (/^-?\d+$/.test(key)) {
+        segments.push({ kind: "child", key: Number(key) })
+      } else {
+        segments.push({ kind: "child", key: key.replace(/^['"]|['"]$/g, "") })
+      }
+    }
+    rest = rest.slice(all.length)
+  }
+
+  compiledPaths.set(query, segments)
+  return segments
+}
+
+/**
+ * Every value below a node, depth first (the node itself included)
+ */
+const descendants = (node: unknown): unknown[] =>
+  typeof node === "object" && node !== null
+    ? [node, ...Object.values(node).flatMap(descendants)]
+    : [node]
+
+/**
+ * Values directly inside a node
+ */
+const children = (node: unknown): unknown[] =>
+  typeof node === "object" && node !== null ? Object.values(node) : []
+
+/**
+ * Reads one key or index (negative indexes count from the end)
+ */
+const childOf = (node: unknown, key: string | number): unknown => {
+  if (Array.isArray(node) && typeof key === "number") {
+    return node.at(key)
+  }
+  if (typeof node === "object" && node !== null && Object.hasOwn(node, key)) {
+    return (node as Record<string, unknown>)[key]
+  }
+  return undefined
+}
+
+/**
+ * Runs a JSONPath query
+ *
+ * @param query - JSONPath such as "$.data.items[*].sku"
+ * @param document - Value to query
+ * @returns The single match (undefined if none), or an array of every match
+ *   for queries containing * or ..
+ *
+ * @example
+ * queryJsonPath("$.data.items[*].sku", { data: { items: [{ sku: "A" }] } })
+ * // ["A"]
+ */
+export const queryJsonPath = (query: string, document: unknown): unknown => {
+  const segments = compileJsonPath(query)
+  let nodes: unknown[] = [document]
+
+  for (const segment of segments) {
+    nodes = nodes.flatMap((node): unknown[] => {
+      switch (segment.kind) {
+        case "child":
+          return [childOf(node, segment.key)]
+        case "wildcard":
+          return children(node)
+        case "descend":
+          return descendants(node).flatMap((inner) =>
+            segment.key === "*" ? children(inner) : [childOf(inner, segment.key)]
+          )
+      }
+    })
+    nodes = nodes.filter((node) => node !== undefined)
+  }
+
+  const multiple = segments.some((segment) => segment.kind !== "child")
+  return multiple ? nodes : nodes[0]
+}
+
+/**
+ * Splits a dotted path into keys; numeric parts index arrays
+ */
+const splitPath = (path: string): string[] => path.split(".")
+
+/**
+ * Keys that would reach an object's prototype rather than its own data
+ */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"])
+
+/**
+ * Checks that no key of a dotted path is in UNSAFE_KEYS
+ */
+const isSafePath = (path: string): boolean =>
+  splitPath(path).every((key) => !UNSAFE_KEYS.has(key))
+
+/**
+ * Reads a dotted path
+ *
+ * @example
+ * getPath({ data: { items: [{ sku: "A" }] } }, "data.items.0.sku") // "A"
+ */
+export const getPath = (document: unknown, path: string): unknown =>
+  splitPath(path).reduce<unknown>(
+    (node, key) => childOf(node, /^\d+$/.test(key) ? Number(key) : key),
+    document
+  )
+
+/**
+ * Writes a dotted path, creating intermediate objects as needed
+ * Only own properties are followed, so a write never lands on a prototype.
+ * @throws Error if the path has a key in UNSAFE_KEYS
+ */
+const setPath = (document: unknown, path: string, value: unknown): void => {
+  if (!isSafePath(path)) throw new Error(`Unsafe path "${path}"`)
+  const keys = splitPath(path)
+  const last = keys.pop()!
+  let node = document as Record<string, unknown>
+
+  for (const key of keys) {
+    const next = Object.hasOwn(node, key) ? node[key] : undefined
+    if (typeof next !== "object" || next === null) node[key] = {}
+    node = node[key] as Record<string, unknown>
+  }
+  node[last] = value
+}
+
+/**
+ * Removes a dotted path
+ * @returns boolean - True if something was removed
+ */
+const deletePath = (document: unknown, path: string): boolean => {
+  const keys = splitPath(path)
+  const last = keys.pop()!
+  const parent = keys.length > 0 ? getPath(document, keys.join(".")) : document
+
+  if (Array.isArray(parent) && /^\d+$/.test(last)) {
+    if (Number(last) >= parent.length) return false
+    parent.splice(Number(last), 1)
+    return true
+  }
+  if (
+    typeof parent !== "object" ||
+    parent === null ||
+    !Object.hasOwn(parent, last)
+  ) {
+    return false
+  }
+  delete (parent as Record<string, unknown>)[last]
+  return true
+}
+
+/**
+ * Resolves one placeholder expression
+ */
+const resolveExpression = (
+  expression: string,
+  document: unknown,
+  meta: TransformMeta
+): unknown => {
+  if (expression.startsWith("$")) return queryJsonPath(expression, document)
+  if (expression === "meta.now") return new Date().toISOString()
+  if (expression === "meta.receivedAt") {
+    return new Date(meta.receivedAt).toISOString()
+  }
+  if (expression.startsWith("meta.")) {
+    return meta[expression.slice(5) as keyof TransformMeta]
+  }
+  return getPath(document, expression)
+}
+
+/**
+ * Expands the placeholders in a `set` value
+ * A string that is exactly one placeholder keeps the value's type; otherwise
+ * values are interpolated as text (missing values become "")
+ */
+const renderTemplate = (
+  value: unknown,
+  document: unknown,
+  meta: TransformMeta
+): unknown => {
+  if (typeof value !== "string") return value
+
+  const whole = /^\{\{\s*([^}]+?)\s*\}\}$/.exec(value)
+  if (whole) return resolveExpression(whole[1]!, document, meta)
+
+  return value.replace(PLACEHOLDER, (_, expression: string) => {
+    const resolved = resolveExpression(expression, document, meta)
+    if (resolved === undefined || resolved === null) return ""
+    return typeof resolved === "object"
+      ? JSON.stringify(resolved)
+      : String(resolved)
+  })
+}
+
+/**
+ * Rejects paths that would reach an object's prototype
+ * @throws Error naming the step and the path
+ */
+const checkPaths = (paths: string[], at: string): void => {
+  const unsafe = paths.find((path) => !isSafePath(path))
+  if (unsafe !== undefined) {
+    throw new Error(
+      `${at}: "${unsafe}" uses a reserved key (${[...UNSAFE_KEYS].join(", ")})`
+    )
+  }
+}
+
+/**
+ * Compiles JSONPath queries at load time so mistakes surface early
+ * @throws Error naming the step
+ */
+const checkQueries = (queries: string[], at: string): void => {
+  try {
+    queries.forEach(compileJsonPath)
+  } catch (err) {
+    throw new Error(`${at}: ${(err as Error).message}`)
+  }
+}
+
+/**
+ * Validates a raw transform definition (from the routes file or the
+ * dry-run endpoint)
+ *
+ * @param raw - Untrusted step list
+ * @param where - Location prefix for error messages
+ * @returns TransformStep[]
+ * @throws Error describing the first invalid step
+ */
+export const parseTransform = (
+  raw: unknown,
+  where: string
+): TransformStep[] => {
+  if (!Array.isArray(raw)) {
+    throw new Error(`${where}: must be an array of steps`)
+  }
+
+  return raw.map((step: unknown, index): TransformStep => {
+    const at = `${where}[${index}]`
+    if (!isObject(step) || Object.keys(step).length !== 1) {
+      throw new Error(
+        `${at}: a step needs exactly one of rename, drop, set, extract, envelope`
+      )
+    }
+
+    const [name] = Object.keys(step)
+    switch (name) {
+      case "rename":
+        if (!isStringMap(step.rename)) {
+          throw new Error(`${at}.rename: must map paths to paths`)
+        }
+        checkPaths(Object.entries(step.rename).flat(), `${at}.rename`)
+        return { rename: step.rename }
+      case "drop":
+        if (!isStringArray(step.drop)) {
+          throw new Error(`${at}.drop: must be an array of paths`)
+        }
+        checkPaths(step.drop, `${at}.drop`)
+        return { drop: step.drop }
+      case "set":
+        if (!isObject(step.set)) {
+          throw new Error(`${at}.set: must map paths to values`)
+        }
+        checkPaths(Object.keys(step.set), `${at}.set`)
+        checkQueries(
+          Object.values(step.set)
+            .filter((value): value is string => typeof value === "string")
+            .flatMap((value) => [...value.matchAll(PLACEHOLDER)])
+            .map((match) => match[1]!)
+            .filter((expression) => expression.startsWith("$")),
+          `${at}.set`
+        )
+        return { set: step.set }
+      case "extract":
+        if (!isStringMap(step.extract)) {
+          throw new Error(`${at}.extract: must map paths to JSONPath queries`)
+        }
+        checkPaths(Object.keys(step.extract), `${at}.extract`)
+        checkQueries(Object.values(step.extract), `${at}.extract`)
+        return { extract: step.extract }
+      case "envelope":
+        if (step.envelope !== "cloudevents") {
+          throw new Error(`${at}.envelope: only "cloudevents" is supported`)
+        }
+        return { envelope: "cloudevents" }
+      default:
+        throw new Error(`${at}: unknown step "${name}"`)
+    }
+  })
+}
+
+/**
+ * Applies transform steps to a payload
+ * The payload itself is not modified.
+ *
+ * @param steps - Validated steps (see parseTransform)
+ * @param payload - Event to transform
+ * @param meta - Event ID, delivery ID and receive time
+ * @returns The request body to forward
+ *
+ * @example
+ * applyTransform(
+ *   [{ rename: { "data.userId": "data.id" } }, { envelope: "cloudevents" }],
+ *   { event: "user.created", data: { userId: 1 }, source: "shop" },
+ *   { eventId: "e1", receivedAt: Date.now() }
+ * )
+ * // { specversion: "1.0", id: "e1", source: "shop", type: "user.created",
+ * //   time: "...", datacontenttype: "application/json", data: { id: 1 } }
+ */
+export const applyTransform = (
+  steps: TransformStep[],
+  payload: WebhookPayload,
+  meta: TransformMeta
+): unknown => {
+  let document: unknown = structuredClone(payload)
+
+  for (const step of steps) {
+    if ("rename" in step) {
+      for (const [from, to] of Object.entries(step.rename)) {
+        const value = getPath(document, from)
+        if (value === undefined) continue
+        deletePath(document, from)
+        setPath(document, to, value)
+      }
+    } else if ("drop" in step) {
+      step.drop.forEach((path) => deletePath(document, path))
+    } else if ("set" in step) {
+      // Templates see the document as it was before this step
+      const before = structuredClone(document)
+      for (const [path, value] of Object.entries(step.set)) {
+        setPath(document, path, renderTemplate(value, before, meta))
+      }
+    } else if ("extract" in step) {
+      const before = structuredClone(document)
+      for (const [path, query] of Object.entries(step.extract)) {
+        setPath(document, path, queryJsonPath(query, before))
+      }
+    } else {
+      document = {
+        specversion: "1.0",
+        id: meta.deliveryId ?? meta.eventId,
+        source: payload.source,
+        type: payload.event,
+        time: new Date(meta.receivedAt).toISOString(),
+        datacontenttype: "application/json",
+        data: getPath(document, "data"),
+      }
+    }
+  }
+
+  return document
+}
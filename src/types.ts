@@ -0,0 +1,90 @@
+// =============================================================================
+// SHARED TYPE DEFINITIONS
+// =============================================================================
+// Payload, queue and history shapes used by the server and the src/ modules
+// =============================================================================
+
+/**
+ * Webhook payload structure
+ * @property event - Event type identifier (e.g., "user.created", "order.completed")
+ * @property data - Arbitrary event data payload
+ * @property source - ID of the source the webhook was received from
+ */
+export interface WebhookPayload {
+  event: string
+  data: any
+  source: string
+}
+
+/**
+ * Record of one delivery attempt
+ * @property at - When the attempt finished (Unix ms)
+ * @property ok - True if every pending target returned 2xx
+ * @property error - Failure summary (failed attempts only)
+ */
+export interface DeliveryAttempt {
+  at: number
+  ok: boolean
+  error?: string
+}
+
+/**
+ * Queue item wrapper for webhook processing
+ * @property id - Unique queue item ID (storage key)
+ * @property eventId - ID of the event log record this item delivers
+ * @property payload - The original webhook payload
+ * @property retries - Number of processing attempts made
+ * @property addedAt - Timestamp when item was added to queue (Unix ms)
+ * @property headers - Request headers as received (kept for dead-lettering)
+ * @property attempts - Every delivery attempt made so far
+ * @property nextAttemptAt - Earliest time of the next attempt (Unix ms);
+ *   pushed back with exponential backoff after each failure
+ * @property deliveryId - Sender's delivery ID, if one was provided
+ * @property pendingTargets - Forwarding targets not yet delivered to;
+ *   chosen by the routing rules on arrival, so retries skip targets that
+ *   succeeded (resolved on the first attempt if absent)
+ * @property lastError - Error from the most recent failed attempt
+ * @property claimedAt - When the worker claimed the item for an attempt
+ *   (Unix ms); set only while the attempt is in flight
+ * @property paused - Waiting for an open circuit breaker; the wait does not
+ *   count as a retry
+ * @property orderingKey - Partition of items delivered strictly in queue
+ *   order (from the route's orderingKey; undefined = unordered)
+ * @property replayOf - Event ID of the original, if this item replays an
+ *   earlier webhook (sent as x-gateway-replay-of)
+ */
+export interface WebhookQueueItem {
+  id: string
+  eventId: string
+  payload: WebhookPayload
+  retries: number
+  addedAt: number
+  headers: Record<string, string>
+  attempts: DeliveryAttempt[]
+  nextAttemptAt: number
+  deliveryId?: string
+  pendingTargets?: string[]
+  lastError?: string
+  claimedAt?: number
+  paused?: boolean
+  orderingKey?: string
+  replayOf?: string
+}
+
+/**
+ * Processed event record for history tracking
+ * @property event - Event type that was processed
+ * @property source - ID of the source the webhook was received from
+ * @property status - Processing result ('success' | 'failed' | 'duplicate')
+ * @property timestamp - When the event was processed (Unix ms)
+ * @property deliveryId - Sender's delivery ID, if one was provided
+ * @property error - Last delivery error (failed events only)
+ */
+export interface ProcessedEvent {
+  event: string
+  source: string
+  status: "success" | "failed" | "duplicate"
+  timestamp: number
+  deliveryId?: string
+  error?: string
+}
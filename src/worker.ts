@@ -0,0 +1,139 @@
+// =============================================================================
+// BACKGROUND WORKER
+// =============================================================================
+// Owns the delivery loop: repeatedly claims due queue items and runs them
+// with bounded concurrency. Retries are scheduled by the caller through
+// `nextAttemptAt` (see computeBackoff); the worker simply wakes up on a poll
+// interval, after each completion, or when `wake()` is called on enqueue.
+// =============================================================================
+
+/**
+ * Worker settings and hooks
+ * @property concurrency - Maximum items processed at the same time
+ * @property pollIntervalMs - Idle wake-up interval to pick up due retries
+ * @property claim - Returns the next due item and marks it in-flight,
+ *   or undefined if nothing is due
+ * @property run - Processes one claimed item; must handle its own failures
+ */
+export interface WorkerOptions<T> {
+  concurrency: number
+  pollIntervalMs: number
+  claim: () => T | undefined
+  run: (item: T) => Promise<void>
+}
+
+/**
+ * Handle returned by createWorker
+ * @property start - Begin polling
+ * @property wake - Check for work now (e.g. right after enqueue)
+ * @property stop - Stop claiming new work and wait for in-flight items,
+ *   up to `timeoutMs`; resolves to the number still running at the deadline
+ * @property inFlight - Number of items currently being processed
+ */
+export interface Worker {
+  start: () => void
+  wake: () => void
+  stop: (timeoutMs: number) => Promise<number>
+  inFlight: () => number
+}
+
+/**
+ * Delay before the next attempt, using exponential backoff with jitter
+ *
+ * The un-jittered delay doubles per attempt (base, 2×base, 4×base, …) and
+ * is capped at maxDelayMs. "Equal jitter" then picks a random point in the
+ * upper half of that delay, so retries from many items spread out while
+ * still growing with each attempt.
+ *
+ * @param attempt - Number of attempts already made (1 after the first failure)
+ * @param baseDelayMs - Delay after the first failure, before jitter
+ * @param maxDelayMs - Upper bound on any delay
+ * @returns number - Delay in milliseconds
+ *
+ * @example
+ * computeBackoff(1, 1000, 60000) // 500..1000
+ * computeBackoff(4, 1000, 60000) // 4000..8000
+ * computeBackoff(20, 1000, 60000) // 30000..60000
+ */
+export const computeBackoff = (
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number
+): number => {
+  const exponential = Math.min(
+    maxDelayMs,
+    baseDelayMs * 2 ** Math.max(0, attempt - 1)
+  )
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2))
+}
+
+/**
+ * Creates a background worker
+ *
+ * @param options - Concurrency, polling and item hooks
+ * @returns Worker
+ *
+ * @example
+ * const worker = createWorker({ concurrency: 4, pollIntervalMs: 500, claim, run })
+ * worker.start()
+ * // on enqueue
+ * worker.wake()
+ * // on shutdown
+ * await worker.stop(10_000)
+ */
+export const createWorker = <T>(options: WorkerOptions<T>): Worker => {
+  const running = new Set<Promise<void>>()
+  let timer: NodeJS.Timeout | undefined
+  let stopping = false
+
+  /**
+   * Fills free concurrency slots with due items, then re-arms the poll timer
+   */
+  const tick = (): void => {
+    clearTimeout(timer)
+    if (stopping) return
+
+    while (running.size < options.concurrency) {
+      const item = options.claim()
+      if (item === undefined) break
+
+      const task: Promise<void> = options
+        .run(item)
+        .catch((err) => console.error("[WORKER] Unhandled error:", err))
+        .finally(() => {
+          running.delete(task)
+          // A finished item frees a slot; look for more work right away
+          if (!stopping) setImmediate(tick)
+        })
+      running.add(task)
+    }
+
+    timer = setTimeout(tick, options.pollIntervalMs)
+  }
+
+  return {
+    start: () => {
+      stopping = false
+      tick()
+    },
+    wake: () => {
+      if (!stopping) setImmediate(tick)
+    },
+    stop: async (timeoutMs) => {
+      stopping = true
+      clearTimeout(timer)
+
+      // Drain in-flight work, but never hang shutdown forever
+      let deadline: NodeJS.Timeout | undefined
+      await Promise.race([
+        Promise.allSettled([...running]),
+        new Promise((resolve) => {
+          deadline = setTimeout(resolve, timeoutMs)
+        }),
+      ])
+      clearTimeout(deadline)
+      return running.size
+    },
+    inFlight: () => running.size,
+  }
+}
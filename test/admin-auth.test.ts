@@ -0,0 +1,104 @@
+// =============================================================================
+// ADMIN AUTHENTICATION TESTS
+// =============================================================================
+// Loading the keys file, key lookup, role levels and dashboard sessions
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { createHash } from "node:crypto"
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { after, describe, it } from "node:test"
+import {
+  createSession,
+  endSession,
+  getSession,
+  hasAdminKeys,
+  hasRole,
+  loadAdminKeys,
+  verifyApiKey,
+  type Principal,
+} from "../src/admin-auth.js"
+
+const dir = mkdtempSync(join(tmpdir(), "admin-auth-test-"))
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+let files = 0
+const keysFile = (keys: unknown[]) => {
+  const path = join(dir, `admin-keys-${++files}.json`)
+  writeFileSync(path, JSON.stringify({ keys }))
+  return path
+}
+
+const VIEWER_KEY = "viewer-key-0123456789"
+const OPERATOR_KEY = "operator-key-0123456789"
+
+describe("loadAdminKeys", () => {
+  it("registers inline keys, hashed keys and the environment key", () => {
+    const hash = createHash("sha256").update(OPERATOR_KEY).digest("hex")
+    const path = keysFile([
+      { id: "ci", role: "viewer", key: VIEWER_KEY },
+      { id: "ops", role: "operator", keyHash: `sha256:${hash}` },
+    ])
+    assert.equal(loadAdminKeys(path, "env-admin-key-0123456789"), 3)
+    assert.equal(hasAdminKeys(), true)
+
+    assert.deepEqual(verifyApiKey(VIEWER_KEY), {
+      id: "ci",
+      role: "viewer",
+      via: "api-key",
+    })
+    assert.equal(verifyApiKey(OPERATOR_KEY)?.role, "operator")
+    assert.equal(verifyApiKey("env-admin-key-0123456789")?.role, "admin")
+    assert.equal(verifyApiKey("not-a-key-at-all-0000"), undefined)
+  })
+
+  it("treats a missing file as no keys", () => {
+    assert.equal(loadAdminKeys(join(dir, "missing.json")), 0)
+    assert.equal(hasAdminKeys(), false)
+  })
+
+  it("names the first invalid entry", () => {
+    const load = (entry: unknown) => () => loadAdminKeys(keysFile([entry]))
+    assert.throws(
+      load({ id: "a", role: "root", key: VIEWER_KEY }),
+      /keys\[0\] \(a\): "role" must be one of viewer, operator, admin/
+    )
+    assert.throws(
+      load({ id: "a", role: "viewer", key: "short" }),
+      /at least 16 characters/
+    )
+    assert.throws(
+      load({ id: "a", role: "viewer", keyHash: "abc" }),
+      /SHA-256 hex digest/
+    )
+    assert.throws(load("a"), /"id" must be/)
+    assert.throws(() => loadAdminKeys(join(dir, "x"), "short"), /ADMIN_API_KEY/)
+  })
+})
+
+describe("hasRole", () => {
+  it("lets each role include the ones below it", () => {
+    assert.equal(hasRole("admin", "operator"), true)
+    assert.equal(hasRole("operator", "operator"), true)
+    assert.equal(hasRole("operator", "admin"), false)
+    assert.equal(hasRole("viewer", "operator"), false)
+  })
+})
+
+describe("sessions", () => {
+  const principal: Principal = { id: "ci", role: "viewer", via: "api-key" }
+
+  it("resolve until ended", () => {
+    const id = createSession(principal, 60_000)
+    assert.deepEqual(getSession(id), { ...principal, via: "session" })
+    endSession(id)
+    assert.equal(getSession(id), undefined)
+  })
+
+  it("expire after their lifetime", () => {
+    const id = createSession(principal, 0)
+    assert.equal(getSession(id), undefined)
+  })
+})
@@ -0,0 +1,123 @@
+// =============================================================================
+// EVENT ARCHIVE TESTS
+// =============================================================================
+// File naming, rotation, retention and compression of the archive
+// =============================================================================
+
+import assert from "node:assert/strict"
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { after, describe, it } from "node:test"
+import { setTimeout as sleep } from "node:timers/promises"
+import { gunzipSync } from "node:zlib"
+import { createArchiver, type ArchiveOptions } from "../src/archive.js"
+import type { EventRecord } from "../src/event-log.js"
+
+const root = mkdtempSync(join(tmpdir(), "archive-test-"))
+after(() => rmSync(root, { recursive: true, force: true }))
+
+let dirs = 0
+const options = (fields: Partial<ArchiveOptions> = {}): ArchiveOptions => ({
+  dir: join(root, `archive-${++dirs}`),
+  maxFileBytes: 0,
+  gzip: false,
+  retentionDays: 0,
+  ...fields,
+})
+
+const record = (id: string): EventRecord => ({
+  id,
+  seq: 1,
+  payload: { event: "order.created", data: { id }, source: "shop" },
+  headers: {},
+  status: "queued",
+  attempts: [],
+  receivedAt: 0,
+  updatedAt: 0,
+})
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+const lines = (path: string) =>
+  readFileSync(path, "utf8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line))
+
+describe("createArchiver", () => {
+  it("appends timestamped snapshots to today's file", () => {
+    const settings = options()
+    const archiver = createArchiver(settings)
+    archiver.write(record("a"))
+    archiver.write({ ...record("a"), status: "delivered" })
+    archiver.close()
+
+    const [first, second] = lines(
+      join(settings.dir, `events-${today()}.ndjson`)
+    )
+    assert.equal(first.status, "queued")
+    assert.equal(second.status, "delivered")
+    assert.equal(typeof second.archivedAt, "number")
+  })
+
+  it("starts a new file at the size limit and on every start", () => {
+    const settings = options({ maxFileBytes: 100 })
+    const archiver = createArchiver(settings)
+    archiver.write(record("a"))
+    archiver.write(record("b"))
+    archiver.close()
+    createArchiver(settings).write(record("c"))
+
+    assert.deepEqual(readdirSync(settings.dir).sort(), [
+      `events-${today()}.1.ndjson`,
+      `events-${today()}.2.ndjson`,
+      `events-${today()}.ndjson`,
+    ])
+    const [c] = lines(join(settings.dir, `events-${today()}.2.ndjson`))
+    assert.equal(c.id, "c")
+  })
+
+  it("deletes archive files past the retention period", () => {
+    const settings = options({ retentionDays: 30 })
+    createArchiver(settings).close()
+    const old = join(settings.dir, "events-2020-01-01.ndjson")
+    const other = join(settings.dir, "notes.txt")
+    for (const path of [old, other]) {
+      writeFileSync(path, "{}\n")
+      utimesSync(path, new Date("2020-01-02"), new Date("2020-01-02"))
+    }
+
+    createArchiver(settings).write(record("a"))
+    assert.equal(existsSync(old), false)
+    assert.equal(existsSync(other), true)
+  })
+
+  it("compresses finished files", async () => {
+    const settings = options({ gzip: true })
+    createArchiver(settings).close()
+    const finished = join(settings.dir, "events-2020-01-01.ndjson")
+    writeFileSync(finished, '{"id":"old"}\n')
+
+    const archiver = createArchiver(settings)
+    archiver.write(record("a"))
+    for (let i = 0; i < 50 && existsSync(finished); i++) await sleep(20)
+    archiver.close()
+
+    assert.equal(existsSync(finished), false)
+    assert.equal(
+      gunzipSync(readFileSync(`${finished}.gz`)).toString(),
+      '{"id":"old"}\n'
+    )
+    const current = join(settings.dir, `events-${today()}.ndjson`)
+    assert.equal(existsSync(current), true)
+  })
+})
@@ -0,0 +1,83 @@
+// =============================================================================
+// BATCH INGESTION TESTS
+// =============================================================================
+// Reading batch bodies and classifying each item's answer
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { outcomeOf, parseBatch, parseNdjson } from "../src/batch.js"
+
+describe("parseNdjson", () => {
+  it("numbers non-blank lines and reports malformed ones", () => {
+    const lines = parseNdjson('{"a":1}\n\n  \nnot json\n{"b":2}\n')
+    assert.equal(lines.length, 3)
+    assert.deepEqual(lines[0], { index: 0, value: { a: 1 } })
+    const malformed = lines[1]
+    assert.ok(malformed && "error" in malformed)
+    assert.equal(malformed.index, 1)
+    assert.match(malformed.error, /Malformed JSON/)
+    assert.deepEqual(lines[2], { index: 2, value: { b: 2 } })
+  })
+})
+
+describe("parseBatch", () => {
+  it("reads a JSON array and NDJSON alike", () => {
+    const items = [
+      { event: "order.created", data: { id: 1 }, id: "evt_1" },
+      { event: "order.paid", data: null, id: 2 },
+    ]
+    const expected = [
+      { index: 0, item: { ...items[0], id: "evt_1" } },
+      { index: 1, item: { ...items[1], id: "2" } },
+    ]
+    assert.deepEqual(parseBatch(items), expected)
+    assert.deepEqual(
+      parseBatch(items.map((item) => JSON.stringify(item)).join("\n")),
+      expected
+    )
+  })
+
+  it("reports invalid items without affecting the others", () => {
+    const entries = parseBatch([
+      { event: "" },
+      "text",
+      { event: "a", id: { nested: true } },
+      { event: "b" },
+    ])
+    assert.deepEqual(entries, [
+      { index: 0, error: '"event" must be a non-empty string' },
+      { index: 1, error: "Item must be an object" },
+      {
+        index: 2,
+        error:
+          '"id" must be a number or a string of printable ASCII without spaces',
+      },
+      { index: 3, item: { event: "b", data: undefined } },
+    ])
+  })
+
+  it("refuses IDs that cannot be sent as a header", () => {
+    for (const id of ["café", "a b", "a\nb", ""]) {
+      const [entry] = parseBatch([{ event: "a", id }]) ?? []
+      assert.ok(entry && "error" in entry, JSON.stringify(id))
+    }
+  })
+
+  it("returns undefined for other bodies", () => {
+    assert.equal(parseBatch({ event: "a" }), undefined)
+    assert.equal(parseBatch(undefined), undefined)
+  })
+})
+
+describe("outcomeOf", () => {
+  it("classifies single-webhook answers", () => {
+    assert.equal(outcomeOf(202, { ok: true }), "accepted")
+    assert.equal(outcomeOf(200, { ok: true, duplicate: true }), "duplicate")
+    assert.equal(outcomeOf(409, { duplicate: true }), "duplicate")
+    assert.equal(outcomeOf(429, { error: "Rate limit" }), "refused")
+    assert.equal(outcomeOf(503, { error: "Queue is full" }), "refused")
+    assert.equal(outcomeOf(422, { error: "Schema" }), "invalid")
+    assert.equal(outcomeOf(403, { error: "Not allowed" }), "invalid")
+  })
+})
@@ -0,0 +1,123 @@
+// =============================================================================
+// CIRCUIT BREAKER TESTS
+// =============================================================================
+// State changes per target, trial deliveries and manual control
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import {
+  createCircuitBreakers,
+  type BreakerSettings,
+} from "../src/circuit-breaker.js"
+
+/**
+ * Creates breakers with adjustable settings that record every change
+ */
+const setup = (failureThreshold = 2, cooldownMs = 60_000) => {
+  const settings: BreakerSettings = { failureThreshold, cooldownMs }
+  const changes: string[] = []
+  const breakers = createCircuitBreakers(
+    () => settings,
+    (target, from, to) => changes.push(`${target}: ${from} -> ${to}`)
+  )
+  return { breakers, settings, changes }
+}
+
+describe("createCircuitBreakers", () => {
+  it("opens after consecutive failures, per target", () => {
+    const { breakers, changes } = setup()
+    breakers.failure("a", "timeout")
+    breakers.success("a")
+    breakers.failure("a", "timeout")
+    assert.equal(breakers.allow("a"), true)
+    breakers.failure("a", "HTTP 503")
+
+    assert.equal(breakers.allow("a"), false)
+    assert.equal(breakers.allow("b"), true)
+    assert.deepEqual(changes, ["a: closed -> open"])
+
+    const status = breakers.status("a")
+    assert.equal(status.state, "open")
+    assert.equal(status.consecutiveFailures, 2)
+    assert.equal(status.lastError, "HTTP 503")
+    assert.equal(status.retryAt, (status.openedAt ?? 0) + 60_000)
+    assert.equal(breakers.retryAt("a"), status.retryAt)
+  })
+
+  it("never opens with a threshold of 0", () => {
+    const { breakers } = setup(0)
+    for (let i = 0; i < 10; i++) breakers.failure("a", "timeout")
+    assert.equal(breakers.allow("a"), true)
+  })
+
+  it("lets one trial through after the cooldown", () => {
+    const { breakers, settings, changes } = setup()
+    breakers.failure("a", "timeout")
+    breakers.failure("a", "timeout")
+    settings.cooldownMs = 0
+
+    assert.equal(breakers.allow("a"), true)
+    assert.equal(breakers.status("a").state, "half-open")
+    assert.equal(breakers.allow("a"), false)
+
+    breakers.success("a")
+    assert.equal(breakers.status("a").state, "closed")
+    assert.deepEqual(changes, [
+      "a: closed -> open",
+      "a: open -> half-open",
+      "a: half-open -> closed",
+    ])
+  })
+
+  it("opens again when the trial fails", () => {
+    const { breakers, settings } = setup(1)
+    breakers.failure("a", "timeout")
+    settings.cooldownMs = 0
+    assert.equal(breakers.allow("a"), true)
+    breakers.failure("a", "HTTP 500")
+    assert.equal(breakers.status("a").state, "open")
+  })
+
+  it("frees the trial when a delivery was never sent", () => {
+    const { breakers, settings } = setup(1)
+    breakers.failure("a", "timeout")
+    settings.cooldownMs = 0
+    assert.equal(breakers.allow("a"), true)
+    breakers.release("a")
+
+    const status = breakers.status("a")
+    assert.equal(status.state, "half-open")
+    assert.equal(status.consecutiveFailures, 1)
+    assert.equal(breakers.allow("a"), true)
+  })
+
+  it("keeps a manually opened breaker open until closed by hand", () => {
+    const { breakers, settings, changes } = setup()
+    settings.cooldownMs = 0
+    assert.equal(breakers.open("a").manual, true)
+    assert.equal(breakers.allow("a"), false)
+    assert.equal(breakers.status("a").retryAt, undefined)
+
+    // A delivery that started before the manual open
+    breakers.success("a")
+    breakers.failure("a", "timeout")
+    assert.equal(breakers.status("a").state, "open")
+
+    const closed = breakers.close("a")
+    assert.equal(closed.state, "closed")
+    assert.equal(closed.consecutiveFailures, 0)
+    assert.equal(breakers.allow("a"), true)
+    assert.deepEqual(changes, ["a: closed -> open", "a: open -> closed"])
+  })
+
+  it("reports unknown targets as closed", () => {
+    const { breakers } = setup()
+    assert.deepEqual(breakers.status("nope"), {
+      target: "nope",
+      state: "closed",
+      consecutiveFailures: 0,
+      manual: false,
+    })
+  })
+})
@@ -0,0 +1,153 @@
+// =============================================================================
+// CONFIGURATION TESTS
+// =============================================================================
+// Precedence of env, file and defaults, validation, reload and the shown view
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { after, describe, it } from "node:test"
+import { describeConfig, loadConfig, reloadConfig } from "../src/config.js"
+
+const dir = mkdtempSync(join(tmpdir(), "config-test-"))
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+let files = 0
+const configFile = (content: string, extension = "yaml") => {
+  const path = join(dir, `gateway-${++files}.${extension}`)
+  writeFileSync(path, content)
+  return path
+}
+
+const missing = join(dir, "missing.yaml")
+
+describe("loadConfig", () => {
+  it("uses the defaults without a file or env", () => {
+    const config = loadConfig(missing, {})
+    assert.equal(config.port, 8080)
+    assert.equal(config.duplicatePolicy, "reject")
+    assert.equal(config.forwardSecret, undefined)
+    assert.equal(describeConfig(config).file, null)
+  })
+
+  it("prefers env over the file over the defaults", () => {
+    const path = configFile(
+      [
+        "# gateway settings",
+        "---",
+        "maxRetries: 5   # more patience",
+        "port: 9000",
+        "duplicatePolicy: 'ignore'",
+        'storagePath: "/var/lib/gateway #1.journal"',
+        "archiveDir: ~",
+      ].join("\n")
+    )
+    const config = loadConfig(path, { PORT: "9100", MAX_QUEUE_DEPTH: "" })
+    assert.equal(config.port, 9100)
+    assert.equal(config.maxRetries, 5)
+    assert.equal(config.duplicatePolicy, "ignore")
+    assert.equal(config.storagePath, "/var/lib/gateway #1.journal")
+    assert.equal(config.archiveDir, undefined)
+    assert.equal(config.maxQueueDepth, 10_000)
+
+    const { file, settings } = describeConfig(config)
+    assert.equal(file, path)
+    assert.equal(settings.port?.origin, "env")
+    assert.equal(settings.maxRetries?.origin, "file")
+    assert.equal(settings.maxQueueDepth?.origin, "default")
+  })
+
+  it("reads JSON files by extension", () => {
+    const path = configFile('{ "trustProxy": true, "maxRetries": 2 }', "json")
+    const config = loadConfig(path, { DEV_MODE: "1" })
+    assert.equal(config.trustProxy, true)
+    assert.equal(config.maxRetries, 2)
+    assert.equal(config.devMode, true)
+  })
+
+  it("reports every problem at once", () => {
+    const path = configFile("maxRetries: 0\nmaxRetrys: 3\n")
+    assert.throws(
+      () =>
+        loadConfig(path, {
+          PORT: "http",
+          DUPLICATE_POLICY: "drop",
+          WEBHOOK_SECRET: "",
+          TRUST_PROXY: "yes",
+        }),
+      (err: Error) => {
+        assert.match(err.message, /^Invalid configuration:/)
+        assert.match(err.message, /unknown setting "maxRetrys"/)
+        assert.match(err.message, /maxRetries: must be an integer >= 1/)
+        assert.match(err.message, /PORT: must be an integer between 1 and/)
+        assert.match(err.message, /DUPLICATE_POLICY: must be one of reject/)
+        assert.match(err.message, /TRUST_PROXY: must be true or false/)
+        return true
+      }
+    )
+  })
+
+  it("keeps secret values out of errors", () => {
+    const path = configFile('{ "webhookSecret": 12345 }', "json")
+    assert.throws(
+      () => loadConfig(path, {}),
+      (err: Error) => !err.message.includes("12345")
+    )
+  })
+
+  it("refuses nested YAML and inconsistent retry delays", () => {
+    const nested = configFile("retry:\n  base: 5\n")
+    assert.throws(() => loadConfig(nested, {}), /:2: expected "<setting>/)
+    assert.throws(
+      () =>
+        loadConfig(missing, {
+          RETRY_BASE_DELAY_MS: "5000",
+          RETRY_MAX_DELAY_MS: "1000",
+        }),
+      /retryMaxDelayMs must not be below retryBaseDelayMs/
+    )
+  })
+})
+
+describe("reloadConfig", () => {
+  it("applies reloadable settings and reports the others", () => {
+    const config = loadConfig(missing, {})
+    const result = reloadConfig(config, missing, {
+      MAX_RETRIES: "7",
+      PORT: "9200",
+    })
+    assert.deepEqual(result, {
+      applied: ["maxRetries"],
+      restartRequired: ["port"],
+    })
+    assert.equal(config.maxRetries, 7)
+    assert.equal(config.port, 8080)
+    assert.equal(describeConfig(config).settings.maxRetries?.origin, "env")
+  })
+
+  it("applies nothing when the new configuration is invalid", () => {
+    const config = loadConfig(missing, {})
+    assert.throws(() =>
+      reloadConfig(config, missing, { MAX_RETRIES: "7", PORT: "0" })
+    )
+    assert.equal(config.maxRetries, 3)
+  })
+})
+
+describe("describeConfig", () => {
+  it("redacts secrets that are set", () => {
+    const config = loadConfig(missing, { ADMIN_API_KEY: "k".repeat(20) })
+    const { settings } = describeConfig(config)
+    assert.equal(settings.webhookSecret?.value, "[redacted]")
+    assert.equal(settings.adminApiKey?.value, "[redacted]")
+    assert.equal(settings.forwardSecret?.value, null)
+    assert.deepEqual(settings.maxRetries, {
+      value: 3,
+      origin: "default",
+      env: "MAX_RETRIES",
+      reloadable: true,
+    })
+  })
+})
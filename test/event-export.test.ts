@@ -0,0 +1,78 @@
+// =============================================================================
+// EVENT EXPORT TESTS
+// =============================================================================
+// NDJSON and CSV serialisation of event log records
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { EventRecord } from "../src/event-log.js"
+import { exportStream, type ExportFormat } from "../src/event-export.js"
+
+const record = (
+  seq: number,
+  fields: Partial<EventRecord> = {}
+): EventRecord => ({
+  id: `evt_${seq}`,
+  seq,
+  payload: { event: "order.created", data: { seq }, source: "shop" },
+  headers: { "content-type": "application/json" },
+  status: "delivered",
+  attempts: [{ at: 0, ok: true }],
+  receivedAt: 0,
+  updatedAt: 1_000,
+  ...fields,
+})
+
+const exported = (records: EventRecord[], format: ExportFormat) =>
+  new Response(exportStream(records, format)).text()
+
+describe("exportStream", () => {
+  it("writes one full record per NDJSON line, in order", async () => {
+    const records = Array.from({ length: 450 }, (_, i) => record(i))
+    const lines = (await exported(records, "ndjson")).trimEnd().split("\n")
+    assert.equal(lines.length, 450)
+    assert.deepEqual(JSON.parse(lines[0] ?? ""), records[0])
+    assert.equal(JSON.parse(lines[449] ?? "").seq, 449)
+  })
+
+  it("writes a CSV header and one row per record", async () => {
+    const csv = await exported(
+      [record(1, { tags: ["vip", "eu"], deliveryId: "d-1" })],
+      "csv"
+    )
+    const [header, row, end] = csv.split("\r\n")
+    assert.equal(
+      header,
+      "id,seq,receivedAt,updatedAt,source,event,status,deliveryId," +
+        "replayOf,attempts,tags,error,data"
+    )
+    assert.equal(
+      row,
+      "evt_1,1,1970-01-01T00:00:00.000Z,1970-01-01T00:00:01.000Z,shop," +
+        'order.created,delivered,d-1,,1,vip;eu,,"{""seq"":1}"'
+    )
+    assert.equal(end, "")
+  })
+
+  it("quotes CSV fields and defuses formulas", async () => {
+    const csv = await exported(
+      [
+        record(1, {
+          payload: { event: "=HYPERLINK(1)", data: "a\nb", source: "@shop" },
+          error: 'HTTP 500: "oops", retry',
+        }),
+      ],
+      "csv"
+    )
+    const row = csv.slice(csv.indexOf("\r\n") + 2)
+    assert.match(row, /,'@shop,'=HYPERLINK\(1\),/)
+    assert.match(row, /,"HTTP 500: ""oops"", retry",/)
+    assert.match(row, /,"""a\\nb"""\r\n$/)
+  })
+
+  it("writes nothing but the CSV header for no records", async () => {
+    assert.equal(await exported([], "ndjson"), "")
+    assert.equal((await exported([], "csv")).split("\r\n").length, 2)
+  })
+})
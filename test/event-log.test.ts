@@ -0,0 +1,114 @@
+// =============================================================================
+// EVENT LOG TESTS
+// =============================================================================
+// Which records a replay selects and which headers are masked
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { beforeEach, describe, it } from "node:test"
+import {
+  initEventLog,
+  recordEvent,
+  redactHeaders,
+  selectReplays,
+  type EventStatus,
+} from "../src/event-log.js"
+import { createMemoryStorage } from "../src/storage.js"
+
+/**
+ * Logs one record per entry and returns their IDs by name
+ */
+const log = (entries: [string, string, EventStatus][]) =>
+  Object.fromEntries(
+    entries.map(([name, event, status]) => [
+      name,
+      recordEvent({ event, data: { name }, source: "shop" }, {}, status).id,
+    ])
+  )
+
+describe("selectReplays", () => {
+  let ids: Record<string, string>
+
+  beforeEach(() => {
+    initEventLog(createMemoryStorage({ historyLimit: 0, eventLimit: 100 }))
+    ids = log([
+      ["delivered", "order.created", "delivered"],
+      ["dead", "order.paid", "dead-lettered"],
+      ["queued", "order.paid", "queued"],
+      ["rejected", "order.paid", "rejected"],
+      ["duplicate", "order.created", "duplicate"],
+      ["dropped", "user.created", "dropped"],
+      ["quarantined", "user.created", "quarantined"],
+      ["user", "user.created", "delivered"],
+    ])
+  })
+
+  const names = (selected: { id: string }[]) =>
+    selected.map(({ id }) => Object.keys(ids).find((name) => ids[name] === id))
+
+  it("selects only delivered and dead-lettered records by default", () => {
+    assert.deepEqual(names(selectReplays({ source: "shop" })), [
+      "delivered",
+      "dead",
+      "user",
+    ])
+  })
+
+  it("selects other states only when asked for by name", () => {
+    assert.deepEqual(names(selectReplays({ status: "rejected" })), [
+      "rejected",
+    ])
+    assert.deepEqual(
+      names(selectReplays({ ids: [ids.rejected!, ids.delivered!] })),
+      ["delivered"]
+    )
+  })
+
+  it("selects an inclusive range, oldest first", () => {
+    assert.deepEqual(
+      names(selectReplays({ fromId: ids.dead!, toId: ids.user! })),
+      ["dead", "user"]
+    )
+    assert.deepEqual(names(selectReplays({ toId: ids.dead! })), [
+      "delivered",
+      "dead",
+    ])
+  })
+
+  it("requires every selector to match", () => {
+    assert.deepEqual(
+      names(selectReplays({ fromId: ids.delivered!, event: "order.*" })),
+      ["delivered", "dead"]
+    )
+    assert.deepEqual(
+      names(selectReplays({ ids: [ids.user!], event: "order.*" })),
+      []
+    )
+  })
+
+  it("selects nothing when a range end is not in the log", () => {
+    assert.deepEqual(selectReplays({ fromId: "gone" }), [])
+  })
+})
+
+describe("redactHeaders", () => {
+  it("masks credentials and the signature, keeping everything else", () => {
+    const headers = {
+      authorization: "Bearer abc",
+      cookie: "sid=1",
+      "x-api-key": "k",
+      "x-shop-signature": "sha256=abc",
+      "x-webhook-id": "dlv-1",
+      "content-type": "application/json",
+    }
+    assert.deepEqual(redactHeaders(headers, "x-shop-signature"), {
+      authorization: "[redacted]",
+      cookie: "[redacted]",
+      "x-api-key": "[redacted]",
+      "x-shop-signature": "[redacted]",
+      "x-webhook-id": "dlv-1",
+      "content-type": "application/json",
+    })
+    assert.equal(headers.cookie, "sid=1")
+  })
+})
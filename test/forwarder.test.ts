@@ -0,0 +1,195 @@
+// =============================================================================
+// ROUTING RULE TESTS
+// =============================================================================
+// Loading the routes file and deciding targets, tags and drops per webhook
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { after, beforeEach, describe, it } from "node:test"
+import {
+  evaluateRoutes,
+  listRoutes,
+  loadRoutes,
+  routeEvent,
+} from "../src/forwarder.js"
+
+const dir = mkdtempSync(join(tmpdir(), "routes-test-"))
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+const defaults = { timeoutMs: 1_000, secret: "gateway-secret" }
+
+let files = 0
+const routesFile = (routes: unknown[]) => {
+  const path = join(dir, `routes-${++files}.json`)
+  writeFileSync(path, JSON.stringify({ routes }))
+  return path
+}
+
+const order = (data: Record<string, unknown>, source = "shop") => ({
+  event: "order.created",
+  data,
+  source,
+})
+
+describe("evaluateRoutes", () => {
+  beforeEach(() => {
+    loadRoutes(
+      routesFile([
+        {
+          id: "drop-test-orders",
+          events: ["order.*"],
+          headers: { "x-shop-topic": "test/*" },
+          tags: ["test"],
+          drop: true,
+        },
+        {
+          id: "high-value",
+          events: ["order.*"],
+          when: ["data.amount > 1000", 'data.currency == "USD"'],
+          tags: ["high-value"],
+          targets: [{ id: "risk", url: "https://risk.example/review" }],
+        },
+        {
+          id: "orders",
+          events: ["order.*"],
+          sources: ["shop"],
+          targets: [
+            { id: "fulfilment", url: "https://fulfilment.example/hooks" },
+            "risk",
+          ],
+        },
+        { id: "users", events: ["user.*"], tags: ["crm"] },
+      ]),
+      defaults
+    )
+  })
+
+  it("fans out to the targets of every matching rule, once each", () => {
+    const payload = order({ amount: 5000, currency: "USD" })
+    const decision = evaluateRoutes(payload, {})
+    assert.deepEqual(
+      decision.matched.map((rule) => rule.id),
+      ["high-value", "orders"]
+    )
+    assert.deepEqual(decision.targets, ["risk", "fulfilment"])
+    assert.deepEqual(decision.tags, ["high-value"])
+    assert.equal(decision.droppedBy, undefined)
+  })
+
+  it("applies predicates, sources and event globs", () => {
+    const small = evaluateRoutes(order({ amount: 50, currency: "USD" }), {})
+    assert.deepEqual(small.targets, ["fulfilment", "risk"])
+
+    const elsewhere = evaluateRoutes(order({ amount: 50 }, "pos"), {})
+    assert.deepEqual(elsewhere.matched, [])
+
+    const user = evaluateRoutes(
+      { event: "user.created", data: {}, source: "shop" },
+      {}
+    )
+    assert.deepEqual(user.targets, [])
+    assert.deepEqual(user.tags, ["crm"])
+  })
+
+  it("stops at a drop rule, keeping the tags so far", () => {
+    const decision = evaluateRoutes(order({ amount: 5000 }), {
+      "x-shop-topic": "test/orders",
+    })
+    assert.equal(decision.droppedBy, "drop-test-orders")
+    assert.deepEqual(decision.targets, [])
+    assert.deepEqual(decision.tags, ["test"])
+  })
+
+  it("counts hits only when routing for real", () => {
+    evaluateRoutes(order({ amount: 1 }), {})
+    routeEvent(order({ amount: 1 }), {})
+    const hits = Object.fromEntries(
+      listRoutes().routes.map((rule) => [rule.id, rule.hits])
+    )
+    assert.equal(hits.orders, 1)
+    assert.equal(hits["high-value"], 0)
+  })
+})
+
+describe("ordering keys", () => {
+  it("partition by the first matched rule whose key resolves", () => {
+    loadRoutes(
+      routesFile([
+        { events: ["order.*"], orderingKey: "data.missing", tags: ["a"] },
+        { events: ["order.*"], orderingKey: "data.orderId", tags: ["b"] },
+        {
+          events: ["order.*"],
+          orderingKey: "headers.x-shop-id",
+          tags: ["c"],
+        },
+      ]),
+      defaults
+    )
+    assert.equal(
+      evaluateRoutes(order({ orderId: 42 }), {}).orderingKey,
+      "data.orderId=42"
+    )
+    assert.equal(
+      evaluateRoutes(order({ orderId: { nested: 1 } }), {
+        "x-shop-id": "eu-1",
+      }).orderingKey,
+      "headers.x-shop-id=eu-1"
+    )
+    assert.equal(evaluateRoutes(order({}), {}).orderingKey, undefined)
+  })
+})
+
+describe("loadRoutes", () => {
+  it("keeps the previous rules when the file is invalid", () => {
+    loadRoutes(
+      routesFile([{ id: "a", events: ["*"], tags: ["kept"] }]),
+      defaults
+    )
+    assert.throws(
+      () =>
+        loadRoutes(
+          routesFile([
+            { id: "b", events: ["*"], tags: ["new"] },
+            { id: "c", events: ["*"], when: ["data.x ~ 1"], tags: ["x"] },
+          ]),
+          defaults
+        ),
+      /routes\[1\]\.when\[0\]/
+    )
+    assert.deepEqual(evaluateRoutes(order({}), {}).tags, ["kept"])
+  })
+
+  it("names the first invalid rule", () => {
+    const load = (rule: unknown) => () =>
+      loadRoutes(routesFile([rule]), defaults)
+    assert.throws(load({ events: [] }), /routes\[0\]: "events"/)
+    assert.throws(load({ events: ["*"] }), /needs "targets", "tags"/)
+    assert.throws(
+      load({ events: ["*"], targets: ["nope"] }),
+      /unknown target/
+    )
+    const target = { url: "https://a.example" }
+    assert.throws(
+      load({ events: ["*"], drop: true, targets: [target] }),
+      /drop rule cannot have targets/
+    )
+  })
+
+  it("lists targets without their secrets", () => {
+    loadRoutes(
+      routesFile([
+        {
+          events: ["*"],
+          targets: [{ id: "t", url: "https://t.example", secret: "s3cret" }],
+        },
+      ]),
+      defaults
+    )
+    const [target] = listRoutes().targets
+    assert.equal(target?.id, "t")
+    assert.equal("secret" in (target ?? {}), false)
+  })
+})
@@ -0,0 +1,47 @@
+// =============================================================================
+// IDEMPOTENCY KEY TESTS
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { lookupResponse, storeResponse } from "../src/idempotency.js"
+
+describe("lookupResponse", () => {
+  const now = 1_700_000_000_000
+  const body = Buffer.from('{"event":"order.created","data":{"id":1}}')
+
+  it("reports a key seen for the first time as new", () => {
+    assert.deepEqual(lookupResponse("shop:new", body, now), { outcome: "new" })
+  })
+
+  it("replays the stored response for the same key and body", () => {
+    storeResponse("shop:same", body, 202, { ok: true }, 60, now)
+    assert.deepEqual(lookupResponse("shop:same", body, now + 1_000), {
+      outcome: "replay",
+      response: { status: 202, body: { ok: true }, storedAt: now },
+    })
+  })
+
+  it("reports a conflict when the key is reused for another body", () => {
+    storeResponse("shop:reused", body, 202, { ok: true }, 60, now)
+    const other = Buffer.from('{"event":"order.created","data":{"id":2}}')
+    assert.deepEqual(lookupResponse("shop:reused", other, now + 1_000), {
+      outcome: "conflict",
+      storedAt: now,
+    })
+  })
+
+  it("forgets a key once its TTL has passed", () => {
+    storeResponse("shop:expiring", body, 202, { ok: true }, 60, now)
+    assert.deepEqual(lookupResponse("shop:expiring", body, now + 60_000), {
+      outcome: "new",
+    })
+  })
+
+  it("keeps keys of different sources apart", () => {
+    storeResponse("shop:scoped", body, 202, { ok: true }, 60, now)
+    assert.deepEqual(lookupResponse("billing:scoped", body, now), {
+      outcome: "new",
+    })
+  })
+})
@@ -0,0 +1,115 @@
+// =============================================================================
+// JOURNAL STORAGE TESTS
+// =============================================================================
+// State survives a restart, a torn last line and a crash mid-delivery
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { appendFileSync, mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { after, describe, it } from "node:test"
+import { createJournalStorage } from "../src/journal-storage.js"
+import { releaseInterrupted } from "../src/storage.js"
+import type { WebhookQueueItem } from "../src/types.js"
+
+const dir = mkdtempSync(join(tmpdir(), "journal-test-"))
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+let journals = 0
+const newPath = () => join(dir, `gateway-${++journals}.journal`)
+const open = (path: string) =>
+  createJournalStorage({ path, historyLimit: 20, eventLimit: 100 })
+
+const queueItem = (id: string): WebhookQueueItem => ({
+  id,
+  eventId: `event-${id}`,
+  payload: { event: "order.created", data: { id }, source: "shop" },
+  headers: {},
+  attempts: [],
+  retries: 0,
+  addedAt: 1_000,
+  nextAttemptAt: 1_000,
+})
+
+describe("createJournalStorage", () => {
+  it("restores the queue, history and dead letters after a restart", () => {
+    const path = newPath()
+    const storage = open(path)
+    storage.putQueueItem(queueItem("a"))
+    storage.putQueueItem(queueItem("b"))
+    storage.removeQueueItem("a")
+    storage.addHistory({
+      event: "e1",
+      source: "shop",
+      status: "success",
+      timestamp: 1,
+    })
+    storage.addHistory({
+      event: "e2",
+      source: "shop",
+      status: "failed",
+      timestamp: 2,
+    })
+    storage.close()
+
+    const reopened = open(path)
+    assert.deepEqual(reopened.queueItems().map((item) => item.id), ["b"])
+    assert.deepEqual(
+      reopened.history().map((entry) => entry.event),
+      ["e2", "e1"]
+    )
+    reopened.close()
+  })
+
+  it("keeps every write made before a crash and skips a torn last line", () => {
+    const path = newPath()
+    const storage = open(path)
+    storage.putQueueItem(queueItem("a"))
+    storage.putQueueItem({ ...queueItem("a"), retries: 2 })
+    // No close(): the process died, mid-way through the next line
+    appendFileSync(path, '{"op":"queue.put","item":{"id":"c"')
+
+    const reopened = open(path)
+    assert.equal(reopened.queueItems().length, 1)
+    assert.equal(reopened.queueItems()[0]!.retries, 2)
+    reopened.close()
+  })
+})
+
+describe("releaseInterrupted", () => {
+  it("makes items claimed before a crash due again, keeping retries", () => {
+    const path = newPath()
+    const storage = open(path)
+    storage.putQueueItem({ ...queueItem("a"), claimedAt: 5_000, retries: 1 })
+    storage.putQueueItem(queueItem("b"))
+
+    const reopened = open(path)
+    assert.equal(reopened.queueItems()[0]!.claimedAt, 5_000)
+
+    const interrupted = releaseInterrupted(reopened, 9_000)
+    assert.equal(interrupted.length, 1)
+    assert.equal(interrupted[0]!.item.id, "a")
+    assert.deepEqual(interrupted[0]!.attempt, {
+      at: 9_000,
+      ok: false,
+      error: "Interrupted by restart",
+    })
+    reopened.close()
+
+    // The release itself was journalled
+    const [a, b] = open(path).queueItems()
+    assert.equal(a!.claimedAt, undefined)
+    assert.equal(a!.nextAttemptAt, 9_000)
+    assert.equal(a!.retries, 1)
+    assert.equal(a!.attempts.length, 1)
+    assert.equal(b!.attempts.length, 0)
+  })
+
+  it("leaves a cleanly stopped queue alone", () => {
+    const storage = open(newPath())
+    storage.putQueueItem(queueItem("a"))
+    assert.deepEqual(releaseInterrupted(storage), [])
+    storage.close()
+  })
+})
@@ -0,0 +1,120 @@
+// =============================================================================
+// JSON SCHEMA TESTS
+// =============================================================================
+// Schema checks at load time and validation of the supported keywords
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { checkSchema, validateJson } from "../src/json-schema.js"
+
+const order = {
+  type: "object",
+  required: ["orderId", "total"],
+  properties: {
+    orderId: { type: "string", minLength: 1 },
+    total: { type: "number", minimum: 0 },
+    currency: { type: "string", pattern: "^[A-Z]{3}$" },
+    items: {
+      type: "array",
+      minItems: 1,
+      items: { type: "object", required: ["sku"] },
+    },
+  },
+  additionalProperties: false,
+}
+
+describe("checkSchema", () => {
+  it("accepts supported keywords and annotations", () => {
+    checkSchema({ ...order, title: "Order", $comment: "v1" }, "schema")
+    checkSchema(true, "schema")
+  })
+
+  it("rejects unsupported keywords and malformed values", () => {
+    assert.throws(
+      () => checkSchema({ $ref: "#/defs/a" }, "schemas[0]"),
+      /schemas\[0\]\.\$ref: unsupported keyword/
+    )
+    assert.throws(
+      () => checkSchema({ properties: { a: { minLength: -1 } } }, "s"),
+      /s\.properties\.a\.minLength: must be a non-negative integer/
+    )
+    assert.throws(() => checkSchema({ pattern: "(" }, "s"), /invalid regular/)
+    assert.throws(() => checkSchema({ required: [1] }, "s"), /property names/)
+    assert.throws(() => checkSchema({ anyOf: [] }, "s"), /non-empty array/)
+  })
+})
+
+describe("validateJson", () => {
+  it("accepts a matching value", () => {
+    checkSchema(order, "schema")
+    const value = { orderId: "42", total: 10, items: [{ sku: "A" }] }
+    assert.deepEqual(validateJson(order, value, "/data"), [])
+  })
+
+  it("reports every violation with its JSON Pointer", () => {
+    const errors = validateJson(
+      order,
+      { orderId: "", currency: "usd", items: [{}], note: "x" },
+      "/data"
+    )
+    assert.deepEqual(errors, [
+      { path: "/data", message: "must have required property 'total'" },
+      { path: "/data/orderId", message: "must have at least 1 characters" },
+      { path: "/data/currency", message: 'must match pattern "^[A-Z]{3}$"' },
+      { path: "/data/items/0", message: "must have required property 'sku'" },
+      { path: "/data/note", message: "is not allowed" },
+    ])
+  })
+
+  it("stops at a wrong type", () => {
+    assert.deepEqual(validateJson({ type: "integer", minimum: 5 }, 1.5), [
+      { path: "", message: "must be integer" },
+    ])
+    assert.deepEqual(validateJson({ type: ["integer", "string"] }, "a"), [])
+  })
+
+  it("checks formats and ignores unknown ones", () => {
+    const email = { type: "string", format: "email" }
+    assert.equal(validateJson(email, "a@b.io").length, 0)
+    assert.equal(validateJson(email, "nope").length, 1)
+    assert.deepEqual(validateJson({ format: "constructor" }, "x"), [])
+  })
+
+  it("applies the combinators", () => {
+    const schema = {
+      oneOf: [{ type: "string" }, { type: "number", multipleOf: 2 }],
+      not: { const: "forbidden" },
+    }
+    assert.deepEqual(validateJson(schema, 4), [])
+    assert.deepEqual(validateJson(schema, 3), [
+      {
+        path: "",
+        message: "must match exactly one schema in oneOf (matched 0)",
+      },
+    ])
+    assert.deepEqual(validateJson(schema, "forbidden"), [
+      { path: "", message: "must not match the schema in not" },
+    ])
+  })
+
+  it("only counts own properties as present or declared", () => {
+    const schema = {
+      type: "object",
+      required: ["constructor", "toString"],
+      properties: { id: { type: "string" } },
+      additionalProperties: false,
+    }
+    assert.deepEqual(validateJson(schema, { id: "1" }), [
+      { path: "", message: "must have required property 'constructor'" },
+      { path: "", message: "must have required property 'toString'" },
+    ])
+    assert.deepEqual(
+      validateJson(schema, JSON.parse('{"id":"1","constructor":1}')),
+      [
+        { path: "", message: "must have required property 'toString'" },
+        { path: "/constructor", message: "is not allowed" },
+      ]
+    )
+  })
+})
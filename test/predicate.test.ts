@@ -0,0 +1,91 @@
+// =============================================================================
+// ROUTE PREDICATE TESTS
+// =============================================================================
+// Parsing "when" expressions and evaluating them against a webhook
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { parsePredicate, testPredicate } from "../src/predicate.js"
+
+const subject = {
+  event: "order.created",
+  source: "shop",
+  data: {
+    amount: 1500,
+    currency: "USD",
+    country: "DE",
+    customer: { vip: false },
+    reference: "10",
+  },
+  headers: { "x-shop-topic": "orders/create" },
+}
+
+/**
+ * Parses an expression and tests it against the subject
+ */
+const holds = (expression: string) =>
+  testPredicate(parsePredicate(expression, "when[0]"), subject)
+
+describe("parsePredicate", () => {
+  it("reads the path, operator and JSON literal", () => {
+    assert.deepEqual(parsePredicate(" data.amount >= 10 ", "w"), {
+      source: "data.amount >= 10",
+      path: "data.amount",
+      operator: ">=",
+      value: 10,
+    })
+    assert.deepEqual(parsePredicate('data.country in ["DE", "FR"]', "w"), {
+      source: 'data.country in ["DE", "FR"]',
+      path: "data.country",
+      operator: "in",
+      value: ["DE", "FR"],
+    })
+    assert.deepEqual(parsePredicate("data.customer.vip exists", "w"), {
+      source: "data.customer.vip exists",
+      path: "data.customer.vip",
+      operator: "exists",
+    })
+  })
+
+  it("names the condition it cannot parse", () => {
+    assert.throws(
+      () => parsePredicate("data.amount >", "routes[1].when[0]"),
+      /routes\[1\]\.when\[0\]: expected/
+    )
+    assert.throws(
+      () => parsePredicate("data.a == USD", "w"),
+      /not a JSON value/
+    )
+    assert.throws(() => parsePredicate(42, "w"), /expected/)
+  })
+})
+
+describe("testPredicate", () => {
+  it("compares numbers and strings", () => {
+    assert.equal(holds("data.amount > 1000"), true)
+    assert.equal(holds("data.amount <= 1000"), false)
+    assert.equal(holds('data.currency == "USD"'), true)
+    assert.equal(holds('data.currency < "USE"'), true)
+    assert.equal(holds('headers.x-shop-topic != "orders/test"'), true)
+  })
+
+  it("never converts types", () => {
+    assert.equal(holds("data.reference == 10"), false)
+    assert.equal(holds('data.reference == "10"'), true)
+    assert.equal(holds('data.amount > "1000"'), false)
+  })
+
+  it("tests membership and presence", () => {
+    assert.equal(holds('data.country in ["DE", "FR"]'), true)
+    assert.equal(holds('data.country in ["US"]'), false)
+    assert.equal(holds("data.customer.vip exists"), true)
+    assert.equal(holds("data.customer.tier exists"), false)
+    assert.equal(holds('data.customer == {"vip": false}'), true)
+  })
+
+  it("fails on missing values rather than throwing", () => {
+    assert.equal(holds("data.missing.deep > 1"), false)
+    assert.equal(holds("data.missing == null"), false)
+  })
+})
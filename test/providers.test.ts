@@ -0,0 +1,194 @@
+// =============================================================================
+// PROVIDER ADAPTER TESTS
+// =============================================================================
+// Each provider's signature scheme and how its requests are normalised
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import {
+  getProvider,
+  isProviderId,
+  PROVIDER_IDS,
+  verifyProviderSignature,
+  type ProviderRequest,
+} from "../src/providers.js"
+
+const SECRET = "provider-secret"
+
+/**
+ * Builds a request whose headers are signed by the provider's adapter
+ */
+const signed = (
+  id: (typeof PROVIDER_IDS)[number],
+  body: string,
+  event = "order.created"
+): ProviderRequest => {
+  const adapter = getProvider(id)
+  const request = {
+    rawBody: Buffer.from(body),
+    headers: {},
+    url: "https://gateway.example/webhook/twilio",
+  }
+  return { ...request, headers: adapter.sign(request, SECRET, event) }
+}
+
+const JSON_BODY = '{"id":"evt_1","type":"invoice.paid"}'
+const FORM_BODY = "MessageSid=SM1&MessageStatus=delivered&To=%2B15550100"
+
+describe("adapters", () => {
+  for (const id of PROVIDER_IDS) {
+    it(`${id}: verifies its own signatures and refuses other secrets`, () => {
+      const adapter = getProvider(id)
+      const body =
+        adapter.contentType === "application/json" ? JSON_BODY : FORM_BODY
+      const request = signed(id, body)
+      assert.ok(request.headers[adapter.signatureHeader])
+      assert.equal(adapter.verify(request, SECRET).valid, true)
+      assert.equal(adapter.verify(request, "other-secret").valid, false)
+
+      const tampered = { ...request, rawBody: Buffer.from(`${body} `) }
+      assert.equal(adapter.verify(tampered, SECRET).valid, false)
+    })
+  }
+
+  it("github: matches the documented example", () => {
+    const request = {
+      rawBody: Buffer.from("Hello, World!"),
+      headers: {
+        "x-hub-signature-256":
+          "sha256=757107ea0eb2509fc211221cce984b8a" +
+          "37570b6d7586c22c46f4379c8b043e17",
+      },
+      url: "",
+    }
+    const result = getProvider("github").verify(
+      request,
+      "It's a Secret to Everybody"
+    )
+    assert.equal(result.valid, true)
+  })
+
+  it("stripe and slack: report the signed timestamp", () => {
+    const now = Math.floor(Date.now() / 1000)
+    for (const id of ["stripe", "slack"] as const) {
+      const { timestamp } = getProvider(id).verify(signed(id, "{}"), SECRET)
+      assert.ok(timestamp !== undefined && Math.abs(timestamp - now) <= 1)
+    }
+  })
+
+  it("stripe: refuses a digest without a timestamp", () => {
+    const request = signed("github", JSON_BODY)
+    const digest = request.headers["x-hub-signature-256"] ?? ""
+    const result = getProvider("stripe").verify(
+      { ...request, headers: { "stripe-signature": digest } },
+      SECRET
+    )
+    assert.deepEqual(result, { valid: false, reason: "Missing timestamp" })
+  })
+
+  it("twilio: signs the URL the request was sent to", () => {
+    const request = signed("twilio", FORM_BODY)
+    const moved = { ...request, url: "https://other.example/webhook/twilio" }
+    assert.equal(getProvider("twilio").verify(moved, SECRET).valid, false)
+  })
+})
+
+describe("normalize", () => {
+  const normalize = (
+    id: (typeof PROVIDER_IDS)[number],
+    headers: Record<string, string>,
+    body: unknown
+  ) =>
+    getProvider(id).normalize(
+      { rawBody: Buffer.alloc(0), headers, url: "" },
+      body
+    )
+
+  it("names events the gateway's way", () => {
+    assert.deepEqual(
+      normalize(
+        "github",
+        { "x-github-event": "issues", "x-github-delivery": "d-1" },
+        { action: "opened" }
+      ),
+      { event: "issues.opened", data: { action: "opened" }, deliveryId: "d-1" }
+    )
+    assert.deepEqual(
+      normalize("stripe", {}, { id: "evt_1", type: "invoice.paid" }).event,
+      "invoice.paid"
+    )
+    assert.equal(
+      normalize("shopify", { "x-shopify-topic": "orders/create" }, {}).event,
+      "orders.create"
+    )
+    assert.equal(
+      normalize("twilio", {}, { CallSid: "CA1", CallStatus: "completed" })
+        .event,
+      "call.completed"
+    )
+    assert.equal(
+      normalize("twilio", {}, { MessageSid: "SM1", SmsStatus: "received" })
+        .event,
+      "message.received"
+    )
+  })
+
+  it("unwraps Slack callbacks and passes on the challenge", () => {
+    const callback = {
+      type: "event_callback",
+      event_id: "Ev1",
+      event: { type: "app_mention" },
+    }
+    assert.deepEqual(normalize("slack", {}, callback), {
+      event: "app_mention",
+      data: callback,
+      deliveryId: "Ev1",
+    })
+    const handshake = { type: "url_verification", challenge: "abc" }
+    assert.equal(normalize("slack", {}, handshake).challenge, "abc")
+  })
+
+  it("never throws on unexpected bodies", () => {
+    for (const id of PROVIDER_IDS) {
+      for (const body of [null, "text", [1], { type: 5 }]) {
+        assert.equal(normalize(id, {}, body).event, "unknown")
+      }
+    }
+  })
+})
+
+describe("verifyProviderSignature", () => {
+  const adapter = getProvider("shopify")
+
+  it("tries every key and reports the one that matched", () => {
+    const keys = [
+      { kid: "next", secret: "next-secret" },
+      { kid: "current", secret: SECRET },
+    ]
+    assert.deepEqual(
+      verifyProviderSignature(adapter, signed("shopify", "{}"), keys),
+      { valid: true, keyId: "current" }
+    )
+  })
+
+  it("fails without a signature or usable keys", () => {
+    const request = signed("shopify", "{}")
+    assert.deepEqual(
+      verifyProviderSignature(adapter, { ...request, headers: {} }, []),
+      { valid: false, reason: "Missing signature" }
+    )
+    assert.deepEqual(verifyProviderSignature(adapter, request, []), {
+      valid: false,
+      reason: "No usable keys",
+    })
+  })
+})
+
+describe("isProviderId", () => {
+  it("accepts only built-in providers", () => {
+    assert.equal(isProviderId("stripe"), true)
+    assert.equal(isProviderId("paypal"), false)
+    assert.equal(isProviderId(undefined), false)
+  })
+})
@@ -0,0 +1,53 @@
+// =============================================================================
+// RATE LIMIT TESTS
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { createRateLimiter } from "../src/rate-limit.js"
+
+describe("createRateLimiter", () => {
+  const limit = { perSecond: 1, burst: 2 }
+
+  it("allows a burst, then refuses with Retry-After", () => {
+    const limiter = createRateLimiter()
+    assert.deepEqual(limiter.take("203.0.113.7", limit), { allowed: true })
+    assert.deepEqual(limiter.take("203.0.113.7", limit), { allowed: true })
+    assert.deepEqual(limiter.take("203.0.113.7", limit), {
+      allowed: false,
+      retryAfterSeconds: 1,
+      firstRefusal: true,
+    })
+  })
+
+  it("flags only the first refusal of a run", () => {
+    const limiter = createRateLimiter()
+    limiter.take("ip", { perSecond: 1, burst: 1 })
+    const first = limiter.take("ip", { perSecond: 1, burst: 1 })
+    const second = limiter.take("ip", { perSecond: 1, burst: 1 })
+    assert.equal(first.allowed === false && first.firstRefusal, true)
+    assert.equal(second.allowed === false && second.firstRefusal, false)
+  })
+
+  it("keeps a bucket per key", () => {
+    const limiter = createRateLimiter()
+    limiter.take("a", { perSecond: 1, burst: 1 })
+    assert.equal(limiter.take("a", { perSecond: 1, burst: 1 }).allowed, false)
+    assert.equal(limiter.take("b", { perSecond: 1, burst: 1 }).allowed, true)
+  })
+
+  it("never refuses when the rate is 0", () => {
+    const limiter = createRateLimiter()
+    for (let i = 0; i < 10; i++) {
+      assert.equal(limiter.take("a", { perSecond: 0, burst: 0 }).allowed, true)
+    }
+  })
+
+  it("applies a lowered burst to an existing bucket at once", () => {
+    const limiter = createRateLimiter()
+    limiter.take("a", { perSecond: 1, burst: 10 })
+    // 9 tokens left, capped to the new burst of 1
+    assert.equal(limiter.take("a", { perSecond: 1, burst: 1 }).allowed, true)
+    assert.equal(limiter.take("a", { perSecond: 1, burst: 1 }).allowed, false)
+  })
+})
@@ -0,0 +1,38 @@
+// =============================================================================
+// DELIVERY-ID DEDUP TESTS
+// =============================================================================
+// See signature.test.ts for the timestamp tolerance
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { claimDelivery } from "../src/replay.js"
+
+describe("claimDelivery", () => {
+  const now = 1_700_000_000_000
+
+  it("accepts a delivery ID once", () => {
+    assert.equal(claimDelivery("shop:evt_1", 60, now), true)
+    assert.equal(claimDelivery("shop:evt_1", 60, now + 1_000), false)
+  })
+
+  it("scopes IDs by the caller's key, e.g. per source", () => {
+    assert.equal(claimDelivery("shop:evt_2", 60, now), true)
+    assert.equal(claimDelivery("billing:evt_2", 60, now), true)
+  })
+
+  it("accepts an ID again once its TTL has passed", () => {
+    assert.equal(claimDelivery("shop:evt_3", 60, now), true)
+    assert.equal(claimDelivery("shop:evt_3", 60, now + 59_999), false)
+    assert.equal(claimDelivery("shop:evt_3", 60, now + 60_000), true)
+  })
+
+  it("honours each entry's expiry after the TTL is lowered", () => {
+    // An entry with the old, long TTL stays at the front of the store
+    assert.equal(claimDelivery("shop:long", 3_600, now), true)
+    assert.equal(claimDelivery("shop:short", 10, now), true)
+    assert.equal(claimDelivery("shop:short", 10, now + 9_000), false)
+    assert.equal(claimDelivery("shop:short", 10, now + 10_000), true)
+    assert.equal(claimDelivery("shop:long", 10, now + 10_000), false)
+  })
+})
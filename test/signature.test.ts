@@ -0,0 +1,153 @@
+// =============================================================================
+// SIGNATURE VERIFICATION TESTS
+// =============================================================================
+// Every accepted signature format, key rings and the timestamp tolerance
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { createHmac } from "node:crypto"
+import { describe, it } from "node:test"
+import jwt from "jsonwebtoken"
+import { checkTimestamp } from "../src/replay.js"
+import {
+  validateSignature,
+  verifyHmacSignature,
+  verifyJwtSignature,
+} from "../src/signature.js"
+
+const SECRET = "test-secret"
+const BODY = Buffer.from('{"event":"order.created","data":{"id":1}}')
+
+const hmac = (payload: Buffer | string, secret = SECRET) =>
+  createHmac("sha256", secret).update(payload)
+
+describe("verifyHmacSignature", () => {
+  it("accepts GitHub style sha256=<hex>", () => {
+    const header = `sha256=${hmac(BODY).digest("hex")}`
+    assert.deepEqual(verifyHmacSignature(BODY, header, SECRET), { valid: true })
+  })
+
+  it("accepts Stripe style t=<unix>,v1=<hex> and reports the timestamp", () => {
+    const t = 1_700_000_000
+    const signed = Buffer.concat([Buffer.from(`${t}.`), BODY])
+    const digest = hmac(signed).digest("hex")
+    const header = `t=${t},v1=deadbeef,v1=${digest}`
+    assert.deepEqual(verifyHmacSignature(BODY, header, SECRET), {
+      valid: true,
+      timestamp: t,
+    })
+  })
+
+  it("rejects a Stripe style header without a timestamp", () => {
+    const header = `v1=${hmac(BODY).digest("hex")},v1=00`
+    assert.equal(verifyHmacSignature(BODY, header, SECRET).valid, false)
+  })
+
+  it("accepts Shopify style bare base64 and bare hex digests", () => {
+    const base64 = hmac(BODY).digest("base64")
+    const hex = hmac(BODY).digest("hex")
+    assert.equal(verifyHmacSignature(BODY, base64, SECRET).valid, true)
+    assert.equal(verifyHmacSignature(BODY, hex, SECRET).valid, true)
+  })
+
+  it("rejects a digest of other bytes or with another secret", () => {
+    const other = `sha256=${hmac(`${BODY} `).digest("hex")}`
+    const wrongKey = `sha256=${hmac(BODY, "other").digest("hex")}`
+    assert.equal(verifyHmacSignature(BODY, other, SECRET).valid, false)
+    assert.equal(verifyHmacSignature(BODY, wrongKey, SECRET).valid, false)
+  })
+
+  it("rejects garbage without throwing", () => {
+    assert.equal(verifyHmacSignature(BODY, "sha256=zz", SECRET).valid, false)
+    assert.equal(verifyHmacSignature(BODY, "%%%", SECRET).valid, false)
+  })
+})
+
+describe("verifyJwtSignature", () => {
+  it("accepts a token signed with the secret and reports iat", () => {
+    const token = jwt.sign({ test: true }, SECRET)
+    const result = verifyJwtSignature(token, SECRET)
+    assert.equal(result.valid, true)
+    assert.equal(typeof result.timestamp, "number")
+  })
+
+  it("reports iat, not exp, for a token with a normal lifetime", () => {
+    const token = jwt.sign({ test: true }, SECRET, { expiresIn: "1h" })
+    const result = verifyJwtSignature(token, SECRET)
+    const now = Math.floor(Date.now() / 1000)
+    assert.equal(result.valid, true)
+    assert.ok(Math.abs(result.timestamp! - now) <= 1)
+  })
+
+  it("rejects a token without iat, even if it has exp", () => {
+    const exp = Math.floor(Date.now() / 1000) + 60
+    const withExp = jwt.sign({ exp }, SECRET, { noTimestamp: true })
+    const bare = jwt.sign({ test: true }, SECRET, { noTimestamp: true })
+    assert.match(verifyJwtSignature(withExp, SECRET).reason!, /no iat/)
+    assert.equal(verifyJwtSignature(bare, SECRET).valid, false)
+  })
+
+  it("rejects expired tokens and tokens signed with another secret", () => {
+    const exp = Math.floor(Date.now() / 1000) - 60
+    const expired = jwt.sign({ exp }, SECRET)
+    assert.equal(verifyJwtSignature(expired, SECRET).valid, false)
+    assert.equal(
+      verifyJwtSignature(jwt.sign({ test: true }, "other"), SECRET).valid,
+      false
+    )
+  })
+})
+
+describe("validateSignature", () => {
+  const keys = [
+    { kid: "old", secret: "old-secret" },
+    { kid: "new", secret: SECRET },
+  ]
+  const header = `sha256=${hmac(BODY).digest("hex")}`
+
+  it("tries every usable key and reports the one that matched", () => {
+    assert.deepEqual(validateSignature(BODY, header, "hmac-sha256", keys), {
+      valid: true,
+      keyId: "new",
+    })
+  })
+
+  it("only tries the key the sender names", () => {
+    assert.equal(
+      validateSignature(BODY, header, "hmac-sha256", keys, "old").valid,
+      false
+    )
+    assert.match(
+      validateSignature(BODY, header, "hmac-sha256", keys, "gone").reason!,
+      /Unknown or unusable key ID/
+    )
+  })
+
+  it("reads the key ID from a JWT header", () => {
+    const token = jwt.sign({ test: true }, SECRET, { keyid: "new" })
+    assert.equal(validateSignature(BODY, token, "jwt", keys).keyId, "new")
+  })
+
+  it("rejects a missing signature", () => {
+    assert.equal(validateSignature(BODY, "", "hmac-sha256", keys).valid, false)
+  })
+})
+
+describe("checkTimestamp", () => {
+  const now = 1_700_000_000_000
+
+  it("accepts timestamps within the tolerance either side of now", () => {
+    assert.equal(checkTimestamp(now / 1000 - 300, 300, now).ok, true)
+    assert.equal(checkTimestamp(now / 1000 + 300, 300, now).ok, true)
+  })
+
+  it("rejects timestamps outside the tolerance", () => {
+    const check = checkTimestamp(now / 1000 - 301, 300, now)
+    assert.equal(check.ok, false)
+    assert.match(check.reason!, /tolerance 300s/)
+  })
+
+  it("accepts signatures that carry no timestamp", () => {
+    assert.equal(checkTimestamp(undefined, 300, now).ok, true)
+  })
+})
@@ -0,0 +1,63 @@
+// =============================================================================
+// QUEUE SELECTION TESTS
+// =============================================================================
+// Which queued item the worker claims next, per ordering partition
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { nextDueItem } from "../src/storage.js"
+import type { WebhookQueueItem } from "../src/types.js"
+
+const NOW = 1_700_000_000_000
+
+const item = (
+  id: string,
+  fields: Partial<WebhookQueueItem> = {}
+): WebhookQueueItem => ({
+  id,
+  eventId: `evt_${id}`,
+  payload: { event: "order.updated", data: null, source: "shop" },
+  retries: 0,
+  addedAt: NOW,
+  headers: {},
+  attempts: [],
+  nextAttemptAt: NOW,
+  ...fields,
+})
+
+describe("nextDueItem", () => {
+  it("takes the oldest due item", () => {
+    const queue = [
+      item("a", { nextAttemptAt: NOW + 1 }),
+      item("b", { claimedAt: NOW }),
+      item("c"),
+      item("d"),
+    ]
+    assert.equal(nextDueItem(queue, NOW)?.id, "c")
+    assert.equal(nextDueItem(queue, NOW + 1)?.id, "a")
+    assert.equal(nextDueItem([], NOW), undefined)
+  })
+
+  it("holds a partition behind its oldest item", () => {
+    const queue = [
+      item("a", { orderingKey: "data.orderId=1", nextAttemptAt: NOW + 5 }),
+      item("b", { orderingKey: "data.orderId=1" }),
+      item("c", { orderingKey: "data.orderId=2", claimedAt: NOW }),
+      item("d", { orderingKey: "data.orderId=2" }),
+    ]
+    assert.equal(nextDueItem(queue, NOW), undefined)
+
+    queue.push(item("e", { orderingKey: "data.orderId=3" }), item("f"))
+    assert.equal(nextDueItem(queue, NOW)?.id, "e")
+  })
+
+  it("moves on once the head of a partition is gone", () => {
+    const queue = [
+      item("b", { orderingKey: "data.orderId=1" }),
+      item("c", { orderingKey: "data.orderId=1" }),
+    ]
+    assert.equal(nextDueItem(queue, NOW)?.id, "b")
+    assert.equal(nextDueItem(queue.slice(1), NOW)?.id, "c")
+  })
+})
@@ -0,0 +1,131 @@
+// =============================================================================
+// OUTGOING SUBSCRIPTION TESTS
+// =============================================================================
+// Registering subscribers, matching events and their delivery history
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { beforeEach, describe, it } from "node:test"
+import { createMemoryStorage } from "../src/storage.js"
+import {
+  createSubscription,
+  deleteSubscription,
+  getSubscription,
+  initSubscriptions,
+  listSubscriptions,
+  recordSubscriptionDelivery,
+  SUBSCRIPTION_HEADER,
+  subscriptionDeliveries,
+  subscriptionsFor,
+  subscriptionTarget,
+  updateSubscription,
+} from "../src/subscriptions.js"
+
+const ENDPOINT = "https://customer.example/hooks"
+
+beforeEach(() =>
+  initSubscriptions(createMemoryStorage({ historyLimit: 0, eventLimit: 0 }))
+)
+
+describe("createSubscription", () => {
+  it("generates an ID and secret and lists it without the secret", () => {
+    const subscription = createSubscription({
+      url: ENDPOINT,
+      events: ["order.*"],
+      description: "Acme",
+    })
+    assert.match(subscription.id, /^sub_[0-9a-f]{16}$/)
+    assert.match(subscription.secret, /^whsec_/)
+    assert.equal(subscription.active, true)
+    assert.equal(subscription.description, "Acme")
+
+    const [listed] = listSubscriptions()
+    assert.equal(listed?.id, subscription.id)
+    assert.equal("secret" in (listed ?? {}), false)
+  })
+
+  it("refuses missing or invalid fields", () => {
+    assert.throws(() => createSubscription({ url: ENDPOINT }), /are required/)
+    assert.throws(
+      () => createSubscription({ url: "ftp://a", events: ["*"] }),
+      /"url" must be an http\(s\) URL/
+    )
+    assert.throws(
+      () => createSubscription({ url: ENDPOINT, events: [""] }),
+      /"events" must be a non-empty array/
+    )
+    assert.throws(
+      () => createSubscription({ url: ENDPOINT, events: ["*"], active: "yes" }),
+      /"active" must be a boolean/
+    )
+    assert.throws(() => createSubscription(null), /are required/)
+    assert.deepEqual(listSubscriptions(), [])
+  })
+})
+
+describe("subscriptionsFor", () => {
+  it("matches active subscriptions by event glob", () => {
+    const orders = createSubscription({ url: ENDPOINT, events: ["order.*"] })
+    const all = createSubscription({ url: ENDPOINT, events: ["*"] })
+    createSubscription({ url: ENDPOINT, events: ["*"], active: false })
+
+    assert.deepEqual(subscriptionsFor("order.created"), [orders.id, all.id])
+    assert.deepEqual(subscriptionsFor("user.created"), [all.id])
+  })
+})
+
+describe("updateSubscription", () => {
+  it("changes only the given fields", () => {
+    const { id, secret } = createSubscription({ url: ENDPOINT, events: ["*"] })
+    const updated = updateSubscription(id, { active: false })
+    assert.equal(updated?.active, false)
+    assert.equal(updated?.url, ENDPOINT)
+    assert.equal(updated?.secret, secret)
+    assert.deepEqual(subscriptionsFor("order.created"), [])
+  })
+
+  it("rejects invalid fields and unknown IDs", () => {
+    const { id } = createSubscription({ url: ENDPOINT, events: ["*"] })
+    assert.throws(() => updateSubscription(id, { events: "order.*" }))
+    assert.deepEqual(getSubscription(id)?.events, ["*"])
+    assert.equal(updateSubscription("sub_missing", {}), undefined)
+  })
+})
+
+describe("subscriptionTarget", () => {
+  it("signs with the subscriber's secret and names the subscription", () => {
+    const { id, secret } = createSubscription({ url: ENDPOINT, events: ["*"] })
+    assert.deepEqual(subscriptionTarget(id, 5_000), {
+      id,
+      url: ENDPOINT,
+      headers: { [SUBSCRIPTION_HEADER]: id },
+      timeoutMs: 5_000,
+      secret,
+    })
+    assert.equal(subscriptionTarget("sub_missing", 5_000), undefined)
+  })
+})
+
+describe("delivery history", () => {
+  it("keeps the newest 100 attempts until the subscription is deleted", () => {
+    const { id } = createSubscription({ url: ENDPOINT, events: ["*"] })
+    for (let i = 0; i < 105; i++) {
+      recordSubscriptionDelivery(id, {
+        eventId: `evt_${i}`,
+        event: "order.created",
+        ok: true,
+        status: 200,
+        durationMs: 1,
+        at: i,
+      })
+    }
+    const history = subscriptionDeliveries(id)
+    assert.equal(history.length, 100)
+    assert.equal(history[0]?.eventId, "evt_104")
+
+    assert.equal(deleteSubscription(id), true)
+    assert.deepEqual(subscriptionDeliveries(id), [])
+    assert.equal(getSubscription(id), undefined)
+    assert.equal(deleteSubscription(id), false)
+  })
+})
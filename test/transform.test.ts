@@ -0,0 +1,168 @@
+// =============================================================================
+// PAYLOAD TRANSFORM TESTS
+// =============================================================================
+// The JSONPath subset, dotted paths and each transform step
+// =============================================================================
+
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { isObject } from "../src/guards.js"
+import {
+  applyTransform,
+  getPath,
+  parseTransform,
+  queryJsonPath,
+} from "../src/transform.js"
+import type { WebhookPayload } from "../src/types.js"
+
+const payload: WebhookPayload = {
+  event: "order.created",
+  source: "shop",
+  data: {
+    orderId: "42",
+    first: "Ada",
+    last: "Lovelace",
+    internalNotes: "vip",
+    items: [
+      { sku: "A", qty: 1 },
+      { sku: "B", qty: 2, extra: { sku: "B-1" } },
+    ],
+  },
+}
+const meta = { eventId: "evt-1", deliveryId: "dlv-1", receivedAt: 0 }
+
+describe("queryJsonPath", () => {
+  it("reads children by name, quoted name and index", () => {
+    assert.equal(queryJsonPath("$.data.orderId", payload), "42")
+    assert.equal(queryJsonPath("$['data'][\"orderId\"]", payload), "42")
+    assert.equal(queryJsonPath("$.data.items[1].sku", payload), "B")
+    assert.equal(queryJsonPath("$.data.items[-1].qty", payload), 2)
+  })
+
+  it("returns every match of a wildcard as an array", () => {
+    assert.deepEqual(queryJsonPath("$.data.items[*].sku", payload), ["A", "B"])
+    assert.deepEqual(queryJsonPath("$.data.items.*.qty", payload), [1, 2])
+  })
+
+  it("finds keys at any depth with ..", () => {
+    assert.deepEqual(queryJsonPath("$..sku", payload), ["A", "B", "B-1"])
+    assert.deepEqual(queryJsonPath("$.data.items[0]..*", payload), ["A", 1])
+  })
+
+  it("returns undefined, or an empty array, for missing paths", () => {
+    assert.equal(queryJsonPath("$.data.missing.deeper", payload), undefined)
+    assert.deepEqual(queryJsonPath("$.data.missing[*]", payload), [])
+  })
+
+  it("rejects syntax outside the subset", () => {
+    assert.throws(() => queryJsonPath("data.orderId", payload), /must start/)
+    assert.throws(
+      () => queryJsonPath("$.data.items[?(@.qty > 1)]", payload),
+      /unsupported syntax/
+    )
+  })
+})
+
+describe("getPath", () => {
+  it("reads dotted paths through objects and arrays", () => {
+    assert.equal(getPath(payload, "data.items.0.sku"), "A")
+    assert.equal(getPath(payload, "data.nope.sku"), undefined)
+  })
+
+  it("does not follow inherited properties", () => {
+    assert.equal(getPath({ data: {} }, "data.constructor"), undefined)
+    assert.equal(getPath({ data: {} }, "data.__proto__"), undefined)
+  })
+})
+
+describe("applyTransform", () => {
+  // Returns the body and its data, both checked to be objects
+  const transform = (steps: unknown) => {
+    const body = applyTransform(
+      parseTransform(steps, "transform"),
+      payload,
+      meta
+    )
+    assert.ok(isObject(body))
+    const { data } = body
+    assert.ok(isObject(data))
+    return { body, data }
+  }
+
+  it("renames, drops and sets paths without touching the original", () => {
+    const { data } = transform([
+      { rename: { "data.orderId": "data.order_id" } },
+      { drop: ["data.internalNotes", "data.items"] },
+      { set: { "data.name": "{{data.first}} {{data.last}}" } },
+    ])
+    assert.deepEqual(data, {
+      order_id: "42",
+      first: "Ada",
+      last: "Lovelace",
+      name: "Ada Lovelace",
+    })
+    assert.equal(payload.data.orderId, "42")
+  })
+
+  it("keeps the type of a single placeholder and resolves meta", () => {
+    const { data } = transform([
+      {
+        set: {
+          "data.count": "{{$.data.items[0].qty}}",
+          "data.id": "{{meta.deliveryId}}",
+          "data.missing": "x{{data.nope}}y",
+        },
+      },
+    ])
+    assert.equal(data.count, 1)
+    assert.equal(data.id, "dlv-1")
+    assert.equal(data.missing, "xy")
+  })
+
+  it("extracts JSONPath results", () => {
+    const { data } = transform([
+      { extract: { "data.skus": "$.data.items[*].sku" } },
+    ])
+    assert.deepEqual(data.skus, ["A", "B"])
+  })
+
+  it("wraps the data in a CloudEvents envelope", () => {
+    const { body, data } = transform([
+      { drop: ["data.items"] },
+      { envelope: "cloudevents" },
+    ])
+    assert.equal(body.specversion, "1.0")
+    assert.equal(body.id, "dlv-1")
+    assert.equal(body.type, "order.created")
+    assert.equal(body.source, "shop")
+    assert.equal(body.time, "1970-01-01T00:00:00.000Z")
+    assert.equal(data.items, undefined)
+  })
+})
+
+describe("parseTransform", () => {
+  it("names the first invalid step", () => {
+    assert.throws(
+      () => parseTransform([{ drop: ["a"] }, { shout: true }], "routes[0]"),
+      /routes\[0\]\[1\]: unknown step "shout"/
+    )
+    assert.throws(
+      () => parseTransform([{ extract: { a: "$.[" } }], "t"),
+      /t\[0\]\.extract: JSONPath/
+    )
+    assert.throws(() => parseTransform({}, "t"), /must be an array/)
+  })
+
+  it("refuses paths through a prototype", () => {
+    const steps = [
+      { set: { "__proto__.polluted": true } },
+      { rename: { "data.id": "data.constructor.prototype.polluted" } },
+      { drop: ["constructor"] },
+      { extract: { "a.__proto__": "$.data" } },
+    ]
+    for (const step of steps) {
+      assert.throws(() => parseTransform([step], "t"), /reserved key/)
+    }
+    assert.equal(({} as Record<string, unknown>).polluted, undefined)
+  })
+})